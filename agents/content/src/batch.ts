@@ -0,0 +1,299 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  airtableListContentInitiators,
+  airtableSetContentStatus,
+} from '../../../core/shared/tools/airtable-xml.js';
+import { runTool, toolError } from '../../../core/shared/tools/run.js';
+import type { PipelineOptions, PipelineResult } from './generate.js';
+import { complianceOptions, type ComplianceOptions } from './compliance.js';
+import { startExecution, startStep, finishStep, finishExecution } from '../../../core/shared/db/workflows.js';
+
+/**
+ * Batch generation over queued Content Initiators
+ *
+ * Picks up every initiator matching a view and/or formula (default
+ * {Status} = "Queued"), then generates them with a small worker pool. Every
+ * selected record is claimed (In Progress) before the first one starts, so a
+ * duplicate trigger listing Queued records meanwhile doesn't pick it up again;
+ * records a running batch already holds are skipped. Each
+ * record moves In Progress → Generated | Needs Revision | Failed in Airtable
+ * (Needs Revision when the compliance score is under the gate). Cancelling stops
+ * new records from starting and aborts the ones in flight; those go back to
+ * the status they had when the batch picked them up.
+ *
+ * Progress is kept in memory (the last BATCH_HISTORY batches) and, when
+ * Postgres is configured, in workflow_state with one step per initiator.
+ */
+
+const WORKFLOW_NAME = 'content:batch-generate';
+const DEFAULT_FORMULA = process.env.BATCH_DEFAULT_FORMULA || '{Status} = "Queued"';
+const DEFAULT_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY || 3);
+const HISTORY = Number(process.env.BATCH_HISTORY || 50);
+
+export const STATUS = {
+  inProgress: process.env.BATCH_STATUS_IN_PROGRESS || 'In Progress',
+  generated: process.env.BATCH_STATUS_GENERATED || 'Generated',
+  failed: process.env.BATCH_STATUS_FAILED || 'Failed',
+};
+
+export const batchInput = z.object({
+  baseId: z.string().optional(),
+  view: z.string().optional(),
+  formula: z.string().optional().describe('filterByFormula; defaults to {Status} = "Queued" when no view is given'),
+  maxRecords: z.number().int().min(1).max(500).optional().default(100),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  compliance: complianceOptions.optional(),
+});
+
+export type BatchInput = z.infer<typeof batchInput>;
+
+type RecordStatus = 'pending' | 'running' | 'generated' | 'failed' | 'cancelled';
+
+interface BatchRecord {
+  initiatorId: string;
+  goal: string;
+  previousStatus: string | null;
+  status: RecordStatus;
+  error?: string;
+  summary?: string;
+  format?: string;
+  compliance?: { score: number; passed: boolean };
+  durationMs?: number;
+}
+
+interface Batch {
+  id: string;
+  executionId: string | null;
+  status: 'running' | 'completed' | 'cancelled';
+  selection: { view?: string; formula?: string; baseId?: string };
+  concurrency: number;
+  compliance?: ComplianceOptions;
+  createdAt: string;
+  finishedAt: string | null;
+  records: BatchRecord[];
+  /** Selected initiators skipped because another running batch holds them */
+  skipped: string[];
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number };
+  controller: AbortController;
+}
+
+export type GenerateFn = (initiatorId: string, options: PipelineOptions) => Promise<PipelineResult>;
+
+const batches = new Map<string, Batch>();
+/** Initiators held by running batches in this process */
+const claimed = new Set<string>();
+
+function remember(batch: Batch) {
+  batches.set(batch.id, batch);
+  for (const [id, b] of batches) {
+    if (batches.size <= HISTORY) break;
+    if (b.status !== 'running') batches.delete(id);
+  }
+}
+
+/** Public view of a batch: counts + per-record state */
+export function batchReport(batch: Batch) {
+  const counts: Record<RecordStatus, number> = { pending: 0, running: 0, generated: 0, failed: 0, cancelled: 0 };
+  for (const r of batch.records) counts[r.status]++;
+  return {
+    batchId: batch.id,
+    executionId: batch.executionId,
+    status: batch.status,
+    selection: batch.selection,
+    concurrency: batch.concurrency,
+    total: batch.records.length,
+    counts,
+    records: batch.records.map(({ previousStatus: _, ...r }) => r),
+    skipped: batch.skipped,
+    usage: batch.usage,
+    createdAt: batch.createdAt,
+    finishedAt: batch.finishedAt,
+  };
+}
+
+export function getBatch(id: string) {
+  return batches.get(id) ?? null;
+}
+
+export function listBatches() {
+  return [...batches.values()].reverse().map(b => {
+    const { records: _, ...summary } = batchReport(b);
+    return summary;
+  });
+}
+
+async function setStatus(baseId: string | undefined, initiatorId: string, status: string) {
+  const result: any = await runTool(airtableSetContentStatus, { baseId, initiatorId, status });
+  if (!result?.ok) throw new Error(`Could not set Status to "${status}": ${toolError(result)}`);
+}
+
+/**
+ * Select the initiators and start generating in the background. Throws
+ * (with `badRequest`) when the selection can't be listed.
+ */
+export async function startBatch(input: BatchInput, generate: GenerateFn) {
+  const formula = input.formula || (input.view ? undefined : DEFAULT_FORMULA);
+  const listed: any = await runTool(airtableListContentInitiators, {
+    baseId: input.baseId,
+    view: input.view,
+    formula,
+    maxRecords: input.maxRecords,
+  });
+  if (!listed?.ok) {
+    throw Object.assign(new Error(`Could not list Content Initiators: ${toolError(listed)}`), { badRequest: true });
+  }
+
+  const batch: Batch = {
+    id: randomUUID(),
+    executionId: null,
+    status: 'running',
+    selection: { view: input.view, formula, baseId: input.baseId },
+    concurrency: input.concurrency ?? DEFAULT_CONCURRENCY,
+    compliance: input.compliance,
+    createdAt: new Date().toISOString(),
+    finishedAt: null,
+    records: [],
+    skipped: [],
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    controller: new AbortController(),
+  };
+  // No await between the check and the claim, so concurrent starts can't both take a record
+  for (const r of listed.records) {
+    if (claimed.has(r.id)) { batch.skipped.push(r.id); continue; }
+    claimed.add(r.id);
+    batch.records.push({ initiatorId: r.id, goal: r.goal, previousStatus: r.status, status: 'pending' });
+  }
+  remember(batch);
+
+  batch.executionId = await startExecution(
+    WORKFLOW_NAME,
+    { ...batch.selection, concurrency: batch.concurrency },
+    batch.records.map(r => ({ name: r.initiatorId, agent: 'content' })),
+    { kind: 'content-batch', batchId: batch.id },
+  ).catch(err => {
+    console.error('[content] failed to record batch (continuing without):', err.message);
+    return null;
+  });
+
+  void runBatch(batch, generate);
+  return batch;
+}
+
+async function runRecord(batch: Batch, index: number, generate: GenerateFn) {
+  const record = batch.records[index];
+  const baseId = batch.selection.baseId;
+  const stepNumber = index + 1;
+  const t0 = Date.now();
+  record.status = 'running';
+  await startStep(batch.executionId, stepNumber, { initiatorId: record.initiatorId }).catch(() => {});
+
+  try {
+    batch.controller.signal.throwIfAborted();
+    // The pipeline writes the output and the Generated status itself
+    const result = await generate(record.initiatorId, {
+      baseId,
+      status: STATUS.generated,
+      author: `batch:${batch.id}`,
+      compliance: batch.compliance,
+      abortSignal: batch.controller.signal,
+    });
+    batch.usage.inputTokens += result.usage?.inputTokens ?? 0;
+    batch.usage.outputTokens += result.usage?.outputTokens ?? 0;
+    batch.usage.totalTokens += result.usage?.totalTokens ?? 0;
+    if (result.compliance) record.compliance = { score: result.compliance.score, passed: result.compliance.passed };
+    if (!result.ok) throw new Error(`${result.failedStep}: ${result.error}`);
+    record.status = 'generated';
+    record.summary = result.summary;
+    record.format = result.format;
+  } catch (err: any) {
+    const cancelled = batch.controller.signal.aborted;
+    record.status = cancelled ? 'cancelled' : 'failed';
+    record.error = cancelled ? 'Batch cancelled' : err?.message || String(err);
+    // Cancelled records go back to where they were so the next batch picks them up
+    const next = cancelled ? record.previousStatus : STATUS.failed;
+    if (next) {
+      await setStatus(baseId, record.initiatorId, next).catch(e =>
+        console.error(`[content] batch ${batch.id}: ${e.message} (${record.initiatorId})`));
+    }
+  }
+
+  record.durationMs = Date.now() - t0;
+  await finishStep(batch.executionId, stepNumber, {
+    status: record.status === 'generated' ? 'completed' : record.status === 'cancelled' ? 'skipped' : 'failed',
+    output: record.summary ? { summary: record.summary } : undefined,
+    error: record.error ?? null,
+    durationMs: record.durationMs,
+  }).catch(() => {});
+}
+
+/** Set every selected record In Progress; records that can't be claimed fail without running */
+async function claimRecords(batch: Batch) {
+  let next = 0;
+  const worker = async () => {
+    while (next < batch.records.length) {
+      const index = next++;
+      const record = batch.records[index];
+      try {
+        await setStatus(batch.selection.baseId, record.initiatorId, STATUS.inProgress);
+      } catch (err: any) {
+        record.status = 'failed';
+        record.error = `claim: ${err?.message || String(err)}`;
+        claimed.delete(record.initiatorId);
+        await finishStep(batch.executionId, index + 1, { status: 'failed', error: record.error, durationMs: 0 }).catch(() => {});
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(batch.concurrency, batch.records.length) }, worker));
+}
+
+async function runBatch(batch: Batch, generate: GenerateFn) {
+  let next = 0;
+  const worker = async () => {
+    while (!batch.controller.signal.aborted && next < batch.records.length) {
+      const index = next++;
+      if (batch.records[index].status !== 'pending') continue;
+      await runRecord(batch, index, generate);
+      claimed.delete(batch.records[index].initiatorId);
+    }
+  };
+
+  try {
+    await claimRecords(batch);
+    await Promise.all(Array.from({ length: Math.min(batch.concurrency, batch.records.length) }, worker));
+  } catch (err) {
+    console.error(`[content] batch ${batch.id} error:`, err);
+  }
+
+  // Claimed but never started: back to where they were for the next batch
+  for (const r of batch.records) {
+    if (r.status === 'pending') {
+      r.status = 'cancelled';
+      r.error = 'Batch cancelled before this record started';
+      if (r.previousStatus) {
+        await setStatus(batch.selection.baseId, r.initiatorId, r.previousStatus).catch(e =>
+          console.error(`[content] batch ${batch.id}: ${e.message} (${r.initiatorId})`));
+      }
+    }
+    claimed.delete(r.initiatorId);
+  }
+  batch.status = batch.controller.signal.aborted ? 'cancelled' : 'completed';
+  batch.finishedAt = new Date().toISOString();
+
+  const { records: _, ...summary } = batchReport(batch);
+  const failed = batch.records.filter(r => r.status === 'failed').length;
+  await finishExecution(
+    batch.executionId,
+    failed > 0 || batch.status === 'cancelled' ? 'failed' : 'completed',
+    summary,
+    batch.status === 'cancelled' ? 'Batch cancelled' : failed > 0 ? `${failed} initiator(s) failed` : null,
+    { usage: batch.usage },
+  ).catch(err => console.error('[content] failed to record batch result:', err.message));
+}
+
+/** Stop starting new records and abort the running ones; returns false if it already finished */
+export function cancelBatch(batch: Batch) {
+  if (batch.status !== 'running') return false;
+  batch.controller.abort();
+  return true;
+}
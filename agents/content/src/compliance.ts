@@ -0,0 +1,393 @@
+import type { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import {
+  descendants, elements, parseXmlFragment, textOf, type XmlElement, type XmlNode,
+} from '../../../core/shared/tools/xml-bundle.js';
+import { parseJsonBlock } from '../../../core/shared/tools/json-block.js';
+
+/**
+ * Persona / domain compliance checker for generated drafts
+ *
+ * Deterministic rules are read from tags in the bundle's persona, domain and
+ * entity XML:
+ *   <bannedTerms>, <requiredTerms>   <term> children, or a comma/line separated list
+ *   <length min max unit="words|characters">, <minWords>, <maxWords>, <maxCharacters>
+ *   <readingLevel max="8"> or <readingLevel>8</readingLevel>   (Flesch-Kincaid grade)
+ *   <disclaimer>                      text that must appear verbatim
+ *
+ * Every rule is one check and the deterministic score is the share that pass.
+ * The optional LLM judge scores voice and domain fit against the whole bundle
+ * and is blended in with COMPLIANCE_JUDGE_WEIGHT. Violations carry the
+ * offending spans as character offsets into the draft.
+ */
+
+export const COMPLIANCE = {
+  minScore: process.env.COMPLIANCE_MIN_SCORE ? Number(process.env.COMPLIANCE_MIN_SCORE) : null,
+  onFail: (process.env.COMPLIANCE_ON_FAIL === 'block' ? 'block' : 'needs-revision') as 'block' | 'needs-revision',
+  judge: process.env.COMPLIANCE_JUDGE === 'true',
+  judgeWeight: Number(process.env.COMPLIANCE_JUDGE_WEIGHT ?? 0.5),
+  needsRevisionStatus: process.env.COMPLIANCE_STATUS_NEEDS_REVISION || 'Needs Revision',
+};
+
+/** Per-request overrides of the COMPLIANCE_* defaults */
+export const complianceOptions = z.object({
+  minScore: z.number().min(0).max(100).nullable().optional().describe('Below this score the draft fails; null disables the gate'),
+  onFail: z.enum(['block', 'needs-revision']).optional(),
+  judge: z.boolean().optional().describe('Also run the LLM judge'),
+});
+
+export type ComplianceOptions = z.infer<typeof complianceOptions>;
+
+export interface RuleSource {
+  kind: 'persona' | 'domain' | 'entity';
+  name: string | null;
+}
+
+export interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type RuleKind = 'banned-term' | 'required-term' | 'length' | 'reading-level' | 'disclaimer' | 'judge';
+
+export interface ComplianceCheck {
+  rule: RuleKind;
+  passed: boolean;
+  message: string;
+  source: RuleSource | null;
+  spans: Span[];
+}
+
+type Bound = { value: number; source: RuleSource };
+
+export interface ComplianceRules {
+  banned: Array<{ term: string; source: RuleSource }>;
+  required: Array<{ term: string; source: RuleSource }>;
+  minWords: Bound | null;
+  maxWords: Bound | null;
+  minCharacters: Bound | null;
+  maxCharacters: Bound | null;
+  maxGrade: Bound | null;
+  disclaimers: Array<{ text: string; source: RuleSource }>;
+}
+
+const SECTIONS = [
+  { tag: 'personas', kind: 'persona' },
+  { tag: 'domains', kind: 'domain' },
+  { tag: 'entities', kind: 'entity' },
+] as const;
+
+const BANNED_TAGS = ['bannedTerms', 'bannedWords', 'forbiddenTerms'];
+const REQUIRED_TAGS = ['requiredTerms', 'requiredWords', 'mustInclude'];
+
+// ---------------------------------------------------------------------------
+// Rule extraction
+// ---------------------------------------------------------------------------
+
+function directText(el: XmlElement) {
+  return el.children.filter((c): c is string => typeof c === 'string').join('');
+}
+
+/** <term> children, or the element's own text split on commas, semicolons and newlines */
+function termsOf(el: XmlElement) {
+  const children = elements(el.children);
+  const raw = children.length > 0 ? children.map(c => textOf(c)) : directText(el).split(/[,;\n]/);
+  return raw.map(t => t.trim().replace(/^["'“‘]|["'”’]$/g, '').trim()).filter(Boolean);
+}
+
+function numberOf(el: XmlElement, attribute?: string) {
+  const source = (attribute && el.attributes[attribute]) || textOf(el);
+  const match = source.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+function nameOf(fragment: XmlElement) {
+  for (const tag of ['name', 'title']) {
+    const text = descendants([fragment], tag).map(n => textOf(n)).find(Boolean);
+    if (text) return text;
+  }
+  return fragment.attributes.name ?? null;
+}
+
+/** Keep the strictest bound (lowest max / highest min) */
+function tighten(current: Bound | null, value: number | null, source: RuleSource, keep: 'min' | 'max'): Bound | null {
+  if (value === null) return current;
+  if (!current) return { value, source };
+  const stricter = keep === 'max' ? value < current.value : value > current.value;
+  return stricter ? { value, source } : current;
+}
+
+function collect(rules: ComplianceRules, nodes: XmlNode[], source: RuleSource) {
+  for (const tag of BANNED_TAGS) {
+    for (const el of descendants(nodes, tag)) for (const term of termsOf(el)) rules.banned.push({ term, source });
+  }
+  for (const tag of REQUIRED_TAGS) {
+    for (const el of descendants(nodes, tag)) for (const term of termsOf(el)) rules.required.push({ term, source });
+  }
+
+  for (const el of descendants(nodes, 'length')) {
+    const chars = (el.attributes.unit || 'words').toLowerCase().startsWith('char');
+    const [minKey, maxKey] = chars ? ['minCharacters', 'maxCharacters'] as const : ['minWords', 'maxWords'] as const;
+    const min = el.attributes.min !== undefined ? numberOf(el, 'min') : null;
+    const max = el.attributes.max !== undefined ? numberOf(el, 'max') : min === null ? numberOf(el) : null;
+    rules[minKey] = tighten(rules[minKey], min, source, 'min');
+    rules[maxKey] = tighten(rules[maxKey], max, source, 'max');
+  }
+  for (const el of descendants(nodes, 'minWords')) rules.minWords = tighten(rules.minWords, numberOf(el), source, 'min');
+  for (const el of descendants(nodes, 'maxWords')) rules.maxWords = tighten(rules.maxWords, numberOf(el), source, 'max');
+  for (const el of descendants(nodes, 'maxCharacters')) rules.maxCharacters = tighten(rules.maxCharacters, numberOf(el), source, 'max');
+  for (const el of descendants(nodes, 'readingLevel')) rules.maxGrade = tighten(rules.maxGrade, numberOf(el, 'max'), source, 'max');
+
+  for (const el of descendants(nodes, 'disclaimer')) {
+    const text = textOf(el);
+    if (text) rules.disclaimers.push({ text, source });
+  }
+}
+
+/** Rules from every persona/domain/entity fragment in the bundle XML */
+export function extractRules(bundleXml: string) {
+  const rules: ComplianceRules = {
+    banned: [], required: [], minWords: null, maxWords: null, minCharacters: null, maxCharacters: null, maxGrade: null, disclaimers: [],
+  };
+  const parsed = parseXmlFragment(bundleXml);
+  if (!parsed.ok) return { rules, error: `Bundle XML is not well-formed: ${parsed.error} (line ${parsed.line})` };
+
+  for (const { tag, kind } of SECTIONS) {
+    for (const section of descendants(parsed.nodes, tag)) {
+      for (const fragment of elements(section.children)) collect(rules, [fragment], { kind, name: nameOf(fragment) });
+    }
+  }
+  return { rules, error: null };
+}
+
+// ---------------------------------------------------------------------------
+// Deterministic checks
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Case-insensitive matches where spaces and hyphens are interchangeable (whole words only unless wholeWord is false) */
+function findAll(draft: string, phrase: string, wholeWord = true): Span[] {
+  const pattern = phrase.trim().split(/[\s-]+/).filter(Boolean).map(escapeRegExp).join('[\\s-]+');
+  if (!pattern) return [];
+  const re = wholeWord
+    ? new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'giu')
+    : new RegExp(pattern, 'giu');
+  return [...draft.matchAll(re)].map(m => ({ start: m.index!, end: m.index! + m[0].length, text: m[0] }));
+}
+
+function words(draft: string) {
+  return [...draft.matchAll(/\S+/g)];
+}
+
+function syllables(word: string) {
+  let w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 0;
+  if (w.length <= 3) return 1;
+  w = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, w.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+/** Sentences (split on . ! ? and line breaks) with their offsets */
+function sentences(draft: string): Span[] {
+  return [...draft.matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)]
+    .map(m => ({ start: m.index!, end: m.index! + m[0].trimEnd().length, text: m[0].trim() }))
+    .filter(s => /\p{L}/u.test(s.text));
+}
+
+/** Flesch-Kincaid grade level */
+export function gradeLevel(text: string, sentenceCount = Math.max(1, sentences(text).length)) {
+  const ws = words(text).map(m => m[0]).filter(w => /\p{L}/u.test(w));
+  if (ws.length === 0) return 0;
+  const syl = ws.reduce((n, w) => n + syllables(w), 0);
+  return Math.round((0.39 * (ws.length / sentenceCount) + 11.8 * (syl / ws.length) - 15.59) * 10) / 10;
+}
+
+export function runChecks(draft: string, rules: ComplianceRules): ComplianceCheck[] {
+  const checks: ComplianceCheck[] = [];
+
+  for (const { term, source } of rules.banned) {
+    const spans = findAll(draft, term);
+    checks.push({
+      rule: 'banned-term',
+      passed: spans.length === 0,
+      message: spans.length ? `Banned term "${term}" used ${spans.length} time(s)` : `Banned term "${term}" not used`,
+      source,
+      spans,
+    });
+  }
+
+  for (const { term, source } of rules.required) {
+    const found = findAll(draft, term).length > 0;
+    checks.push({ rule: 'required-term', passed: found, message: found ? `Required term "${term}" present` : `Required term "${term}" missing`, source, spans: [] });
+  }
+
+  const ws = words(draft);
+  if (rules.minWords) {
+    const { value, source } = rules.minWords;
+    checks.push({ rule: 'length', passed: ws.length >= value, message: `${ws.length} words (minimum ${value})`, source, spans: [] });
+  }
+  if (rules.maxWords) {
+    const { value, source } = rules.maxWords;
+    const over = ws.length > value ? ws[value].index! : null;
+    checks.push({
+      rule: 'length',
+      passed: over === null,
+      message: `${ws.length} words (maximum ${value})`,
+      source,
+      spans: over === null ? [] : [{ start: over, end: draft.length, text: draft.slice(over, over + 80) }],
+    });
+  }
+  if (rules.minCharacters) {
+    const { value, source } = rules.minCharacters;
+    checks.push({ rule: 'length', passed: draft.length >= value, message: `${draft.length} characters (minimum ${value})`, source, spans: [] });
+  }
+  if (rules.maxCharacters) {
+    const { value, source } = rules.maxCharacters;
+    const passed = draft.length <= value;
+    checks.push({
+      rule: 'length',
+      passed,
+      message: `${draft.length} characters (maximum ${value})`,
+      source,
+      spans: passed ? [] : [{ start: value, end: draft.length, text: draft.slice(value, value + 80) }],
+    });
+  }
+
+  if (rules.maxGrade) {
+    const { value, source } = rules.maxGrade;
+    const all = sentences(draft);
+    const grade = gradeLevel(draft, Math.max(1, all.length));
+    const passed = grade <= value;
+    // Point at the hardest sentences when the draft as a whole is too difficult
+    const hardest = passed ? [] : all
+      .map(s => ({ span: s, grade: gradeLevel(s.text, 1) }))
+      .filter(s => s.grade > value && words(s.span.text).length >= 8)
+      .sort((a, b) => b.grade - a.grade)
+      .slice(0, 3)
+      .map(s => s.span);
+    checks.push({ rule: 'reading-level', passed, message: `Reading grade ${grade} (maximum ${value})`, source, spans: hardest });
+  }
+
+  for (const { text, source } of rules.disclaimers) {
+    const found = findAll(draft, text, false).length > 0;
+    const preview = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    checks.push({ rule: 'disclaimer', passed: found, message: found ? `Disclaimer present: "${preview}"` : `Disclaimer missing: "${preview}"`, source, spans: [] });
+  }
+
+  return checks;
+}
+
+// ---------------------------------------------------------------------------
+// LLM judge
+// ---------------------------------------------------------------------------
+
+const judgeVerdict = z.object({
+  score: z.number().min(0).max(100),
+  issues: z.array(z.object({
+    rule: z.string().default(''),
+    quote: z.string().default(''),
+    explanation: z.string().default(''),
+  })).default([]),
+});
+
+const JUDGE_INSTRUCTIONS = `You review drafts for compliance with a content bundle: persona voice and style rules, persona guidelines (do/avoid), and domain and entity constraints.
+
+Score the draft from 0 (ignores the bundle) to 100 (fully compliant). List every issue with the rule it breaks and an exact quote from the draft. Don't report style preferences the bundle doesn't state.
+
+Answer with only a JSON code block in exactly this shape:
+\`\`\`json
+{ "score": 0-100, "issues": [{ "rule": "which persona/domain rule", "quote": "exact text from the draft", "explanation": "why it breaks the rule" }] }
+\`\`\``;
+
+async function runJudge(agent: Agent, bundleXml: string, draft: string, abortSignal?: AbortSignal) {
+  const result = await agent.generate([{
+    role: 'user',
+    content: `BUNDLE:\n${bundleXml}\n\nDRAFT:\n${draft}`,
+  }], {
+    instructions: JUDGE_INSTRUCTIONS,
+    toolChoice: 'none',
+    maxSteps: 1,
+    abortSignal,
+  });
+  const verdict = parseJsonBlock(result.text, judgeVerdict);
+  if (!verdict) throw Object.assign(new Error('Judge did not return the expected JSON block'), { usage: result.totalUsage });
+  const checks: ComplianceCheck[] = verdict.issues.map(issue => ({
+    rule: 'judge',
+    passed: false,
+    message: [issue.rule, issue.explanation].filter(Boolean).join(': '),
+    source: null,
+    // The judge's quote may be paraphrased; only exact matches become spans
+    spans: issue.quote ? findAll(draft, issue.quote, false).slice(0, 1) : [],
+  }));
+  return { score: verdict.score, checks, usage: result.totalUsage };
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+export interface CheckComplianceOptions extends ComplianceOptions {
+  /** Needed for the judge pass */
+  agent?: Agent;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Score a draft against the bundle. `passed` is false when the score is
+ * below minScore (no gate when minScore is null).
+ */
+export async function checkCompliance(draft: string, bundleXml: string, options: CheckComplianceOptions = {}) {
+  const minScore = options.minScore === undefined ? COMPLIANCE.minScore : options.minScore;
+  const { rules, error } = extractRules(bundleXml);
+  const checks = runChecks(draft, rules);
+  const deterministicScore = checks.length
+    ? Math.round((100 * checks.filter(c => c.passed).length) / checks.length)
+    : 100;
+
+  let judge: { ok: true; score: number } | { ok: false; error: string } | null = null;
+  let usage: any = null;
+  if (options.judge ?? COMPLIANCE.judge) {
+    if (!options.agent) {
+      judge = { ok: false, error: 'No model available for the judge' };
+    } else {
+      try {
+        const verdict = await runJudge(options.agent, bundleXml, draft, options.abortSignal);
+        judge = { ok: true, score: verdict.score };
+        usage = verdict.usage;
+        checks.push(...verdict.checks);
+      } catch (err: any) {
+        if (options.abortSignal?.aborted) throw err;
+        judge = { ok: false, error: err?.message || String(err) };
+        usage = err?.usage ?? null;
+      }
+    }
+  }
+
+  const weight = Math.min(1, Math.max(0, COMPLIANCE.judgeWeight));
+  const score = judge?.ok ? Math.round((1 - weight) * deterministicScore + weight * judge.score) : deterministicScore;
+
+  return {
+    score,
+    minScore,
+    passed: minScore === null || score >= minScore,
+    deterministicScore,
+    judge,
+    violations: checks.filter(c => !c.passed),
+    checks: checks.filter(c => c.passed),
+    rules: {
+      banned: rules.banned.length,
+      required: rules.required.length,
+      length: [rules.minWords, rules.maxWords, rules.minCharacters, rules.maxCharacters].filter(Boolean).length,
+      readingLevel: rules.maxGrade?.value ?? null,
+      disclaimers: rules.disclaimers.length,
+    },
+    warnings: error ? [error] : [],
+    usage,
+  };
+}
+
+export type ComplianceReport = Awaited<ReturnType<typeof checkCompliance>>;
@@ -0,0 +1,108 @@
+/**
+ * Line diff between two revisions
+ *
+ * Common leading/trailing lines are trimmed, then the middle is aligned by
+ * longest common subsequence. Inputs too large to align (MAX_CELLS) are
+ * reported as one replaced block rather than spending the memory.
+ */
+
+export interface DiffOp {
+  op: 'equal' | 'add' | 'remove';
+  lines: string[];
+}
+
+const MAX_CELLS = 4_000_000;
+const CONTEXT = 3;
+
+function push(ops: DiffOp[], op: DiffOp['op'], line: string) {
+  const last = ops[ops.length - 1];
+  if (last?.op === op) last.lines.push(line);
+  else ops.push({ op, lines: [line] });
+}
+
+function alignMiddle(a: string[], b: string[], ops: DiffOp[]) {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > MAX_CELLS) {
+    for (const line of a) push(ops, 'remove', line);
+    for (const line of b) push(ops, 'add', line);
+    return;
+  }
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i] === b[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { push(ops, 'equal', a[i]); i++; j++; }
+    else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) push(ops, 'remove', a[i++]);
+    else push(ops, 'add', b[j++]);
+  }
+  while (i < n) push(ops, 'remove', a[i++]);
+  while (j < m) push(ops, 'add', b[j++]);
+}
+
+/** Unified diff text with CONTEXT lines around each change */
+function unified(ops: DiffOp[], fromLabel: string, toLabel: string) {
+  const rows: Array<{ tag: ' ' | '+' | '-'; line: string; a: number; b: number }> = [];
+  let a = 1;
+  let b = 1;
+  for (const { op, lines } of ops) {
+    for (const line of lines) {
+      if (op === 'equal') rows.push({ tag: ' ', line, a: a++, b: b++ });
+      else if (op === 'remove') rows.push({ tag: '-', line, a: a++, b });
+      else rows.push({ tag: '+', line, a, b: b++ });
+    }
+  }
+
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let k = 0;
+  while (k < rows.length) {
+    const change = rows.findIndex((r, idx) => idx >= k && r.tag !== ' ');
+    if (change === -1) break;
+    const start = Math.max(k, change - CONTEXT);
+    let end = change;
+    // Extend the hunk while the next change is within 2 * CONTEXT lines
+    for (let idx = change; idx < rows.length; idx++) {
+      if (rows[idx].tag !== ' ') end = idx;
+      else if (idx - end > 2 * CONTEXT) break;
+    }
+    const stop = Math.min(rows.length, end + CONTEXT + 1);
+    const hunk = rows.slice(start, stop);
+    const aLines = hunk.filter(r => r.tag !== '+').length;
+    const bLines = hunk.filter(r => r.tag !== '-').length;
+    out.push(`@@ -${aLines ? hunk[0].a : hunk[0].a - 1},${aLines} +${bLines ? hunk[0].b : hunk[0].b - 1},${bLines} @@`);
+    for (const r of hunk) out.push(`${r.tag}${r.line}`);
+    k = stop;
+  }
+  return out.join('\n');
+}
+
+export function diffLines(from: string, to: string, labels: { from: string; to: string }) {
+  const a = from.split('\n');
+  const b = to.split('\n');
+  const ops: DiffOp[] = [];
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) push(ops, 'equal', a[head++]);
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  alignMiddle(a.slice(head, a.length - tail), b.slice(head, b.length - tail), ops);
+  for (const line of a.slice(a.length - tail)) push(ops, 'equal', line);
+
+  const count = (op: DiffOp['op']) => ops.filter(o => o.op === op).reduce((n, o) => n + o.lines.length, 0);
+  return {
+    added: count('add'),
+    removed: count('remove'),
+    unchanged: count('equal'),
+    ops,
+    unified: unified(ops, labels.from, labels.to),
+  };
+}
@@ -0,0 +1,165 @@
+import { z } from 'zod';
+
+/**
+ * Output format catalog
+ *
+ * Each format is chosen from the initiator's Output Type, by id, label or
+ * alias. It has a zod schema the model's structured output must satisfy, an
+ * example shown in the prompt, and a renderer that turns the validated value
+ * into the text stored in Output. The JSON is stored as well, so publishing
+ * steps can read fields instead of parsing prose. Output Types that aren't in
+ * the catalog fall back to `text`.
+ */
+
+export interface OutputFormat<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  id: string;
+  label: string;
+  aliases: string[];
+  /** Extra guidance for the writer, beyond the schema */
+  guidance: string;
+  schema: S;
+  example: z.infer<S>;
+  render(value: z.infer<S>): string;
+}
+
+function defineFormat<S extends z.ZodTypeAny>(format: OutputFormat<S>): OutputFormat<S> {
+  return format;
+}
+
+/** YAML scalar: JSON strings are valid YAML and need no further escaping */
+const yaml = (value: string) => JSON.stringify(value);
+
+const blogPost = defineFormat({
+  id: 'blog-post',
+  label: 'Blog Post',
+  aliases: ['blog', 'article', 'blog article'],
+  guidance: 'Body is markdown without the title heading; use ## subheadings.',
+  schema: z.object({
+    title: z.string().min(1).max(120),
+    slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'lowercase words separated by hyphens'),
+    description: z.string().min(1).max(160),
+    tags: z.array(z.string().min(1)).max(10).default([]),
+    body: z.string().min(1),
+  }),
+  example: {
+    title: 'How RAG Keeps Answers Current',
+    slug: 'how-rag-keeps-answers-current',
+    description: 'Retrieval-augmented generation in plain terms.',
+    tags: ['ai', 'rag'],
+    body: '## Why it matters\n\n...',
+  },
+  render: v => [
+    '---',
+    `title: ${yaml(v.title)}`,
+    `slug: ${yaml(v.slug)}`,
+    `description: ${yaml(v.description)}`,
+    `tags: [${v.tags.map(yaml).join(', ')}]`,
+    '---',
+    '',
+    v.body.trim(),
+  ].join('\n'),
+});
+
+const tweetThread = defineFormat({
+  id: 'tweet-thread',
+  label: 'Tweet Thread',
+  aliases: ['twitter thread', 'x thread', 'thread', 'tweets', 'twitter'],
+  guidance: 'Each tweet stands alone and is at most 280 characters, including any numbering or hashtags.',
+  schema: z.object({
+    tweets: z.array(z.string().min(1).max(280, 'a tweet is at most 280 characters')).min(1).max(25),
+  }),
+  example: { tweets: ['1/ Most teams ship RAG without measuring retrieval...', '2/ Start with ...'] },
+  render: v => v.tweets.map(t => t.trim()).join('\n\n---\n\n'),
+});
+
+const email = defineFormat({
+  id: 'email',
+  label: 'Email',
+  aliases: ['newsletter', 'email newsletter', 'e-mail'],
+  guidance: 'Body is plain text with blank lines between paragraphs; no subject line inside the body.',
+  schema: z.object({
+    subject: z.string().min(1).max(100),
+    preheader: z.string().min(1).max(150),
+    body: z.string().min(1),
+  }),
+  example: { subject: 'Your retrieval stack, audited', preheader: 'Three checks that take ten minutes', body: 'Hi there,\n\n...' },
+  render: v => `Subject: ${v.subject}\nPreheader: ${v.preheader}\n\n${v.body.trim()}`,
+});
+
+const linkedinPost = defineFormat({
+  id: 'linkedin-post',
+  label: 'LinkedIn Post',
+  aliases: ['linkedin'],
+  guidance: 'The hook is the first line people see before "see more". Hashtags without the # sign.',
+  schema: z.object({
+    hook: z.string().min(1).max(200),
+    body: z.string().min(1),
+    hashtags: z.array(z.string().regex(/^[\p{L}\p{N}_]+$/u, 'letters, digits and _ only, without #')).max(5).default([]),
+  }).refine(
+    v => v.hook.length + v.body.length + v.hashtags.join(' #').length + 4 <= 3000,
+    { message: 'a LinkedIn post is at most 3000 characters', path: ['body'] },
+  ),
+  example: { hook: 'We cut support tickets 40% with one change.', body: '...', hashtags: ['CustomerSuccess'] },
+  render: v => [v.hook.trim(), v.body.trim(), v.hashtags.map(h => `#${h}`).join(' ')].filter(Boolean).join('\n\n'),
+});
+
+const videoScript = defineFormat({
+  id: 'video-script',
+  label: 'Video Script',
+  aliases: ['script', 'youtube script', 'video', 'reel script', 'short video'],
+  guidance: 'One scene per shot: what is on screen (visual) and what is said (narration).',
+  schema: z.object({
+    title: z.string().min(1),
+    scenes: z.array(z.object({
+      heading: z.string().min(1),
+      visual: z.string().min(1),
+      narration: z.string().min(1),
+      durationSec: z.number().positive().max(600).optional(),
+    })).min(1),
+  }),
+  example: {
+    title: 'RAG in 60 seconds',
+    scenes: [{ heading: 'Cold open', visual: 'Presenter at whiteboard', narration: 'Your chatbot is confidently wrong...', durationSec: 8 }],
+  },
+  render: v => [
+    `# ${v.title}`,
+    ...v.scenes.map((s, i) => [
+      '',
+      `## Scene ${i + 1}: ${s.heading}${s.durationSec ? ` (${s.durationSec}s)` : ''}`,
+      `VISUAL: ${s.visual}`,
+      `NARRATION: ${s.narration}`,
+    ].join('\n')),
+  ].join('\n'),
+});
+
+const text = defineFormat({
+  id: 'text',
+  label: 'Text',
+  aliases: [],
+  guidance: 'Free-form content in the requested output type.',
+  schema: z.object({ body: z.string().min(1) }),
+  example: { body: '...' },
+  render: v => v.body.trim(),
+});
+
+export const OUTPUT_FORMATS: OutputFormat[] = [blogPost, tweetThread, email, linkedinPost, videoScript, text];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Format for an Output Type (or format id); `text` when nothing matches */
+export function resolveFormat(outputType: string | null | undefined) {
+  const wanted = normalize(outputType ?? '');
+  const match = wanted
+    ? OUTPUT_FORMATS.find(f => [f.id, f.label, ...f.aliases].some(name => normalize(name) === wanted))
+    : undefined;
+  return { format: match ?? text, matched: Boolean(match) };
+}
+
+export function getFormat(id: string) {
+  return OUTPUT_FORMATS.find(f => f.id === id) ?? null;
+}
+
+/** Validation errors as short "path: message" lines for the repair prompt and error reports */
+export function formatIssues(error: z.ZodError) {
+  return error.issues.map(i => `${i.path.length ? i.path.join('.') : '(root)'}: ${i.message}`);
+}
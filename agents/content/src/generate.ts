@@ -0,0 +1,321 @@
+import { createHash } from 'crypto';
+import type { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import {
+  airtableGetHydratedContentContext,
+  airtableUpdateContentOutput,
+} from '../../../core/shared/tools/airtable-xml.js';
+import { runTool, toolError } from '../../../core/shared/tools/run.js';
+import { db } from '../../../core/shared/db/postgres.js';
+import { createRevision, markRevisionInOutput } from '../../../core/shared/db/revisions.js';
+import { pendingFeedback } from '../../../core/shared/db/reviews.js';
+import { parseJsonBlock } from '../../../core/shared/tools/json-block.js';
+import { formatIssues, getFormat, resolveFormat, type OutputFormat } from './formats.js';
+import { COMPLIANCE, checkCompliance, type ComplianceOptions, type ComplianceReport } from './compliance.js';
+import type { BundleWarning, ContentBundle } from '../../../core/shared/tools/xml-bundle.js';
+
+/**
+ * Deterministic generation pipeline for one Content Initiator
+ *
+ * 1. fetch-bundle   airtableGetHydratedContentContext, called by the server,
+ *                   plus reviewer feedback not yet addressed (content.reviews)
+ * 2. generate       one model call with the bundle in context (no tools); the
+ *                   answer's `output` must validate against the Output Type's
+ *                   format schema (formats.ts), with one repair call listing
+ *                   the validation errors, and is rendered to the content text
+ * 3. check-compliance  persona/domain rules (+ optional LLM judge); under
+ *                   minScore it fails the run (onFail "block") or the output is
+ *                   written with Status "Needs Revision"
+ * 4. save-revision  next numbered revision in content.revisions (skipped
+ *                   without Postgres), so Output is never overwritten unrecorded
+ * 5. write-back     airtableUpdateContentOutput with content, structured JSON,
+ *                   status and metadata
+ *
+ * Steps stop at the first failure and each one is reported. Linked records
+ * that couldn't be fetched fail step 1 instead of generating without them;
+ * malformed XML fragments are only warnings. /chat keeps the agent-driven
+ * tool loop.
+ */
+
+export type PipelineStepName = 'fetch-bundle' | 'generate' | 'check-compliance' | 'save-revision' | 'write-back';
+
+export interface PipelineStep {
+  name: PipelineStepName;
+  status: 'completed' | 'failed' | 'skipped';
+  durationMs: number;
+  error?: string;
+}
+
+export interface PipelineOptions {
+  baseId?: string;
+  /** Status written with the output (default "Generated") */
+  status?: string;
+  /** Stored on the revision (user ID, or e.g. batch:<id>) */
+  author?: string | null;
+  /** Overrides of the COMPLIANCE_* defaults */
+  compliance?: ComplianceOptions;
+  /** Format id overriding the one resolved from Output Type */
+  format?: string;
+  /** Reviewer feedback for this run; defaults to the pending feedback in content.reviews */
+  feedback?: string[];
+  abortSignal?: AbortSignal;
+}
+
+/** Bump when WRITER_INSTRUCTIONS or generationPrompt change meaningfully; stored on each revision */
+export const PROMPT_VERSION = 'pipeline-3';
+
+const generatedAnswer = z.object({
+  title: z.string().default(''),
+  summary: z.string().default(''),
+  output: z.unknown(),
+});
+
+interface GeneratedContent {
+  title: string;
+  summary: string;
+  /** Rendered from `structured` by the format */
+  content: string;
+  format: string;
+  structured: unknown;
+}
+
+const WRITER_INSTRUCTIONS = `You are a content writer. You receive a Content Initiator bundle: the goal, content and output types, persona voice and style rules, domain constraints, related entities and references.
+
+Write content that:
+- achieves the goal in the requested content type and output type
+- follows every persona voice rule exactly
+- respects every domain constraint
+- only cites references that appear in the bundle
+
+Return the complete content, not an outline. Answer with only a JSON code block in exactly this shape, where "output" follows the OUTPUT FORMAT given with the bundle:
+\`\`\`json
+{ "title": "working title", "summary": "one paragraph describing what was generated", "output": { } }
+\`\`\``;
+
+const list = (items: string[]) => (items.length ? items.map(i => `- ${i}`).join('\n') : '- (none)');
+
+export function generationPrompt(bundle: ContentBundle, xml: string, format: OutputFormat, feedback: string[] = []) {
+  const review = feedback.length
+    ? `\n\nREVIEWER FEEDBACK on the previous draft (address every point):\n${list(feedback)}`
+    : '';
+  return `Content Initiator: ${bundle.initiatorId}
+GOAL: ${bundle.goal ?? '(not set)'}
+CONTENT TYPE: ${bundle.contentType ?? '(not set)'}
+OUTPUT TYPE: ${bundle.outputType ?? '(not set)'}
+
+VOICE RULES:
+${list(bundle.voiceRules)}
+
+CONSTRAINTS:
+${list(bundle.constraints)}
+
+OUTPUT FORMAT: ${format.label} (${format.id})
+${format.guidance}
+"output" must be JSON like this example (shape and field names, not content):
+${JSON.stringify(format.example, null, 2)}
+
+FULL BUNDLE (personas, domains, entities, references):
+${xml}${review}`;
+}
+
+/** The answer's `output` checked against the format; issues are "path: message" lines */
+function validateAnswer(text: string, format: OutputFormat) {
+  const answer = parseJsonBlock(text, generatedAnswer);
+  if (!answer) return { issues: ['(root): expected a JSON code block with title, summary and output'] };
+  const result = format.schema.safeParse(answer.output);
+  if (!result.success) return { issues: formatIssues(result.error) };
+  return { answer, structured: result.data };
+}
+
+/**
+ * The model call: bundle in context, no tools. An answer that doesn't match
+ * the format gets one repair call with the validation errors.
+ */
+async function generateContent(
+  agent: Agent, bundle: ContentBundle, xml: string, format: OutputFormat, feedback: string[], abortSignal?: AbortSignal,
+) {
+  const options = { instructions: WRITER_INSTRUCTIONS, toolChoice: 'none' as const, maxSteps: 1, abortSignal };
+  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
+    { role: 'user', content: generationPrompt(bundle, xml, format, feedback) },
+  ];
+  let usage: any = null;
+  let model: string | null = null;
+  let checked: ReturnType<typeof validateAnswer> = { issues: [] };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const result = await agent.generate(messages, options);
+    usage = addUsage(usage, result.totalUsage);
+    model = result.response?.modelId ?? model;
+    checked = validateAnswer(result.text, format);
+    if (checked.answer) break;
+    messages.push(
+      { role: 'assistant', content: result.text },
+      { role: 'user', content: `That answer does not match the ${format.label} format:\n${list(checked.issues)}\n\nAnswer again with the corrected JSON code block only.` },
+    );
+  }
+
+  if (!checked.answer) {
+    throw Object.assign(new Error(`Output does not match the ${format.label} format: ${checked.issues.join('; ')}`), {
+      usage,
+      formatErrors: checked.issues,
+    });
+  }
+  const content = format.render(checked.structured);
+  if (!content.trim()) throw Object.assign(new Error('Model returned no content'), { usage });
+  const generated: GeneratedContent = {
+    title: checked.answer.title,
+    summary: checked.answer.summary,
+    content,
+    format: format.id,
+    structured: checked.structured,
+  };
+  return { generated, usage, model };
+}
+
+/** Sum two token usage objects (either may be missing) */
+function addUsage(a: any, b: any) {
+  if (!b) return a;
+  if (!a) return b;
+  return {
+    inputTokens: (a.inputTokens ?? 0) + (b.inputTokens ?? 0),
+    outputTokens: (a.outputTokens ?? 0) + (b.outputTokens ?? 0),
+    totalTokens: (a.totalTokens ?? 0) + (b.totalTokens ?? 0),
+  };
+}
+
+export async function runGenerationPipeline(agent: Agent, initiatorId: string, options: PipelineOptions = {}) {
+  const { baseId, abortSignal } = options;
+  const steps: PipelineStep[] = [];
+  let warnings: BundleWarning[] = [];
+  let usage: any = null;
+  let generated: GeneratedContent | null = null;
+  let model: string | null = null;
+  let revision: number | null = null;
+  let compliance: ComplianceReport | null = null;
+  let formatErrors: string[] = [];
+
+  async function step<T>(name: PipelineStepName, fn: () => Promise<T>, skipped?: () => boolean) {
+    const t0 = Date.now();
+    try {
+      const value = await fn();
+      steps.push({ name, status: skipped?.() ? 'skipped' : 'completed', durationMs: Date.now() - t0 });
+      return value;
+    } catch (err: any) {
+      steps.push({ name, status: 'failed', durationMs: Date.now() - t0, error: err?.message || String(err) });
+      throw Object.assign(err instanceof Error ? err : new Error(String(err)), { failedStep: name });
+    }
+  }
+
+  try {
+    const hydrated = await step('fetch-bundle', async () => {
+      const result: any = await runTool(airtableGetHydratedContentContext, { initiatorId, baseId });
+      if (!result?.ok) {
+        throw Object.assign(new Error(`Could not fetch bundle: ${toolError(result)}`), { status: result?.status });
+      }
+      if (result.failed.length > 0) {
+        throw new Error(`${result.failed.length} linked record(s) could not be fetched: ${
+          result.failed.map((f: any) => `${f.table} ${f.recordId}`).join(', ')}`);
+      }
+      const feedback = options.feedback ?? (db() ? await pendingFeedback(initiatorId) : []);
+      return { ...(result as { xml: string; bundle: ContentBundle; warnings: BundleWarning[] }), feedback };
+    });
+    const bundleHash = createHash('sha256').update(hydrated.xml).digest('hex');
+    warnings = hydrated.warnings;
+
+    generated = await step('generate', async () => {
+      const format = options.format ? getFormat(options.format) : resolveFormat(hydrated.bundle.outputType).format;
+      if (!format) throw Object.assign(new Error(`Unknown output format: ${options.format}`), { status: 400 });
+      try {
+        const result = await generateContent(agent, hydrated.bundle, hydrated.xml, format, hydrated.feedback, abortSignal);
+        usage = result.usage;
+        model = result.model;
+        return result.generated;
+      } catch (err: any) {
+        usage = err?.usage ?? null;
+        formatErrors = err?.formatErrors ?? [];
+        throw err;
+      }
+    });
+
+    await step('check-compliance', async () => {
+      compliance = await checkCompliance(generated!.content, hydrated.xml, { ...options.compliance, agent, abortSignal });
+      usage = addUsage(usage, compliance.usage);
+      if (!compliance.passed && (options.compliance?.onFail ?? COMPLIANCE.onFail) === 'block') {
+        throw new Error(`Compliance score ${compliance.score} is below ${compliance.minScore}; not saved`);
+      }
+    });
+    const needsRevision = compliance!.passed === false;
+
+    await step('save-revision', async () => {
+      if (!db()) return;
+      const saved = await createRevision({
+        initiatorId,
+        content: generated!.content,
+        title: generated!.title,
+        summary: generated!.summary,
+        model,
+        promptVersion: PROMPT_VERSION,
+        bundleHash,
+        format: generated!.format,
+        structured: generated!.structured,
+        author: options.author ?? null,
+        usage,
+        metadata: { warnings: warnings.length, compliance: compliance!.score, feedback: hydrated.feedback },
+      });
+      revision = saved.revision;
+    }, () => revision === null);
+
+    await step('write-back', async () => {
+      const result: any = await runTool(airtableUpdateContentOutput, {
+        baseId,
+        initiatorId,
+        output: generated!.content,
+        structured: generated!.structured as Record<string, unknown>,
+        status: needsRevision ? COMPLIANCE.needsRevisionStatus : options.status ?? 'Generated',
+        metadata: {
+          mode: 'pipeline',
+          revision,
+          model,
+          promptVersion: PROMPT_VERSION,
+          bundleHash,
+          format: generated!.format,
+          title: generated!.title,
+          summary: generated!.summary,
+          usage,
+          warnings: warnings.length,
+          compliance: { score: compliance!.score, passed: compliance!.passed, violations: compliance!.violations.length },
+          generatedAt: new Date().toISOString(),
+        },
+      });
+      if (!result?.ok) throw new Error(`Could not save output: ${toolError(result)}`);
+    });
+    if (revision !== null) {
+      await markRevisionInOutput(initiatorId, revision)
+        .catch(err => console.error(`[content] failed to mark revision ${revision} of ${initiatorId} as current:`, err.message));
+    }
+
+    return {
+      ok: true as const, initiatorId, ...generated, revision, model, needsRevision, compliance,
+      feedback: hydrated.feedback, warnings, usage, steps,
+    };
+  } catch (err: any) {
+    return {
+      ok: false as const,
+      initiatorId,
+      failedStep: err.failedStep as PipelineStepName,
+      error: err?.message || String(err),
+      status: typeof err.status === 'number' ? (err.status as number) : null,
+      // Generated but not written to Output: hand the content back so it isn't lost
+      content: generated?.content ?? null,
+      structured: generated?.structured ?? null,
+      formatErrors,
+      revision,
+      compliance: compliance as ComplianceReport | null,
+      warnings,
+      usage,
+      steps,
+    };
+  }
+}
+
+export type PipelineResult = Awaited<ReturnType<typeof runGenerationPipeline>>;
@@ -3,6 +3,20 @@ import cors from 'cors';
 import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
 import { contentAgent } from './mastra/agent.js';
+import { wantsEventStream, openEventStream, pipeAgentStream, abortOnClose } from '../../../core/shared/http/sse.js';
+import { registerWithGateway } from '../../../core/shared/http/register.js';
+import { openThread, saveTurn, collectToolCalls, threadsRouter, userIdOf } from '../../../core/shared/http/threads.js';
+import { purgeAirtableCache } from '../../../core/shared/tools/airtable-cache.js';
+import { db, UUID_RE } from '../../../core/shared/db/postgres.js';
+import { findExecutionByMetadata } from '../../../core/shared/db/workflows.js';
+import { runGenerationPipeline } from './generate.js';
+import { OUTPUT_FORMATS, getFormat } from './formats.js';
+import { checkCompliance, complianceOptions } from './compliance.js';
+import { airtableGetHydratedContentContext } from '../../../core/shared/tools/airtable-xml.js';
+import { runTool } from '../../../core/shared/tools/run.js';
+import { revisionsRouter } from './revisions.js';
+import { reviewsRouter } from './review.js';
+import { batchInput, batchReport, cancelBatch, getBatch, listBatches, startBatch, type GenerateFn } from './batch.js';
 
 const app = express();
 const PORT = Number(process.env.PORT || 3104);
@@ -39,18 +53,52 @@ app.post('/chat', async (req, res) => {
       });
     }
 
+    // Optional persistent thread: prior turns are loaded from agent_memory
+    const opened = await openThread(req, 'content');
+    if (!opened.ok) return res.status(opened.status).json({ error: opened.error });
+    const threadId = opened.thread?.id ?? null;
+    const conversation = [...opened.history, ...messages];
+
     const agent = mastra.getAgent('contentAgent');
-    const result = await agent.generate(messages);
+
+    // Streaming mode: forward text deltas + tool events as SSE
+    if (wantsEventStream(req)) {
+      // A closed tab stops the model and tools instead of running them to the end
+      const abortSignal = abortOnClose(res);
+      const stream = await agent.stream(conversation, { abortSignal });
+      openEventStream(res);
+      const { text, toolCalls, usage, error, aborted } = await pipeAgentStream(res, stream, { agent: 'content', threadId });
+      if (aborted) console.warn('[content] /chat stream: client disconnected, run aborted');
+      else if (error) console.error('[content] /chat stream error:', error);
+      else if (threadId) {
+        await saveTurn(threadId, messages, { text, toolCalls, usage })
+          .catch(err => console.error('[content] failed to save thread turn:', err));
+      }
+      return;
+    }
+
+    const result = await agent.generate(conversation);
+
+    if (threadId) {
+      await saveTurn(threadId, messages, {
+        text: result.text,
+        toolCalls: collectToolCalls(result.toolCalls as any, result.toolResults as any),
+        usage: result.totalUsage,
+      });
+    }
 
     return res.json({
       response: result.text,
+      threadId,
       metadata: {
         agent: 'content',
+        usage: result.totalUsage,
         timestamp: new Date().toISOString(),
       },
     });
   } catch (error) {
     console.error('[content] /chat error:', error);
+    if (res.headersSent) return res.end();
     return res.status(500).json({
       error: 'Failed to process chat request',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -58,7 +106,7 @@ app.post('/chat', async (req, res) => {
   }
 });
 
-// Direct content generation endpoint (guides the LLM to the single hydrated tool)
+// Direct content generation: server-side pipeline (fetch bundle → generate → compliance → revision → write back)
 app.post('/generate', async (req, res) => {
   try {
     const { initiatorId, baseId } = req.body ?? {};
@@ -66,28 +114,58 @@ app.post('/generate', async (req, res) => {
     if (typeof initiatorId !== 'string' || initiatorId.trim() === '') {
       return res.status(400).json({ error: 'Missing required field: initiatorId (string)' });
     }
+    const compliance = complianceOptions.optional().safeParse(req.body?.compliance);
+    if (!compliance.success) {
+      return res.status(400).json({ error: 'Invalid compliance options', details: compliance.error.flatten().fieldErrors });
+    }
+    const format = req.body?.format;
+    if (format !== undefined && (typeof format !== 'string' || !getFormat(format))) {
+      return res.status(400).json({ error: 'Unknown output format', details: { format, known: OUTPUT_FORMATS.map(f => f.id) } });
+    }
 
-    const agent = mastra.getAgent('contentAgent');
-
-    // Updated instructions: use the HYDRATED tool, not the old bundle fetcher
-    const prompt = `Generate content for Content Initiator: ${initiatorId}${
-      baseId ? ` in base ${baseId}` : ''
-    }.
-
-Follow these steps carefully:
-1) Call **airtableGetHydratedContentContext** with { initiatorId${baseId ? ', baseId' : ''} } to fetch the FULLY HYDRATED XML bundle (initiator + linked Personas/Domains/Entities/References with embedded XML).
-2) Parse the XML to extract the goal, contentType, outputType, persona voice/style, and domain constraints.
-3) Generate the content to exactly match the persona voice and domain rules.
-4) Save the generated content back with **airtableUpdateContentOutput** { initiatorId, output, status: "Generated" }.
-5) Return a one-paragraph summary of what was generated (not the full content).`;
+    const result = await runGenerationPipeline(mastra.getAgent('contentAgent'), initiatorId, {
+      baseId,
+      author: userIdOf(req),
+      compliance: compliance.data,
+      format,
+    });
 
-    const result = await agent.generate([{ role: 'user', content: prompt }]);
+    if (!result.ok) {
+      console.error(`[content] /generate ${initiatorId} failed at ${result.failedStep}:`, result.error);
+      // 422: generated, but not in the output format or blocked by the compliance gate
+      const rejected = result.failedStep === 'check-compliance' || result.formatErrors.length > 0;
+      const status = result.status === 404 ? 404 : rejected ? 422 : 500;
+      return res.status(status).json({
+        error: 'Failed to generate content',
+        message: `${result.failedStep}: ${result.error}`,
+        failedStep: result.failedStep,
+        content: result.content,
+        structured: result.structured,
+        formatErrors: result.formatErrors,
+        revision: result.revision,
+        compliance: result.compliance,
+        steps: result.steps,
+        metadata: { agent: 'content', initiatorId, usage: result.usage, timestamp: new Date().toISOString() },
+      });
+    }
 
     return res.json({
-      response: result.text,
+      response: result.content,
+      title: result.title,
+      summary: result.summary,
+      format: result.format,
+      structured: result.structured,
+      revision: result.revision,
+      needsRevision: result.needsRevision,
+      compliance: result.compliance,
+      warnings: result.warnings,
+      steps: result.steps,
       metadata: {
         agent: 'content',
         initiatorId,
+        mode: 'pipeline',
+        model: result.model,
+        usage: result.usage,
         timestamp: new Date().toISOString(),
       },
     });
@@ -100,10 +178,140 @@ Follow these steps carefully:
   }
 });
 
+// Output format catalog: what /generate validates and renders per Output Type
+app.get('/formats', (_req, res) => {
+  res.json({
+    formats: OUTPUT_FORMATS.map(f => ({ id: f.id, label: f.label, aliases: f.aliases, guidance: f.guidance, example: f.example })),
+    fallback: 'text',
+  });
+});
+
+// Compliance check of a draft against an initiator's bundle (or bundle XML passed in)
+app.post('/check', async (req, res) => {
+  const { draft, initiatorId, bundleXml, baseId } = req.body ?? {};
+  if (typeof draft !== 'string' || draft.trim() === '' || (typeof initiatorId !== 'string' && typeof bundleXml !== 'string')) {
+    return res.status(400).json({
+      error: 'Invalid request: expected { draft, initiatorId | bundleXml, judge?, minScore? }',
+      example: { draft: '...', initiatorId: 'recXXXXXXXXXXXXXX', judge: true },
+    });
+  }
+  const options = complianceOptions.safeParse({ judge: req.body.judge, minScore: req.body.minScore });
+  if (!options.success) {
+    return res.status(400).json({ error: 'Invalid compliance options', details: options.error.flatten().fieldErrors });
+  }
+
+  try {
+    let xml: string = bundleXml;
+    if (typeof bundleXml !== 'string') {
+      const bundle: any = await runTool(airtableGetHydratedContentContext, { initiatorId, baseId });
+      if (!bundle?.ok) {
+        return res.status(bundle?.status === 404 ? 404 : 502).json({
+          error: 'Failed to fetch bundle',
+          message: bundle?.reason || bundle?.error || 'unknown error',
+        });
+      }
+      xml = bundle.xml;
+    }
+    const report = await checkCompliance(draft, xml, { ...options.data, agent: mastra.getAgent('contentAgent') });
+    return res.json({ initiatorId: initiatorId ?? null, ...report });
+  } catch (error) {
+    console.error('[content] /check error:', error);
+    return res.status(500).json({
+      error: 'Failed to check compliance',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Batch generation: every initiator matching a view/formula (default {Status} = "Queued")
+const generate: GenerateFn = (initiatorId, options) =>
+  runGenerationPipeline(mastra.getAgent('contentAgent'), initiatorId, options);
+
+app.post('/generate-batch', async (req, res) => {
+  const parsed = batchInput.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid request: expected { view?, formula?, maxRecords?, concurrency?, baseId? }',
+      details: parsed.error.flatten().fieldErrors,
+      example: { formula: '{Status} = "Queued"', concurrency: 3 },
+    });
+  }
+  try {
+    const batch = await startBatch(parsed.data, generate);
+    return res.status(202).json(batchReport(batch));
+  } catch (error: any) {
+    console.error('[content] /generate-batch error:', error);
+    return res.status(error?.badRequest ? 400 : 500).json({
+      error: 'Failed to start batch',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.get('/batches', (_req, res) => {
+  res.json({ batches: listBatches() });
+});
+
+app.get('/batches/:id', async (req, res) => {
+  const batch = getBatch(req.params.id);
+  if (batch) return res.json(batchReport(batch));
+  // Finished batches from before a restart are only in workflow_state
+  if (!db() || !UUID_RE.test(req.params.id)) return res.status(404).json({ error: 'Batch not found' });
+  try {
+    const execution = await findExecutionByMetadata('batchId', req.params.id);
+    if (!execution || execution.metadata?.kind !== 'content-batch') return res.status(404).json({ error: 'Batch not found' });
+    return res.json({ batchId: req.params.id, ...execution });
+  } catch (error) {
+    console.error('[content] /batches error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch batch',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.post('/batches/:id/cancel', (req, res) => {
+  const batch = getBatch(req.params.id);
+  if (!batch) return res.status(404).json({ error: 'Batch not found' });
+  if (!cancelBatch(batch)) return res.status(409).json({ error: `Batch already ${batch.status}`, ...batchReport(batch) });
+  return res.status(202).json(batchReport(batch));
+});
+
+// Drop cached bundles/records (e.g. from an Airtable automation when a Persona changes)
+app.post('/purge-cache', async (req, res) => {
+  const { recordIds, all } = req.body ?? {};
+  const ids = Array.isArray(recordIds) ? recordIds.filter((id: unknown): id is string => typeof id === 'string' && id !== '') : [];
+  if (all !== true && ids.length === 0) {
+    return res.status(400).json({ error: 'Expected { recordIds: string[] } or { all: true }' });
+  }
+  try {
+    const purged = await purgeAirtableCache(all === true ? { all: true } : { recordIds: ids });
+    return res.json({ ok: true, purged });
+  } catch (error) {
+    console.error('[content] /purge-cache error:', error);
+    return res.status(500).json({
+      error: 'Failed to purge cache',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Conversation threads
+app.use('/threads', threadsRouter('content'));
+
+// Revision history of generated content (list, diff, promote back to Output)
+app.use('/revisions', revisionsRouter());
+
+// Human review: approve, reject, regenerate with feedback, repurpose approved content (audited)
+app.use('/reviews', reviewsRouter(generate));
+
 // Start server
 app.listen(PORT, () => {
   console.log(`✍️  Content Agent running on port ${PORT}`);
   console.log(`📊 Health: http://localhost:${PORT}/health`);
   console.log(`💬 Chat:   http://localhost:${PORT}/chat`);
   console.log(`🎨 Generate: http://localhost:${PORT}/generate`);
+  console.log(`📦 Batch:    http://localhost:${PORT}/generate-batch`);
+
+  registerWithGateway({ name: 'content', port: PORT, capabilities: ['content-generation', 'airtable'], routes: ['chat', 'generate', 'generate-batch', 'check', 'purge-cache'] });
 });
@@ -1,11 +1,72 @@
 import { Agent } from '@mastra/core';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
 import { openai } from '@ai-sdk/openai';
 import {
   airtableGetHydratedContentContext,
   airtableCreateContentRequest,
   airtableUpdateContentOutput,
 } from '../../../../core/shared/tools/airtable-xml.js';
-import { n8nTrigger } from '../../../../core/shared/tools/n8n.js';
+import { db } from '../../../../core/shared/db/postgres.js';
+import { createRevision, markRevisionInOutput } from '../../../../core/shared/db/revisions.js';
+import { runTool, toolError } from '../../../../core/shared/tools/run.js';
+
+const CHAT_MODEL = 'gpt-4o';
+
+// Output writes from /chat go through content.revisions like the /generate pipeline,
+// so Output is never overwritten unrecorded (the revision is skipped without Postgres)
+const saveContentOutput = createTool({
+  id: 'content.saveOutput',
+  description: 'Save generated content to the Content Initiator Output field. Records it as the next content revision first.',
+  inputSchema: z.object({
+    baseId: z.string().optional().describe('Airtable Base ID (defaults to env)'),
+    initiatorId: z.string().describe('Content Initiator record ID'),
+    output: z.string().describe('Generated content'),
+    status: z.string().optional().describe('Status (e.g., "Generated")'),
+    title: z.string().optional(),
+    summary: z.string().optional(),
+  }),
+  execute: async ({ context }) => {
+    let revision: number | null = null;
+    if (db()) {
+      try {
+        const saved = await createRevision({
+          initiatorId: context.initiatorId,
+          content: context.output,
+          title: context.title ?? null,
+          summary: context.summary ?? null,
+          model: CHAT_MODEL,
+          author: 'chat',
+          metadata: { mode: 'chat' },
+        });
+        revision = saved.revision;
+      } catch (error: any) {
+        return { ok: false, error: `Could not record revision (Output left unchanged): ${error?.message ?? error}` };
+      }
+    }
+
+    const result: any = await runTool(airtableUpdateContentOutput, {
+      baseId: context.baseId,
+      initiatorId: context.initiatorId,
+      output: context.output,
+      status: context.status,
+      metadata: {
+        mode: 'chat',
+        revision,
+        model: CHAT_MODEL,
+        title: context.title,
+        summary: context.summary,
+        generatedAt: new Date().toISOString(),
+      },
+    });
+    if (!result?.ok) return { ok: false, revision, error: `Could not save output: ${toolError(result)}` };
+    if (revision !== null) {
+      await markRevisionInOutput(context.initiatorId, revision)
+        .catch(err => console.error(`[content] failed to mark revision ${revision} of ${context.initiatorId} as current:`, err.message));
+    }
+    return { ok: true, initiatorId: context.initiatorId, revision };
+  },
+});
 
 export const contentAgent = new Agent({
   name: 'content-agent',
@@ -22,8 +83,8 @@ You consume XML bundles from Airtable that contain:
 1. **Fetch Context**: Use airtableGetHydratedContentContext to retrieve the FULLY HYDRATED XML bundle for a Content Initiator (includes all linked Persona, Domain, Entity, and Reference XML in one call)
 2. **Parse Constraints**: Extract persona voice, domain expertise, and content requirements from the XML
 3. **Generate Content**: Create content that precisely matches the persona's voice and domain's constraints
-4. **Write Back**: Use airtableUpdateContentOutput to save the generated content
-5. **Trigger Repurposer**: Optionally use n8nTrigger to start multi-format distribution
+4. **Write Back**: Use saveContentOutput to save the generated content (it is recorded as a new revision before Output is written)
+5. **Hand Off for Review**: Generated content is reviewed by a person before it goes anywhere. You cannot trigger the repurposer; approved content is sent to it from the review endpoints
 
 ## Quality Standards
 - **Voice Accuracy**: Match persona tone, vocabulary, and style exactly
@@ -39,12 +100,13 @@ The hydrated bundle contains EMBEDDED XML content (not just IDs):
 - <entities>: Full entity XML with related people, companies, concepts
 - <references>: Full reference XML with source materials and citations
 
-The airtableGetHydratedContentContext tool fetches ALL linked resources in one deterministic call, so you don't need to make multiple tool calls. Just parse the returned XML bundle which contains everything you need.`,
-  model: openai('gpt-4o'),
+The airtableGetHydratedContentContext tool fetches ALL linked resources in one deterministic call, so you don't need to make multiple tool calls. Just parse the returned XML bundle which contains everything you need.
+
+The tool also returns \`bundle\` (goal, voiceRules, constraints as JSON) and \`warnings\`. A warning means a linked Persona/Domain/Entity/Reference had malformed XML and was left out; mention it in your reply so the record can be fixed.`,
+  model: openai(CHAT_MODEL),
   tools: {
     airtableGetHydratedContentContext,
     airtableCreateContentRequest,
-    airtableUpdateContentOutput,
-    n8nTrigger,
+    saveContentOutput,
   },
 });
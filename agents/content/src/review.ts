@@ -0,0 +1,265 @@
+import { Router, type Request, type Response } from 'express';
+import { db } from '../../../core/shared/db/postgres.js';
+import { getRevision, listRevisions } from '../../../core/shared/db/revisions.js';
+import { listReviews, pendingFeedback, recordReview, type ReviewAction } from '../../../core/shared/db/reviews.js';
+import { userIdOf } from '../../../core/shared/http/threads.js';
+import { airtableGetContentStatus, airtableSetContentStatus } from '../../../core/shared/tools/airtable-xml.js';
+import { n8nTrigger } from '../../../core/shared/tools/n8n.js';
+import { runTool, toolError } from '../../../core/shared/tools/run.js';
+import { STATUS, type GenerateFn } from './batch.js';
+import { COMPLIANCE } from './compliance.js';
+
+/**
+ * Human review routes (mounted at /reviews)
+ *
+ *   GET  /:initiatorId              Status, current revision, pending feedback, audit trail
+ *   POST /:initiatorId/approve      { comment?, revision? }   Generated | Needs Revision → Approved
+ *   POST /:initiatorId/reject       { comment }               Generated | Needs Revision | Approved → Rejected
+ *   POST /:initiatorId/regenerate   { feedback, format? }     Generated | Needs Revision | Rejected → pipeline
+ *   POST /:initiatorId/repurpose    { scenario?, payload? }   Approved only → n8n repurposer
+ *
+ * Every action needs a reviewer, taken only from the X-User-Id header the
+ * gateway sets from the API key's user (401 without it), and is recorded
+ * in content.reviews with the revision and the Status before and after.
+ * Reject and regenerate comments are fed into the next generation. Repurpose
+ * also requires the current revision to be the one that was approved, so a
+ * promotion after approval needs a fresh review.
+ */
+
+export const REVIEW_STATUS = {
+  approved: process.env.REVIEW_STATUS_APPROVED || 'Approved',
+  rejected: process.env.REVIEW_STATUS_REJECTED || 'Rejected',
+};
+
+const REPURPOSER_SCENARIO = process.env.N8N_REPURPOSER_SCENARIO || 'repurposer';
+
+/** Statuses each action may start from */
+const ALLOWED_FROM: Record<ReviewAction, string[]> = {
+  approve: [STATUS.generated, COMPLIANCE.needsRevisionStatus],
+  reject: [STATUS.generated, COMPLIANCE.needsRevisionStatus, REVIEW_STATUS.approved],
+  regenerate: [STATUS.generated, COMPLIANCE.needsRevisionStatus, REVIEW_STATUS.rejected],
+  repurpose: [REVIEW_STATUS.approved],
+};
+
+function text(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+async function currentRevision(initiatorId: string) {
+  const current = (await listRevisions(initiatorId)).find(r => r.current);
+  return current ? (current.revision as number) : null;
+}
+
+/**
+ * Reviewer and current Status, checked against the action's allowed
+ * statuses. Responds (and returns null) when the action can't go ahead.
+ */
+async function precheck(req: Request, res: Response, action: ReviewAction) {
+  const reviewer = userIdOf(req);
+  if (!reviewer) {
+    res.status(401).json({ error: 'Reviewer required: call through the gateway with an API key that has a user_id' });
+    return null;
+  }
+  const { initiatorId } = req.params;
+  const result: any = await runTool(airtableGetContentStatus, { baseId: req.body?.baseId, initiatorId });
+  if (!result?.ok) {
+    const status = result?.status === 404 ? 404 : result?.skipped ? 503 : 502;
+    res.status(status).json({ error: 'Could not read Status', message: toolError(result) });
+    return null;
+  }
+  const from = result.status as string | null;
+  if (!from || !ALLOWED_FROM[action].includes(from)) {
+    res.status(409).json({
+      error: `Cannot ${action} content with Status "${from ?? '(empty)'}"`,
+      details: { status: from, allowed: ALLOWED_FROM[action] },
+    });
+    return null;
+  }
+  return { reviewer, initiatorId, from };
+}
+
+/** Set Status, then record the review; the Status is put back if recording fails */
+async function transition(
+  req: Request,
+  check: { reviewer: string; initiatorId: string; from: string },
+  action: ReviewAction,
+  to: string,
+  revision: number | null,
+  comment: string | null,
+) {
+  const { reviewer, initiatorId, from } = check;
+  const baseId = req.body?.baseId;
+  const set: any = await runTool(airtableSetContentStatus, { baseId, initiatorId, status: to });
+  if (!set?.ok) throw new Error(`Could not set Status to "${to}": ${toolError(set)}`);
+  try {
+    return await recordReview({ initiatorId, revision, action, reviewer, comment, fromStatus: from, toStatus: to });
+  } catch (err) {
+    await runTool(airtableSetContentStatus, { baseId, initiatorId, status: from }).catch(() => {});
+    throw err;
+  }
+}
+
+function failed(res: Response, what: string, error: unknown) {
+  console.error(`[content] ${what} error:`, error);
+  res.status(500).json({ error: `Failed to ${what}`, message: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+export function reviewsRouter(generate: GenerateFn) {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    if (!db()) return res.status(501).json({ error: 'Review audit trail not configured (set DATABASE_URL)' });
+    next();
+  });
+
+  router.get('/:initiatorId', async (req, res) => {
+    const { initiatorId } = req.params;
+    try {
+      const [status, revision, feedback, reviews]: [any, number | null, string[], any[]] = await Promise.all([
+        runTool(airtableGetContentStatus, { baseId: req.query.baseId as string | undefined, initiatorId }),
+        currentRevision(initiatorId),
+        pendingFeedback(initiatorId),
+        listReviews(initiatorId),
+      ]);
+      res.json({
+        initiatorId,
+        status: status?.ok ? status.status : null,
+        revision,
+        pendingFeedback: feedback,
+        reviews,
+      });
+    } catch (error) {
+      failed(res, 'list reviews', error);
+    }
+  });
+
+  router.post('/:initiatorId/approve', async (req, res) => {
+    try {
+      const check = await precheck(req, res, 'approve');
+      if (!check) return;
+      const revision = await currentRevision(check.initiatorId);
+      if (req.body?.revision !== undefined && req.body.revision !== revision) {
+        return res.status(409).json({
+          error: `Revision ${req.body.revision} is not in Output; promote it before approving`,
+          details: { current: revision },
+        });
+      }
+      const review = await transition(req, check, 'approve', REVIEW_STATUS.approved, revision, text(req.body?.comment));
+      res.json({ ok: true, initiatorId: check.initiatorId, status: REVIEW_STATUS.approved, review });
+    } catch (error) {
+      failed(res, 'approve content', error);
+    }
+  });
+
+  router.post('/:initiatorId/reject', async (req, res) => {
+    const comment = text(req.body?.comment);
+    if (!comment) return res.status(400).json({ error: 'Missing required field: comment (what needs to change)' });
+    try {
+      const check = await precheck(req, res, 'reject');
+      if (!check) return;
+      const revision = await currentRevision(check.initiatorId);
+      const review = await transition(req, check, 'reject', REVIEW_STATUS.rejected, revision, comment);
+      res.json({ ok: true, initiatorId: check.initiatorId, status: REVIEW_STATUS.rejected, review });
+    } catch (error) {
+      failed(res, 'reject content', error);
+    }
+  });
+
+  router.post('/:initiatorId/regenerate', async (req, res) => {
+    const feedback = text(req.body?.feedback);
+    if (!feedback) return res.status(400).json({ error: 'Missing required field: feedback' });
+    try {
+      const check = await precheck(req, res, 'regenerate');
+      if (!check) return;
+      // Recorded first, so the pipeline picks it up as pending feedback (and it stays pending if generation fails)
+      const review = await recordReview({
+        initiatorId: check.initiatorId,
+        revision: await currentRevision(check.initiatorId),
+        action: 'regenerate',
+        reviewer: check.reviewer,
+        comment: feedback,
+        fromStatus: check.from,
+      });
+      const result = await generate(check.initiatorId, {
+        baseId: req.body?.baseId,
+        author: check.reviewer,
+        format: text(req.body?.format) ?? undefined,
+      });
+      if (!result.ok) {
+        console.error(`[content] regenerate ${check.initiatorId} failed at ${result.failedStep}:`, result.error);
+        const status = result.failedStep === 'check-compliance' || result.formatErrors.length > 0 ? 422 : 500;
+        return res.status(status).json({
+          error: 'Failed to regenerate content',
+          message: `${result.failedStep}: ${result.error}`,
+          failedStep: result.failedStep,
+          review,
+          content: result.content,
+          steps: result.steps,
+        });
+      }
+      res.json({
+        ok: true,
+        initiatorId: check.initiatorId,
+        review,
+        response: result.content,
+        revision: result.revision,
+        needsRevision: result.needsRevision,
+        feedback: result.feedback,
+        compliance: result.compliance,
+        steps: result.steps,
+      });
+    } catch (error) {
+      failed(res, 'regenerate content', error);
+    }
+  });
+
+  router.post('/:initiatorId/repurpose', async (req, res) => {
+    try {
+      const check = await precheck(req, res, 'repurpose');
+      if (!check) return;
+      const { initiatorId } = check;
+      const revision = await currentRevision(initiatorId);
+      const approval = (await listReviews(initiatorId)).find(r => r.action === 'approve');
+      if (revision === null || approval?.revision !== revision) {
+        return res.status(409).json({
+          error: `Current revision ${revision ?? '(none)'} was not approved; approve it before repurposing`,
+          details: { current: revision, approved: approval?.revision ?? null },
+        });
+      }
+
+      const row = await getRevision(initiatorId, revision);
+      const scenario = text(req.body?.scenario) ?? REPURPOSER_SCENARIO;
+      const triggered: any = await runTool(n8nTrigger, {
+        scenario,
+        payload: {
+          ...req.body?.payload,
+          initiatorId,
+          revision,
+          title: row?.title ?? null,
+          format: row?.format ?? null,
+          content: row?.content ?? null,
+          structured: row?.structured ?? null,
+          approvedBy: approval.reviewer,
+          approvedAt: approval.created_at,
+        },
+      });
+      if (!triggered?.ok) {
+        return res.status(triggered?.skipped ? 503 : 502).json({ error: 'Failed to trigger repurposer', message: toolError(triggered) });
+      }
+      const review = await recordReview({
+        initiatorId,
+        revision,
+        action: 'repurpose',
+        reviewer: check.reviewer,
+        fromStatus: check.from,
+        toStatus: check.from,
+        metadata: { scenario },
+      });
+      res.json({ ok: true, initiatorId, revision, scenario, review, data: triggered.data });
+    } catch (error) {
+      failed(res, 'repurpose content', error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { db } from '../../../core/shared/db/postgres.js';
+import { getRevision, listRevisions, markRevisionInOutput } from '../../../core/shared/db/revisions.js';
+import { userIdOf } from '../../../core/shared/http/threads.js';
+import { airtableUpdateContentOutput } from '../../../core/shared/tools/airtable-xml.js';
+import { runTool } from '../../../core/shared/tools/run.js';
+import { diffLines } from './diff.js';
+
+/**
+ * Revision routes (mounted at /revisions)
+ *
+ *   GET  /:initiatorId                       revisions, newest first (no content)
+ *   GET  /:initiatorId/diff?from=1&to=2      line diff (to defaults to the current revision)
+ *   GET  /:initiatorId/:revision             one revision with content
+ *   POST /:initiatorId/:revision/promote     write an older revision back to Output
+ */
+
+function revisionNumber(value: unknown) {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+export function revisionsRouter() {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    if (!db()) return res.status(501).json({ error: 'Revision storage not configured (set DATABASE_URL)' });
+    next();
+  });
+
+  router.get('/:initiatorId', async (req, res) => {
+    try {
+      const revisions = await listRevisions(req.params.initiatorId);
+      res.json({ initiatorId: req.params.initiatorId, revisions });
+    } catch (error) {
+      console.error('[content] list revisions error:', error);
+      res.status(500).json({ error: 'Failed to list revisions', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:initiatorId/diff', async (req, res) => {
+    const { initiatorId } = req.params;
+    const from = revisionNumber(req.query.from);
+    let to = req.query.to === undefined ? null : revisionNumber(req.query.to);
+    if (from === null || (req.query.to !== undefined && to === null)) {
+      return res.status(400).json({ error: 'Expected ?from=<revision>&to=<revision> (positive integers; to defaults to the current revision)' });
+    }
+    try {
+      if (to === null) {
+        const current = (await listRevisions(initiatorId)).find(r => r.current);
+        if (!current) return res.status(404).json({ error: 'No current revision; pass ?to=<revision>' });
+        to = current.revision as number;
+      }
+      const [a, b] = await Promise.all([getRevision(initiatorId, from), getRevision(initiatorId, to)]);
+      if (!a || !b) return res.status(404).json({ error: `Revision not found: ${!a ? from : to}` });
+      const diff = diffLines(a.content, b.content, { from: `revision ${from}`, to: `revision ${to}` });
+      res.json({ initiatorId, from, to, ...diff });
+    } catch (error) {
+      console.error('[content] diff revisions error:', error);
+      res.status(500).json({ error: 'Failed to diff revisions', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:initiatorId/:revision', async (req, res) => {
+    const revision = revisionNumber(req.params.revision);
+    if (revision === null) return res.status(400).json({ error: 'revision must be a positive integer' });
+    try {
+      const row = await getRevision(req.params.initiatorId, revision);
+      if (!row) return res.status(404).json({ error: `Revision not found: ${revision}` });
+      res.json(row);
+    } catch (error) {
+      console.error('[content] get revision error:', error);
+      res.status(500).json({ error: 'Failed to fetch revision', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/:initiatorId/:revision/promote', async (req, res) => {
+    const { initiatorId } = req.params;
+    const revision = revisionNumber(req.params.revision);
+    if (revision === null) return res.status(400).json({ error: 'revision must be a positive integer' });
+    try {
+      const row = await getRevision(initiatorId, revision);
+      if (!row) return res.status(404).json({ error: `Revision not found: ${revision}` });
+
+      // Output only; Status is left as it is
+      const result: any = await runTool(airtableUpdateContentOutput, {
+        baseId: req.body?.baseId,
+        initiatorId,
+        output: row.content,
+        structured: row.structured ?? undefined,
+        metadata: {
+          mode: 'promoted',
+          revision,
+          model: row.model,
+          promptVersion: row.prompt_version,
+          bundleHash: row.bundle_hash,
+          format: row.format,
+          title: row.title,
+          summary: row.summary,
+          promotedBy: userIdOf(req),
+          promotedAt: new Date().toISOString(),
+        },
+      });
+      if (!result?.ok) {
+        return res.status(result?.skipped ? 503 : 502).json({
+          error: 'Failed to write revision to Output',
+          message: result?.reason || result?.error || 'unknown error',
+        });
+      }
+
+      await markRevisionInOutput(initiatorId, revision);
+      res.json({ ok: true, initiatorId, revision, promoted: true });
+    } catch (error) {
+      console.error('[content] promote revision error:', error);
+      res.status(500).json({ error: 'Failed to promote revision', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,78 @@
+import express from 'express';
+import cors from 'cors';
+import { coordinateInput, runResearchToContent } from './workflow.js';
+import { registerWithGateway } from '../../../core/shared/http/register.js';
+import { getExecution } from '../../../core/shared/db/workflows.js';
+import { db, UUID_RE } from '../../../core/shared/db/postgres.js';
+
+const app = express();
+const PORT = Number(process.env.PORT || 3105);
+
+// Middleware
+app.use(cors());
+app.use(express.json());
+
+// Health check
+app.get('/health', (_req, res) => {
+  res.json({
+    status: 'healthy',
+    agent: 'coordinator',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Research → Content Initiator → References → content generation
+app.post('/coordinate', async (req, res) => {
+  const parsed = coordinateInput.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid request: expected { goal, contentType?, outputType?, personaSlugs?, domainSlugs?, baseId? }',
+      details: parsed.error.flatten().fieldErrors,
+      example: { goal: 'Explain NP full practice authority to new grads', contentType: 'blog', personaSlugs: ['nurse-educator'] },
+    });
+  }
+
+  try {
+    const { usage, ...result } = await runResearchToContent(parsed.data);
+    return res.status(result.status === 'completed' ? 200 : 500).json({
+      ...result,
+      metadata: {
+        agent: 'coordinator',
+        usage,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('[coordinator] /coordinate error:', error);
+    return res.status(500).json({
+      error: 'Failed to run workflow',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Status of a recorded run (steps, per-agent durations)
+app.get('/workflows/:id', async (req, res) => {
+  if (!db()) return res.status(501).json({ error: 'Workflow storage not configured (set DATABASE_URL)' });
+  if (!UUID_RE.test(req.params.id)) return res.status(404).json({ error: 'Workflow not found' });
+  try {
+    const execution = await getExecution(req.params.id);
+    if (!execution || execution.metadata?.kind !== 'coordinator') return res.status(404).json({ error: 'Workflow not found' });
+    return res.json(execution);
+  } catch (error) {
+    console.error('[coordinator] /workflows error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch workflow',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Start server
+app.listen(PORT, () => {
+  console.log(`🧭 Coordinator Agent running on port ${PORT}`);
+  console.log(`📊 Health:     http://localhost:${PORT}/health`);
+  console.log(`🔗 Coordinate: http://localhost:${PORT}/coordinate`);
+
+  registerWithGateway({ name: 'coordinator', port: PORT, capabilities: ['orchestration', 'research', 'content-generation'], routes: ['coordinate'] });
+});
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import {
+  airtableCreateContentRequest,
+  airtableCreateReferences,
+} from '../../../core/shared/tools/airtable-xml.js';
+import { runTool, toolError } from '../../../core/shared/tools/run.js';
+import { parseJsonBlock } from '../../../core/shared/tools/json-block.js';
+import { startExecution, startStep, finishStep, finishExecution, type StepPlan } from '../../../core/shared/db/workflows.js';
+
+/**
+ * Research → Content workflow
+ *
+ * 1. research            research agent /chat → evidence pack (summary + findings)
+ * 2. create-initiator    airtableCreateContentRequest → Content Initiator
+ * 3. attach-references   findings → Reference records linked to the initiator
+ * 4. generate-content    content agent /generate for the new initiator
+ *
+ * Steps run in order and stop at the first failure. Each is tracked in
+ * workflow_state.steps (when Postgres is configured) with its agent and
+ * duration, and reported in the response.
+ */
+
+const WORKFLOW_NAME = 'coordinator:research-to-content';
+const AGENT_TIMEOUT_MS = Number(process.env.COORDINATOR_AGENT_TIMEOUT_MS || 10 * 60_000);
+
+const AGENT_URLS = {
+  research: process.env.AGENT_RESEARCH_URL || 'http://agentbox-research:3001',
+  content: process.env.AGENT_CONTENT_URL || 'http://agentbox-content:3104',
+};
+
+const PLAN: StepPlan[] = [
+  { name: 'research', agent: 'research' },
+  { name: 'create-initiator', agent: 'coordinator' },
+  { name: 'attach-references', agent: 'coordinator' },
+  { name: 'generate-content', agent: 'content' },
+];
+
+export const coordinateInput = z.object({
+  goal: z.string().min(1),
+  contentType: z.string().optional(),
+  outputType: z.string().optional(),
+  personaSlugs: z.array(z.string()).optional(),
+  domainSlugs: z.array(z.string()).optional(),
+  baseId: z.string().optional(),
+  researchPrompt: z.string().optional().describe('Extra research instructions appended to the goal'),
+});
+
+export type CoordinateInput = z.infer<typeof coordinateInput>;
+
+const evidencePack = z.object({
+  summary: z.string().default(''),
+  findings: z.array(z.object({
+    claim: z.string(),
+    evidence: z.string().optional(),
+    source: z.string(),
+    confidence: z.enum(['high', 'medium', 'low']).catch('medium'),
+  })).default([]),
+});
+
+export interface StepReport {
+  step: number;
+  name: string;
+  agent: string;
+  status: 'completed' | 'failed' | 'skipped';
+  durationMs: number;
+  output?: unknown;
+  error?: string;
+}
+
+type Usage = { inputTokens: number; outputTokens: number; totalTokens: number };
+
+function addUsage(total: Usage, usage: any) {
+  total.inputTokens += usage?.inputTokens ?? 0;
+  total.outputTokens += usage?.outputTokens ?? 0;
+  total.totalTokens += usage?.totalTokens ?? 0;
+}
+
+async function callAgent(agent: keyof typeof AGENT_URLS, route: string, body: unknown) {
+  const r = await fetch(`${AGENT_URLS[agent]}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(AGENT_TIMEOUT_MS),
+  });
+  const data: any = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(`${agent} agent returned ${r.status}: ${data?.message || data?.error || 'no details'}`);
+  return data;
+}
+
+function researchPrompt(input: CoordinateInput) {
+  return `Research the following content goal and build an evidence pack for the writer.
+
+GOAL: ${input.goal}
+${input.researchPrompt ? `\nNOTES: ${input.researchPrompt}\n` : ''}
+Give a short executive summary, then end your answer with the evidence pack as a JSON code block in exactly this shape:
+\`\`\`json
+{ "summary": "2-3 sentences", "findings": [{ "claim": "...", "evidence": "quote or data point", "source": "URL or citation", "confidence": "high|medium|low" }] }
+\`\`\``;
+}
+
+/** Pull the last ```json block out of the research answer; falls back to the text as the summary */
+export function parseEvidencePack(text: string) {
+  return parseJsonBlock(text, evidencePack) ?? { summary: text.trim(), findings: [] };
+}
+
+export async function runResearchToContent(input: CoordinateInput) {
+  const started = Date.now();
+  const steps: StepReport[] = [];
+  const durations: Record<string, number> = {};
+  const usage: Usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  const executionId = await startExecution(WORKFLOW_NAME, input, PLAN, { kind: 'coordinator' })
+    .catch(err => {
+      console.error('[coordinator] failed to record execution (continuing without):', err.message);
+      return null;
+    });
+
+  let initiatorId: string | null = null;
+  let pack: z.infer<typeof evidencePack> = { summary: '', findings: [] };
+  let generated: any = null;
+  let failure: string | null = null;
+
+  /** Run one step: tracked in Postgres + the report; returns false when the workflow should stop */
+  async function step(index: number, stepInput: unknown, fn: () => Promise<{ output: unknown; skipped?: boolean }>) {
+    const { name, agent } = PLAN[index];
+    const number = index + 1;
+    await startStep(executionId, number, stepInput).catch(() => {});
+    const t0 = Date.now();
+    try {
+      const { output, skipped } = await fn();
+      const durationMs = Date.now() - t0;
+      const status = skipped ? 'skipped' : 'completed';
+      steps.push({ step: number, name, agent, status, durationMs, output });
+      durations[agent] = (durations[agent] ?? 0) + durationMs;
+      await finishStep(executionId, number, { status, output, durationMs }).catch(() => {});
+      return true;
+    } catch (err: any) {
+      const durationMs = Date.now() - t0;
+      failure = `${name}: ${err?.message || err}`;
+      steps.push({ step: number, name, agent, status: 'failed', durationMs, error: err?.message || String(err) });
+      durations[agent] = (durations[agent] ?? 0) + durationMs;
+      await finishStep(executionId, number, { status: 'failed', error: err?.message || String(err), durationMs }).catch(() => {});
+      return false;
+    }
+  }
+
+  const ok =
+    await step(0, { goal: input.goal }, async () => {
+      const data = await callAgent('research', 'chat', { messages: [{ role: 'user', content: researchPrompt(input) }] });
+      addUsage(usage, data?.metadata?.usage);
+      pack = parseEvidencePack(data.response ?? '');
+      return { output: { summary: pack.summary, findings: pack.findings.length } };
+    }) &&
+    await step(1, { goal: input.goal, contentType: input.contentType, outputType: input.outputType }, async () => {
+      const result: any = await runTool(airtableCreateContentRequest, {
+        baseId: input.baseId,
+        goal: input.goal,
+        contentType: input.contentType,
+        outputType: input.outputType,
+        personaSlugs: input.personaSlugs,
+        domainSlugs: input.domainSlugs,
+      });
+      if (!result?.ok) throw new Error(`Could not create Content Initiator: ${toolError(result)}`);
+      initiatorId = result.recordId;
+      return { output: { initiatorId } };
+    }) &&
+    await step(2, { initiatorId, findings: pack.findings.length }, async () => {
+      if (pack.findings.length === 0) return { output: { reason: 'Research returned no structured findings' }, skipped: true };
+      const result: any = await runTool(airtableCreateReferences, {
+        baseId: input.baseId,
+        initiatorId: initiatorId!,
+        references: pack.findings,
+      });
+      if (!result?.ok) throw new Error(`Could not attach References: ${toolError(result)}`);
+      return { output: { referenceIds: result.recordIds } };
+    }) &&
+    await step(3, { initiatorId }, async () => {
+      generated = await callAgent('content', 'generate', { initiatorId, baseId: input.baseId });
+      addUsage(usage, generated?.metadata?.usage);
+      return { output: { response: generated.response } };
+    });
+
+  durations.total = Date.now() - started;
+  const result = {
+    executionId,
+    status: ok ? 'completed' : 'failed',
+    goal: input.goal,
+    initiatorId,
+    evidence: pack,
+    response: generated?.response ?? null,
+    steps,
+    durations,
+    error: failure,
+  };
+
+  await finishExecution(executionId, ok ? 'completed' : 'failed', { initiatorId, steps, durations }, failure, { usage })
+    .catch(err => console.error('[coordinator] failed to record execution result:', err.message));
+
+  return { ...result, usage };
+}
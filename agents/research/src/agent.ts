@@ -6,8 +6,9 @@ import { openai } from '@ai-sdk/openai';
 
 // ESM requires explicit .js extensions; compiled shared tools live at /core/shared/tools/*.js
 import { mindsdbQuery } from '../../../core/shared/tools/mindsdb.js';
-import { webSearch, webScrape, extractCitation } from '../../../core/shared/tools/web.js';
+import { webSearch, webScrape, extractCitation, formatBibliography } from '../../../core/shared/tools/web.js';
 import { airtableQuery, airtableCreate, airtableUpdate, airtableFetchPersona } from '../../../core/shared/tools/airtable.js';
+import { ingestEvidencePack } from './evidence.js';
 
 /**
  * Research Agent
@@ -15,10 +16,10 @@ import { airtableQuery, airtableCreate, airtableUpdate, airtableFetchPersona } f
  * MODELS: Claude 4.5 Sonnet or GPT-5 (picked via env below)
  */
 
-// Mini tool to bundle findings for later indexing
+// Bundle findings and persist them to rag_knowledge (evidence.ts) for later retrieval
 const createEvidencePack = createTool({
   id: 'research.createEvidencePack',
-  description: 'Compile research findings into a structured evidence pack for RAG indexing',
+  description: 'Compile research findings into a structured evidence pack and store it in the RAG knowledge base (deduplicated, embedded). Returns the packId.',
   inputSchema: z.object({
     topic: z.string(),
     findings: z.array(z.object({
@@ -29,13 +30,19 @@ const createEvidencePack = createTool({
     })),
   }),
   execute: async ({ context }) => {
-    return {
+    const pack = {
       topic: context.topic,
       created: new Date().toISOString(),
       findings: context.findings,
       summary: context.findings.map(f => f.claim).join('\n'),
       citations: context.findings.map(f => f.source),
     };
+    try {
+      return { ...pack, storage: await ingestEvidencePack(context.topic, context.findings) };
+    } catch (error: any) {
+      console.error('[research] evidence pack ingest error:', error);
+      return { ...pack, storage: { persisted: false, error: error?.message ?? String(error) } };
+    }
   },
 });
 
@@ -66,11 +73,12 @@ PRINCIPLES
 
 WORKFLOW
 1) Search authoritative sources (web.search).
-2) Extract key findings with quotes/data.
+2) Read sources with web.scrape (main content as markdown; for long pages, call again with cursor = nextCursor only if you need more). Extract key findings with quotes/data.
 3) Cross-check and note disagreements.
 4) Query data sources (MindsDB SQL, Airtable).
 5) Log findings to Airtable when appropriate.
-6) Return executive summary + evidence pack.
+6) Cite with web.extractCitation (APA unless asked otherwise) and build the reference list with web.formatBibliography. Pass on its warnings (missing dates are n.d., never the access date).
+7) Return executive summary + evidence pack. research.createEvidencePack stores the pack; report its packId, or why it wasn't stored.
 
 OUTPUT
 - Executive summary (2–3 sentences)
@@ -81,6 +89,7 @@ OUTPUT
     webSearch,
     webScrape,
     extractCitation,
+    formatBibliography,
     mindsdbQuery,
     createEvidencePack,
     airtableQuery,
@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { Router } from 'express';
+import {
+  deleteEvidencePack, existingFindings, getEvidencePack, insertEvidencePack, listEvidencePacks, setEvidenceEmbedding,
+} from '../../../core/shared/db/evidence.js';
+import { db, UUID_RE } from '../../../core/shared/db/postgres.js';
+import { EMBEDDING_PROVIDERS, embedTexts, toPgVector, type EmbeddingResult } from '../../../core/shared/tools/embeddings.js';
+import { chunkText } from '../../../core/shared/tools/readability.js';
+import { canonicalUrl } from '../../../core/shared/tools/search-providers.js';
+
+/**
+ * Evidence packs: research findings persisted to rag_knowledge
+ *
+ * research.createEvidencePack calls ingestEvidencePack; findings already
+ * stored (same source, claim and evidence) are reported as duplicates
+ * instead of being stored again. Chunks are embedded with the configured
+ * provider (EMBEDDING_PROVIDER); without one they are stored unembedded.
+ *
+ *   GET    /evidence-packs?topic=&limit=&offset=   Packs, newest first
+ *   GET    /evidence-packs/:packId                 Pack with its findings
+ *   DELETE /evidence-packs/:packId                 Pack and its chunks
+ */
+
+export interface Finding {
+  claim: string;
+  evidence: string;
+  source: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+const CHUNK_TOKENS = Number(process.env.RAG_CHUNK_TOKENS || 500);
+
+const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** Same source (canonical URL), claim and evidence → same key */
+export function findingKey(finding: Finding) {
+  return createHash('sha256')
+    .update([canonicalUrl(finding.source), normalize(finding.claim), normalize(finding.evidence)].join('\n'))
+    .digest('hex');
+}
+
+export function packSummary(findings: Finding[]) {
+  return findings.map(f => `- ${f.claim} (${f.confidence}; ${f.source})`).join('\n');
+}
+
+/**
+ * Embeddings are best effort: when the provider fails the pack is still stored
+ * unembedded, with the error in metadata.embedding, so it can be re-embedded later
+ */
+async function embedPack(texts: string[]): Promise<EmbeddingResult & { error?: string }> {
+  try {
+    return await embedTexts(texts);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.error('[research] evidence pack embedding failed (storing unembedded):', error);
+    const provider = (process.env.EMBEDDING_PROVIDER || 'openai').trim().toLowerCase();
+    return { provider, model: EMBEDDING_PROVIDERS[provider]?.model ?? 'unknown', vectors: null, error };
+  }
+}
+
+/** Store a pack; throws when the database fails */
+export async function ingestEvidencePack(topic: string, findings: Finding[]) {
+  if (!db()) return { persisted: false as const, reason: 'Evidence storage not configured (set DATABASE_URL)' };
+
+  const keyed = findings.map((finding, index) => ({ finding, index, key: findingKey(finding) }));
+  const existing = await existingFindings([...new Set(keyed.map(k => k.key))]);
+  const seen = new Set<string>();
+  const duplicates: Array<{ index: number; claim: string; source: string; packId: string | null }> = [];
+  const fresh = keyed.filter(({ finding, index, key }) => {
+    if (existing.has(key) || seen.has(key)) {
+      duplicates.push({ index, claim: finding.claim, source: finding.source, packId: existing.get(key) ?? null });
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  if (fresh.length === 0) {
+    return { persisted: false as const, reason: 'Every finding is already stored', duplicates };
+  }
+
+  const chunks = fresh.flatMap(({ finding, index, key }) => {
+    const parts = chunkText(finding.evidence.trim(), CHUNK_TOKENS);
+    return parts.map((part, p) => ({
+      content: `Claim: ${finding.claim}\nEvidence: ${part}\nSource: ${finding.source}\nConfidence: ${finding.confidence}`,
+      metadata: {
+        findingIndex: index,
+        part: p,
+        parts: parts.length,
+        claim: finding.claim,
+        evidence: finding.evidence,
+        source: finding.source,
+        sourceKey: canonicalUrl(finding.source),
+        confidence: finding.confidence,
+        dedupKey: key,
+      },
+    }));
+  });
+  const embedded = await embedPack([`${topic}\n\n${packSummary(fresh.map(f => f.finding))}`, ...chunks.map(c => c.content)]);
+  const vector = (i: number) => toPgVector(embedded.vectors?.[i]);
+  const embedding = {
+    provider: embedded.provider,
+    model: embedded.model,
+    embedded: embedded.vectors !== null,
+    skipped: embedded.skipped,
+    error: embedded.error,
+  };
+
+  // Findings another pack stored between the check above and the insert
+  const racedDuplicates = (raced: Set<string>) => fresh
+    .filter(f => raced.has(f.key))
+    .map(({ finding, index }) => ({ index, claim: finding.claim, source: finding.source, packId: null }));
+
+  const stored = await insertEvidencePack({
+    topic,
+    chunks: chunks.map((c, i) => ({ ...c, embedding: vector(i + 1) })),
+    document: raced => {
+      const kept = fresh.filter(f => !raced.has(f.key)).map(f => f.finding);
+      return {
+        summary: packSummary(kept),
+        // The summary vector above covers every fresh finding; re-embedded below when some raced
+        embedding: raced.size === 0 ? vector(0) : null,
+        metadata: {
+          topic,
+          findings: kept.length,
+          citations: [...new Set(kept.map(f => f.source))],
+          confidence: Object.fromEntries(['high', 'medium', 'low'].map(c => [c, kept.filter(f => f.confidence === c).length])),
+          duplicates: [...duplicates, ...racedDuplicates(raced)],
+          embedding,
+        },
+      };
+    },
+  });
+  if (!stored) {
+    const all = new Set(fresh.map(f => f.key));
+    return { persisted: false as const, reason: 'Every finding was stored by another pack meanwhile', duplicates: [...duplicates, ...racedDuplicates(all)] };
+  }
+  const raced = new Set<string>(stored.raced);
+  duplicates.push(...racedDuplicates(raced));
+  if (raced.size > 0 && embedded.vectors) {
+    await embedTexts([`${topic}\n\n${stored.summary}`])
+      .then(r => setEvidenceEmbedding(stored.id, toPgVector(r.vectors?.[0])))
+      .catch(err => console.error(`[research] re-embedding evidence pack ${stored.id} summary failed:`, err?.message ?? err));
+  }
+
+  return {
+    persisted: true as const,
+    packId: stored.id as string,
+    stored: fresh.length - raced.size,
+    chunks: stored.chunks,
+    duplicates,
+    embedding,
+  };
+}
+
+/** Chunks back into findings (one per findingIndex; metadata holds the full evidence) */
+function findingsOf(chunks: any[]) {
+  const byIndex = new Map<number, any>();
+  for (const c of chunks) {
+    const m = c.metadata ?? {};
+    if (!byIndex.has(m.findingIndex)) {
+      byIndex.set(m.findingIndex, {
+        claim: m.claim, evidence: m.evidence, source: m.source, confidence: m.confidence,
+        chunks: 0, embedded: true,
+      });
+    }
+    const finding = byIndex.get(m.findingIndex);
+    finding.chunks += 1;
+    finding.embedded &&= c.embedded;
+  }
+  return [...byIndex.values()];
+}
+
+export function evidencePacksRouter() {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    if (!db()) return res.status(501).json({ error: 'Evidence storage not configured (set DATABASE_URL)' });
+    next();
+  });
+
+  router.get('/', async (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const offset = Math.max(Number(req.query.offset) || 0, 0);
+      const topic = typeof req.query.topic === 'string' && req.query.topic.trim() ? req.query.topic.trim() : undefined;
+      const packs = await listEvidencePacks({ topic, limit, offset });
+      return res.json({ packs, limit, offset });
+    } catch (error) {
+      console.error('[research] list evidence packs error:', error);
+      return res.status(500).json({ error: 'Failed to list evidence packs', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:packId', async (req, res) => {
+    if (!UUID_RE.test(req.params.packId)) return res.status(404).json({ error: 'Evidence pack not found' });
+    try {
+      const found = await getEvidencePack(req.params.packId);
+      if (!found) return res.status(404).json({ error: 'Evidence pack not found' });
+      return res.json({ pack: found.pack, findings: findingsOf(found.chunks) });
+    } catch (error) {
+      console.error('[research] get evidence pack error:', error);
+      return res.status(500).json({ error: 'Failed to fetch evidence pack', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.delete('/:packId', async (req, res) => {
+    if (!UUID_RE.test(req.params.packId)) return res.status(404).json({ error: 'Evidence pack not found' });
+    try {
+      const deleted = await deleteEvidencePack(req.params.packId);
+      if (!deleted) return res.status(404).json({ error: 'Evidence pack not found' });
+      return res.json({ deleted: true, packId: req.params.packId });
+    } catch (error) {
+      console.error('[research] delete evidence pack error:', error);
+      return res.status(500).json({ error: 'Failed to delete evidence pack', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+}
@@ -3,6 +3,10 @@ import cors from 'cors';
 import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
 import { researchAgent } from './agent.js';
+import { evidencePacksRouter } from './evidence.js';
+import { wantsEventStream, openEventStream, pipeAgentStream, abortOnClose } from '../../../core/shared/http/sse.js';
+import { registerWithGateway } from '../../../core/shared/http/register.js';
+import { openThread, saveTurn, collectToolCalls, threadsRouter } from '../../../core/shared/http/threads.js';
 
 const app = express();
 const PORT = Number(process.env.PORT || 3001);
@@ -40,18 +44,52 @@ app.post('/chat', async (req, res) => {
       });
     }
 
+    // Optional persistent thread: prior turns are loaded from agent_memory
+    const opened = await openThread(req, 'research');
+    if (!opened.ok) return res.status(opened.status).json({ error: opened.error });
+    const threadId = opened.thread?.id ?? null;
+    const conversation = [...opened.history, ...messages];
+
     const agent = mastra.getAgent('researchAgent');
-    const result = await agent.generate(messages);
+
+    // Streaming mode: forward text deltas + tool events as SSE
+    if (wantsEventStream(req)) {
+      // A closed tab stops the model and tools instead of running them to the end
+      const abortSignal = abortOnClose(res);
+      const stream = await agent.stream(conversation, { abortSignal });
+      openEventStream(res);
+      const { text, toolCalls, usage, error, aborted } = await pipeAgentStream(res, stream, { agent: 'research', threadId });
+      if (aborted) console.warn('[research] /chat stream: client disconnected, run aborted');
+      else if (error) console.error('[research] /chat stream error:', error);
+      else if (threadId) {
+        await saveTurn(threadId, messages, { text, toolCalls, usage })
+          .catch(err => console.error('[research] failed to save thread turn:', err));
+      }
+      return;
+    }
+
+    const result = await agent.generate(conversation);
+
+    if (threadId) {
+      await saveTurn(threadId, messages, {
+        text: result.text,
+        toolCalls: collectToolCalls(result.toolCalls as any, result.toolResults as any),
+        usage: result.totalUsage,
+      });
+    }
 
     return res.json({
       response: result.text,
+      threadId,
       metadata: {
         agent: 'research',
+        usage: result.totalUsage,
         timestamp: new Date().toISOString(),
       },
     });
   } catch (error) {
     console.error('[research] /chat error:', error);
+    if (res.headersSent) return res.end();
     return res.status(500).json({
       error: 'Failed to process chat request',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -59,9 +97,18 @@ app.post('/chat', async (req, res) => {
   }
 });
 
+// Conversation threads
+app.use('/threads', threadsRouter('research'));
+
+// Evidence packs stored by research.createEvidencePack (rag_knowledge)
+app.use('/evidence-packs', evidencePacksRouter());
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🔬 Research Agent running on port ${PORT}`);
   console.log(`📊 Health: http://localhost:${PORT}/health`);
   console.log(`💬 Chat:   http://localhost:${PORT}/chat`);
+  console.log(`📚 Evidence packs: http://localhost:${PORT}/evidence-packs`);
+
+  registerWithGateway({ name: 'research', port: PORT, capabilities: ['research', 'web-search', 'citations'], routes: ['chat'] });
 });
@@ -0,0 +1,159 @@
+import type { Request, Response, NextFunction } from 'express';
+import { db } from './db.js';
+import { callerOf } from './auth.js';
+import { getAgent } from './registry.js';
+import { httpRequests, httpDuration, upstreamRequests, upstreamErrors, upstreamDuration } from './metrics.js';
+
+/**
+ * Request analytics
+ *
+ * Every gateway request is counted in the Prometheus registry and written to
+ * analytics.api_calls; every proxied call to an agent is also written to
+ * analytics.agent_metrics. Rows are buffered and inserted in batches so a slow
+ * or missing database never delays responses.
+ */
+
+const FLUSH_INTERVAL_MS = 2_000;
+const FLUSH_BATCH_SIZE = 100;
+
+interface ApiCallRow {
+  agentName: string | null;
+  endpoint: string;
+  method: string;
+  statusCode: number;
+  durationMs: number;
+  userId: string | null;
+  metadata: Record<string, unknown>;
+}
+
+interface AgentMetricRow {
+  agentName: string;
+  metricType: string;
+  value: number;
+  metadata: Record<string, unknown>;
+}
+
+let apiCalls: ApiCallRow[] = [];
+let agentMetrics: AgentMetricRow[] = [];
+
+async function flush() {
+  const pool = db();
+  if (!pool) {
+    apiCalls = [];
+    agentMetrics = [];
+    return;
+  }
+
+  const calls = apiCalls.splice(0, FLUSH_BATCH_SIZE);
+  const metrics = agentMetrics.splice(0, FLUSH_BATCH_SIZE);
+
+  try {
+    if (calls.length > 0) {
+      await pool.query(
+        `INSERT INTO analytics.api_calls (agent_name, endpoint, method, status_code, duration_ms, user_id, metadata)
+         SELECT * FROM UNNEST($1::varchar[], $2::varchar[], $3::varchar[], $4::int[], $5::int[], $6::uuid[], $7::jsonb[])`,
+        [
+          calls.map(c => c.agentName),
+          calls.map(c => c.endpoint),
+          calls.map(c => c.method),
+          calls.map(c => c.statusCode),
+          calls.map(c => c.durationMs),
+          calls.map(c => c.userId),
+          calls.map(c => JSON.stringify(c.metadata)),
+        ],
+      );
+    }
+    if (metrics.length > 0) {
+      await pool.query(
+        `INSERT INTO analytics.agent_metrics (agent_name, metric_type, value, metadata)
+         SELECT * FROM UNNEST($1::varchar[], $2::varchar[], $3::numeric[], $4::jsonb[])`,
+        [
+          metrics.map(m => m.agentName),
+          metrics.map(m => m.metricType),
+          metrics.map(m => m.value),
+          metrics.map(m => JSON.stringify(m.metadata)),
+        ],
+      );
+    }
+  } catch (err: any) {
+    // Drop the batch rather than letting the buffer grow without bound
+    console.error('[gateway] analytics flush failed:', err?.message || err);
+  }
+}
+
+setInterval(() => {
+  if (apiCalls.length > 0 || agentMetrics.length > 0) void flush();
+}, FLUSH_INTERVAL_MS).unref();
+
+/** Registered agent named in the path; other names are 'unknown' so they can't grow the label set */
+function agentFromPath(path: string) {
+  const name = /^\/agents\/([^/]+)/.exec(path)?.[1];
+  if (name === undefined) return null;
+  return getAgent(name) ? name : 'unknown';
+}
+
+/** Route pattern (e.g. /agents/:agentName/chat) to keep metric label cardinality bounded */
+function routeOf(req: Request) {
+  return req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+}
+
+/** Middleware: time each request and record it once the response is finished */
+export function recordRequests() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.path === '/metrics') return next();
+    const start = process.hrtime.bigint();
+
+    res.on('finish', () => {
+      const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+      const agent = (res.locals.agent as string | undefined) ?? agentFromPath(req.path);
+      const route = routeOf(req);
+      const status = String(res.statusCode);
+
+      httpRequests.inc({ agent: agent ?? '', route, method: req.method, status });
+      httpDuration.observe({ agent: agent ?? '', route }, durationMs / 1000);
+
+      const caller = callerOf(res);
+      apiCalls.push({
+        agentName: agent,
+        endpoint: route === 'unmatched' ? req.path.slice(0, 255) : route,
+        method: req.method,
+        statusCode: res.statusCode,
+        durationMs: Math.round(durationMs),
+        userId: caller?.userId ?? null,
+        metadata: {
+          path: req.originalUrl.slice(0, 1000),
+          caller: caller?.name ?? null,
+          keyId: caller?.keyId ?? null,
+          upstreamError: res.locals.upstreamError ?? null,
+        },
+      });
+      if (apiCalls.length >= FLUSH_BATCH_SIZE) void flush();
+    });
+
+    next();
+  };
+}
+
+/**
+ * Record one call to an agent service.
+ * status is the upstream HTTP status, or null when the request never got a response.
+ * res is null for calls made outside a request (background jobs).
+ */
+export function recordUpstream(res: Response | null, agent: string, status: number | null, durationMs: number, error?: string) {
+  const failed = status === null || status >= 500;
+  if (res) {
+    res.locals.agent = agent;
+    if (failed) res.locals.upstreamError = error ?? `HTTP ${status}`;
+  }
+
+  upstreamRequests.inc({ agent });
+  if (failed) upstreamErrors.inc({ agent });
+  upstreamDuration.observe({ agent }, durationMs / 1000);
+
+  agentMetrics.push({
+    agentName: agent,
+    metricType: 'upstream_latency_ms',
+    value: Math.round(durationMs),
+    metadata: { status, ok: !failed, ...(error ? { error } : {}) },
+  });
+}
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { db } from './db.js';
+import { generateApiKey, hashApiKey, requireAdmin } from './auth.js';
+
+/**
+ * Admin routes for issuing and revoking per-user API keys
+ *
+ * POST   /admin/api-keys      → issue a key (plaintext returned ONCE)
+ * GET    /admin/api-keys      → list keys (no hashes)
+ * DELETE /admin/api-keys/:id  → revoke (expires the key now; the row is kept for audit)
+ */
+export const apiKeysRouter = Router();
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+apiKeysRouter.use(requireAdmin());
+
+apiKeysRouter.use((_req, res, next) => {
+  if (!db()) return res.status(503).json({ error: 'API key store not configured (set DATABASE_URL)' });
+  next();
+});
+
+apiKeysRouter.post('/', async (req, res) => {
+  const { name, scopes, expiresAt, userId } = req.body ?? {};
+
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(s => typeof s === 'string' && s.trim())) {
+    return res.status(400).json({
+      error: 'Invalid request: scopes must be a non-empty array of strings',
+      example: { name: 'contractor-jane', scopes: ['agents:research:chat'], expiresAt: '2026-12-31T00:00:00Z' },
+    });
+  }
+  if (userId && !UUID_RE.test(userId)) return res.status(400).json({ error: 'Invalid userId (UUID expected)' });
+  let expires: Date | null = null;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    expires = new Date(expiresAt);
+    if (Number.isNaN(+expires)) return res.status(400).json({ error: 'Invalid expiresAt (ISO 8601 expected)' });
+  }
+
+  try {
+    const key = generateApiKey();
+    const { rows } = await db()!.query(
+      `INSERT INTO user_data.api_keys (user_id, key_hash, name, scopes, expires_at)
+       VALUES ($1, $2, $3, $4::jsonb, $5)
+       RETURNING id, user_id, name, scopes, created_at, expires_at`,
+      [userId || null, hashApiKey(key), name || null, JSON.stringify(scopes), expires],
+    );
+    return res.status(201).json({ key, apiKey: rows[0], note: 'Store this key now; it cannot be shown again.' });
+  } catch (err: any) {
+    console.error('[gateway] issue api key error:', err?.message || err);
+    return res.status(500).json({ error: 'Failed to issue API key', details: err?.message });
+  }
+});
+
+apiKeysRouter.get('/', async (_req, res) => {
+  try {
+    const { rows } = await db()!.query(
+      `SELECT id, user_id, name, scopes, last_used_at, created_at, expires_at,
+              (expires_at IS NOT NULL AND expires_at <= NOW()) AS expired
+         FROM user_data.api_keys
+        ORDER BY created_at DESC`,
+    );
+    return res.json({ apiKeys: rows });
+  } catch (err: any) {
+    console.error('[gateway] list api keys error:', err?.message || err);
+    return res.status(500).json({ error: 'Failed to list API keys', details: err?.message });
+  }
+});
+
+apiKeysRouter.delete('/:id', async (req, res) => {
+  if (!UUID_RE.test(req.params.id)) return res.status(404).json({ error: 'API key not found or already revoked' });
+  try {
+    const { rows } = await db()!.query(
+      `UPDATE user_data.api_keys
+          SET expires_at = NOW()
+        WHERE id = $1 AND (expires_at IS NULL OR expires_at > NOW())
+        RETURNING id, name, expires_at`,
+      [req.params.id],
+    );
+    if (rows.length === 0) return res.status(404).json({ error: 'API key not found or already revoked' });
+    return res.json({ revoked: true, apiKey: rows[0] });
+  } catch (err: any) {
+    console.error('[gateway] revoke api key error:', err?.message || err);
+    return res.status(500).json({ error: 'Failed to revoke API key', details: err?.message });
+  }
+});
@@ -0,0 +1,174 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from './db.js';
+
+/**
+ * API key authentication + scopes
+ *
+ * Two kinds of credentials are accepted in `x-api-key` (or `Authorization: Bearer`,
+ * for OpenAI-compatible clients):
+ * - GATEWAY_SECRET: the shared master key (all scopes, including admin)
+ * - Per-user keys from user_data.api_keys (stored as SHA-256 hashes)
+ *
+ * Scopes are colon-separated and support `*` wildcards per segment, e.g.
+ *   agents:research:chat, agents:content:generate, agents:*:chat, agents:*, admin
+ *
+ * Auth is enforced when GATEWAY_SECRET is set (same as before per-user keys existed).
+ */
+
+export interface Caller {
+  keyId: string | null;     // null for the master secret
+  userId: string | null;
+  name: string;
+  scopes: string[];
+}
+
+const KEY_PREFIX = 'abk_';
+
+export function hashApiKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey() {
+  return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+function safeEqual(a: string, b: string) {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+/** True if any granted scope covers the required one (segment-wise `*` matching) */
+export function hasScope(granted: string[], required: string) {
+  const want = required.split(':');
+  return granted.some(scope => {
+    if (scope === '*') return true;
+    const have = scope.split(':');
+    // A shorter scope ending in '*' covers everything below it (agents:* → agents:research:chat)
+    if (have.length < want.length && have[have.length - 1] !== '*') return false;
+    if (have.length > want.length) return false;
+    return have.every((seg, i) => seg === '*' || seg === want[i]);
+  });
+}
+
+// Throttle last_used_at writes to once a minute per key
+const lastTouched = new Map<string, number>();
+
+function touchKey(keyId: string) {
+  const now = Date.now();
+  if ((lastTouched.get(keyId) ?? 0) > now - 60_000) return;
+  lastTouched.set(keyId, now);
+  db()?.query('UPDATE user_data.api_keys SET last_used_at = NOW() WHERE id = $1', [keyId])
+    .catch(err => console.error('[gateway] api key touch failed:', err.message));
+}
+
+function keyOf(req: Request) {
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.header('authorization') || '')?.[1];
+  return req.header('x-api-key') || bearer;
+}
+
+type Resolved = { ok: true; caller: Caller } | { ok: false; status: number; error: string };
+
+async function resolveCaller(key: string | undefined): Promise<Resolved> {
+  if (!key) return { ok: false, status: 401, error: 'Unauthorized' };
+
+  const secret = process.env.GATEWAY_SECRET;
+  if (secret && safeEqual(key, secret)) {
+    return { ok: true, caller: { keyId: null, userId: null, name: 'gateway-secret', scopes: ['*'] } };
+  }
+
+  const pool = db();
+  if (!pool || !key.startsWith(KEY_PREFIX)) return { ok: false, status: 401, error: 'Unauthorized' };
+
+  const { rows } = await pool.query(
+    `SELECT id, user_id, name, scopes, expires_at
+       FROM user_data.api_keys
+      WHERE key_hash = $1`,
+    [hashApiKey(key)],
+  );
+  const row = rows[0];
+  if (!row) return { ok: false, status: 401, error: 'Unauthorized' };
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) {
+    return { ok: false, status: 401, error: 'API key expired' };
+  }
+
+  touchKey(row.id);
+  return {
+    ok: true,
+    caller: {
+      keyId: row.id,
+      userId: row.user_id,
+      name: row.name || 'api-key',
+      scopes: Array.isArray(row.scopes) ? row.scopes : [],
+    },
+  };
+}
+
+/** Authenticate the caller and stash it on res.locals.caller */
+export function authenticate() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!process.env.GATEWAY_SECRET) return next();
+    try {
+      const result = await resolveCaller(keyOf(req));
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+      res.locals.caller = result.caller;
+      next();
+    } catch (err: any) {
+      console.error('[gateway] auth error:', err?.message || err);
+      return res.status(503).json({ error: 'Authentication unavailable', details: err?.message });
+    }
+  };
+}
+
+export function callerOf(res: Response): Caller | null {
+  return res.locals.caller ?? null;
+}
+
+/** Require a scope; the scope may depend on the request (e.g. agent name). No-op when auth is off. */
+export function requireScope(scope: string | ((req: Request) => string)) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const caller = callerOf(res);
+    if (!caller) return next();
+    const required = typeof scope === 'function' ? scope(req) : scope;
+    if (!hasScope(caller.scopes, required)) {
+      return res.status(403).json({ error: 'Forbidden', requiredScope: required });
+    }
+    next();
+  };
+}
+
+/**
+ * Require a caller with a user (a key with user_id). Agents scope threads and
+ * attribute reviews by the X-User-Id this sets, so there is no anonymous
+ * fallback: the master secret, user-less keys and auth-off all get a 403.
+ */
+export function requireUser() {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    if (!callerOf(res)?.userId) {
+      return res.status(403).json({ error: 'Forbidden', message: 'This route needs an API key with a user_id' });
+    }
+    next();
+  };
+}
+
+/**
+ * Admin routes always require a credential (master secret or a key with the
+ * `admin` scope) — they are never left open, even when GATEWAY_SECRET is unset.
+ */
+export function requireAdmin() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await resolveCaller(keyOf(req));
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+      if (!hasScope(result.caller.scopes, 'admin')) {
+        return res.status(403).json({ error: 'Forbidden', requiredScope: 'admin' });
+      }
+      res.locals.caller = result.caller;
+      next();
+    } catch (err: any) {
+      console.error('[gateway] auth error:', err?.message || err);
+      return res.status(503).json({ error: 'Authentication unavailable', details: err?.message });
+    }
+  };
+}
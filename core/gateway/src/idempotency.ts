@@ -0,0 +1,158 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { redis } from './redis.js';
+import { limitIdentity } from './ratelimit.js';
+import { idempotentReplays } from './metrics.js';
+
+/**
+ * Idempotency-Key support for POST routes
+ *
+ * The first request with a given key runs normally and its JSON response is
+ * stored for IDEMPOTENCY_TTL_HOURS. Repeats (same caller, path and key) get the
+ * stored response with `Idempotent-Replayed: true` instead of running again, so
+ * an n8n retry of /generate doesn't write to Airtable twice.
+ *
+ * - Same key while the first request is still running → 409 (retry later)
+ * - Same key with a different body → 422
+ * - 5xx and 429 responses are not stored, so the request can be retried
+ * - Streamed (SSE) responses are not stored
+ *
+ * Entries live in Redis when REDIS_URL is set, otherwise in process memory.
+ */
+
+const TTL_MS = Number(process.env.IDEMPOTENCY_TTL_HOURS || 24) * 3_600_000;
+const PENDING_TTL_MS = 20 * 60_000;   // a crashed request releases its key after this
+const KEY_RE = /^[\x21-\x7e]{1,255}$/;
+
+interface Entry {
+  state: 'pending' | 'done';
+  fingerprint: string;
+  status?: number;
+  body?: unknown;
+  createdAt: string;
+}
+
+interface EntryStore {
+  /** Store the entry unless the key exists; returns the existing entry otherwise */
+  claim(key: string, entry: Entry, ttlMs: number): Promise<Entry | null>;
+  put(key: string, entry: Entry, ttlMs: number): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+class MemoryStore implements EntryStore {
+  private entries = new Map<string, { entry: Entry; expiresAt: number }>();
+
+  async claim(key: string, entry: Entry, ttlMs: number) {
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > Date.now()) return existing.entry;
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+    return null;
+  }
+
+  async put(key: string, entry: Entry, ttlMs: number) {
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+  }
+
+  async remove(key: string) {
+    this.entries.delete(key);
+  }
+
+  sweep() {
+    const now = Date.now();
+    for (const [k, e] of this.entries) if (e.expiresAt <= now) this.entries.delete(k);
+  }
+}
+
+class RedisStore implements EntryStore {
+  async claim(key: string, entry: Entry, ttlMs: number) {
+    const ok = await redis()!.set(`idem:${key}`, JSON.stringify(entry), 'PX', ttlMs, 'NX');
+    if (ok) return null;
+    const raw = await redis()!.get(`idem:${key}`);
+    // Expired between SET and GET: treat as still pending rather than racing
+    return raw ? JSON.parse(raw) as Entry : { ...entry, state: 'pending' as const };
+  }
+
+  async put(key: string, entry: Entry, ttlMs: number) {
+    await redis()!.set(`idem:${key}`, JSON.stringify(entry), 'PX', ttlMs);
+  }
+
+  async remove(key: string) {
+    await redis()!.del(`idem:${key}`);
+  }
+}
+
+const memory = new MemoryStore();
+const shared = new RedisStore();
+setInterval(() => memory.sweep(), 60_000).unref();
+
+async function withStore<T>(fn: (store: EntryStore) => Promise<T>): Promise<T> {
+  if (!redis()) return fn(memory);
+  try {
+    return await fn(shared);
+  } catch (err: any) {
+    console.error('[gateway] idempotency store error (using memory):', err?.message || err);
+    return fn(memory);
+  }
+}
+
+function fingerprintOf(req: Request) {
+  return createHash('sha256').update(JSON.stringify(req.body ?? {})).digest('hex');
+}
+
+/** Middleware: honour an Idempotency-Key header (no-op without one) */
+export function idempotent() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header('idempotency-key');
+    if (key === undefined) return next();
+    if (!KEY_RE.test(key)) {
+      return res.status(400).json({ error: 'Invalid Idempotency-Key (1-255 printable ASCII characters)' });
+    }
+
+    const storeKey = `${limitIdentity(req, res)}:${req.method}:${req.baseUrl}${req.path}:${key}`;
+    const fingerprint = fingerprintOf(req);
+
+    let existing: Entry | null;
+    try {
+      existing = await withStore(store =>
+        store.claim(storeKey, { state: 'pending', fingerprint, createdAt: new Date().toISOString() }, PENDING_TTL_MS),
+      );
+    } catch (err: any) {
+      // Never block the request on the store; it just runs without idempotency
+      console.error('[gateway] idempotency error:', err?.message || err);
+      return next();
+    }
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return res.status(422).json({ error: 'Idempotency-Key was already used with a different request body' });
+      }
+      if (existing.state === 'pending') {
+        res.setHeader('Retry-After', '5');
+        return res.status(409).json({ error: 'A request with this Idempotency-Key is still in progress' });
+      }
+      idempotentReplays.inc({ route: req.route?.path ?? req.path });
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(existing.status ?? 200).json(existing.body);
+    }
+
+    // Store the JSON response even if the client has gone (that's when it retries);
+    // 5xx/429 and streamed responses release the key instead
+    let settled = false;
+    const settle = (entry: Entry | null) => {
+      if (settled) return;
+      settled = true;
+      withStore(store => (entry ? store.put(storeKey, entry, TTL_MS) : store.remove(storeKey)))
+        .catch(err => console.error('[gateway] idempotency store update failed:', err?.message || err));
+    };
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const keep = res.statusCode < 500 && res.statusCode !== 429;
+      settle(keep ? { state: 'done', fingerprint, status: res.statusCode, body, createdAt: new Date().toISOString() } : null);
+      return json(body);
+    };
+    // A client that leaves before the response starts keeps the key pending until the handler answers
+    res.on('close', () => { if (res.headersSent) settle(null); });
+
+    next();
+  };
+}
@@ -1,79 +1,270 @@
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
+import { Readable } from 'stream';
+import { authenticate, callerOf, requireScope, requireUser } from './auth.js';
+import { apiKeysRouter } from './api-keys.js';
+import { recordRequests, recordUpstream } from './analytics.js';
+import { renderMetrics } from './metrics.js';
+import { rateLimit, recordTokenUsage } from './ratelimit.js';
+import { enqueueJob, jobsRouter, startJobWorker } from './jobs.js';
+import { fetchAgent, circuitState, upstreamHeaders, upstreamFailed } from './upstream.js';
+import { idempotent } from './idempotency.js';
+import { openaiRouter } from './openai.js';
+import { loadAgents, startHealthProbes, listAgents, registryRouter, resolveAgent } from './registry.js';
 
 const app = express();
 const PORT = Number(process.env.GATEWAY_PORT || 8000);
 
 app.use(cors());
 app.use(express.json());
+app.use(recordRequests());
 
-// Optional API key guard for /agents
-app.use('/agents', (req, res, next) => {
-  const secret = process.env.GATEWAY_SECRET;
-  if (!secret) return next();
-  if (req.header('x-api-key') !== secret) return res.status(401).json({ error: 'Unauthorized' });
-  next();
-});
+// API key guard for /agents and /jobs (enforced when GATEWAY_SECRET is set; accepts the secret or a per-user key)
+app.use('/agents', authenticate());
+app.use('/jobs', authenticate());
+
+// Admin: issue/list/revoke per-user API keys
+app.use('/admin/api-keys', apiKeysRouter);
+
+// Agent registry: defaults + AGENTS_CONFIG + self-registration, with live /health probes
+loadAgents();
+startHealthProbes();
+app.use('/registry', registryRouter);
+
+// OpenAI-compatible facade: /v1/models, /v1/chat/completions (agents as models)
+app.use('/v1', openaiRouter);
+
+// Streaming is requested via Accept: text/event-stream or ?stream=1
+function wantsEventStream(req: express.Request) {
+  const flag = String(req.query.stream ?? '').toLowerCase();
+  return (req.header('accept') || '').includes('text/event-stream') || flag === '1' || flag === 'true';
+}
+
+/**
+ * Proxy an SSE response from an agent without buffering.
+ * Only the wait for response headers is bounded; once the agent starts
+ * streaming, the connection stays open until it finishes or the client leaves.
+ */
+async function proxyEventStream(req: express.Request, res: express.Response, agentName: string, url: string, body: unknown) {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const started = Date.now();
+
+  try {
+    const r = await fetchAgent(agentName, url, {
+      method: 'POST',
+      headers: upstreamHeaders(res, { Accept: 'text/event-stream' }),
+      body: JSON.stringify(body),
+    }, { timeoutMs: 60_000, headersOnly: true, signal: controller.signal });
+    recordUpstream(res, agentName, r.status, Date.now() - started);
 
-// Map agent service URLs (Docker DNS)
-const AGENTS: Record<string, string> = {
-  research: process.env.AGENT_RESEARCH_URL || 'http://agentbox-research:3001',
-  content: process.env.AGENT_CONTENT_URL || 'http://agentbox-content:3104',
-};
+    const contentType = r.headers.get('content-type') || '';
+    if (!r.ok || !r.body || !contentType.includes('text/event-stream')) {
+      const data = await r.json().catch(() => ({}));
+      return res.status(r.status).json(data);
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Watch the passing stream for the final usage event so tokens count toward the caller's quota
+    let tail = '';
+    Readable.fromWeb(r.body as any)
+      .on('data', (chunk: Buffer) => {
+        tail = (tail + chunk.toString('utf8')).slice(-4096);
+        const m = /event: usage\ndata: (\{[^\n]*\})/.exec(tail);
+        if (m) {
+          try { recordTokenUsage(req, res, JSON.parse(m[1]).totalTokens); } catch { /* partial/garbled event */ }
+          tail = '';
+        }
+      })
+      .on('error', (err: any) => {
+        if (!controller.signal.aborted) console.error(`[gateway] stream error → ${agentName}:`, err?.message || err);
+        res.end();
+      })
+      .pipe(res);
+  } catch (err: any) {
+    if (res.headersSent) return res.end();
+    if (controller.signal.aborted) return;
+    return upstreamFailed(res, agentName, agentName, started, err);
+  }
+}
 
 app.get('/health', (_req, res) => {
   res.json({ status: 'healthy', service: 'agentbox-gateway', timestamp: new Date().toISOString() });
 });
 
+// Prometheus scrape endpoint (bearer token optional via METRICS_TOKEN)
+app.get('/metrics', (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.header('authorization') !== `Bearer ${token}`) return res.status(401).json({ error: 'Unauthorized' });
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
 app.get('/agents', (_req, res) => {
-  res.json({ agents: Object.keys(AGENTS).map(name => ({ name, endpoint: `/agents/${name}/chat`, status: 'available' })) });
+  res.json({
+    agents: listAgents().map(a => ({
+      name: a.name,
+      endpoint: `/agents/${a.name}/chat`,
+      routes: a.routes,
+      capabilities: a.capabilities,
+      status: a.status,
+      circuit: circuitState(a.name),
+      lastSeen: a.lastSeen,
+      lastCheckedAt: a.lastCheckedAt,
+      source: a.source,
+    })),
+  });
 });
 
-app.post('/agents/:agentName/chat', async (req, res) => {
+app.post('/agents/:agentName/chat', requireScope(req => `agents:${req.params.agentName}:chat`), idempotent(), rateLimit(), async (req, res) => {
   const { agentName } = req.params;
-  const base = AGENTS[agentName];
-  const { messages } = req.body || {};
+  const { messages, threadId } = req.body || {};
   if (!Array.isArray(messages)) {
     return res.status(400).json({ error: 'Invalid request', expected: { messages: [{ role: 'user', content: 'message' }] } });
   }
-  if (!base) return res.status(404).json({ error: `Unknown agent '${agentName}'` });
+  // Threads belong to the key's user (sent as X-User-Id); a userId in the body is never forwarded
+  if (threadId != null && !callerOf(res)?.userId) {
+    return res.status(403).json({ error: 'Forbidden', message: 'Threads need an API key with a user_id' });
+  }
+  const agent = resolveAgent(res, agentName, 'chat');
+  if (!agent) return;
+  const base = agent.baseUrl;
+
+  const body = { messages, threadId };
+  if (wantsEventStream(req)) return proxyEventStream(req, res, agentName, `${base}/chat`, body);
 
+  const started = Date.now();
   try {
-    const r = await fetch(`${base}/chat`, {
+    const r = await fetchAgent(agentName, `${base}/chat`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ messages }),
-      signal: AbortSignal.timeout(60_000),
-    });
-    const data = await r.json().catch(() => ({}));
+      headers: upstreamHeaders(res),
+      body: JSON.stringify(body),
+    }, { timeoutMs: 60_000 });
+    const data: any = await r.json().catch(() => ({}));
+    recordUpstream(res, agentName, r.status, Date.now() - started);
+    recordTokenUsage(req, res, data?.metadata?.usage?.totalTokens);
     return res.status(r.status).json(data);
   } catch (err: any) {
-    console.error(`[gateway] proxy error → ${agentName}:`, err?.message || err);
-    return res.status(502).json({ error: 'Agent unavailable', agent: agentName, details: err?.message });
+    return upstreamFailed(res, agentName, agentName, started, err);
   }
 });
 
-// Content Agent specific: direct generation endpoint
-app.post('/agents/content/generate', async (req, res) => {
-  const base = AGENTS['content'];
-  if (!base) return res.status(404).json({ error: 'Content agent not configured' });
+// Async jobs: enqueue now, poll GET /jobs/:id (or receive callbackUrl) later
+app.post('/agents/:agentName/jobs', idempotent(), ...enqueueJob);
+app.use('/jobs', jobsRouter);
 
+// Conversation threads (stored by the agent; scoped to the key's user, so keys without one are refused)
+const threadScope = [requireScope(req => `agents:${req.params.agentName}:threads`), requireUser()];
+
+/** Forward a management request to the agent declaring `route`, with the caller's method/body/query */
+function proxyTo(route: string, pathOf: (req: express.Request) => string, timeoutMs = 15_000) {
+  return async (req: express.Request, res: express.Response) => {
+    const { agentName } = req.params;
+    const agent = resolveAgent(res, agentName, route);
+    if (!agent) return;
+
+    const path = pathOf(req);
+    // The user is only ever the key's (X-User-Id), never a client-supplied userId
+    const params = new URLSearchParams(req.query as Record<string, string>);
+    params.delete('userId');
+    const query = params.toString();
+    const started = Date.now();
+    try {
+      const r = await fetchAgent(agentName, `${agent.baseUrl}${path}${query ? `?${query}` : ''}`, {
+        method: req.method,
+        headers: upstreamHeaders(res),
+        body: req.method === 'POST' ? JSON.stringify(req.body ?? {}) : undefined,
+      }, { timeoutMs });
+      const data = await r.json().catch(() => ({}));
+      recordUpstream(res, agentName, r.status, Date.now() - started);
+      return res.status(r.status).json(data);
+    } catch (err: any) {
+      return upstreamFailed(res, agentName, `${agentName}${path}`, started, err);
+    }
+  };
+}
+
+const proxyThreads = proxyTo('chat', req =>
+  req.params.threadId ? `/threads/${encodeURIComponent(req.params.threadId)}` : '/threads');
+
+app.get('/agents/:agentName/threads', threadScope, proxyThreads);
+app.post('/agents/:agentName/threads', threadScope, idempotent(), proxyThreads);
+app.get('/agents/:agentName/threads/:threadId', threadScope, proxyThreads);
+app.delete('/agents/:agentName/threads/:threadId', threadScope, proxyThreads);
+
+// Evidence packs persisted by the research agent (research → chat)
+const evidenceScope = requireScope(req => `agents:${req.params.agentName}:evidence-packs`);
+const proxyEvidencePacks = proxyTo('chat', req =>
+  req.params.packId ? `/evidence-packs/${encodeURIComponent(req.params.packId)}` : '/evidence-packs');
+
+app.get('/agents/:agentName/evidence-packs', evidenceScope, proxyEvidencePacks);
+app.get('/agents/:agentName/evidence-packs/:packId', evidenceScope, proxyEvidencePacks);
+app.delete('/agents/:agentName/evidence-packs/:packId', evidenceScope, proxyEvidencePacks);
+
+// Batch progress/cancel for agents that run batches (content → generate-batch); same scope as starting one
+const batchScope = requireScope(req => `agents:${req.params.agentName}:generate-batch`);
+const proxyBatches = proxyTo('generate-batch', req => {
+  const { batchId } = req.params;
+  if (!batchId) return '/batches';
+  return `/batches/${encodeURIComponent(batchId)}${req.path.endsWith('/cancel') ? '/cancel' : ''}`;
+});
+
+app.get('/agents/:agentName/batches', batchScope, proxyBatches);
+app.get('/agents/:agentName/batches/:batchId', batchScope, proxyBatches);
+app.post('/agents/:agentName/batches/:batchId/cancel', batchScope, proxyBatches);
+
+// Revision history of generated content (content → generate)
+const revisionScope = requireScope(req => `agents:${req.params.agentName}:revisions`);
+const proxyRevisions = proxyTo('generate', req => req.path.slice(`/agents/${req.params.agentName}`.length));
+
+app.get('/agents/:agentName/revisions/:initiatorId', revisionScope, proxyRevisions);
+app.get('/agents/:agentName/revisions/:initiatorId/diff', revisionScope, proxyRevisions);
+app.get('/agents/:agentName/revisions/:initiatorId/:revision', revisionScope, proxyRevisions);
+app.post('/agents/:agentName/revisions/:initiatorId/:revision/promote', revisionScope, idempotent(), proxyRevisions);
+
+// Human review of generated content (content → generate); reviewer identity comes from the key's user
+const reviewScope = requireScope(req => `agents:${req.params.agentName}:review`);
+const reviewPath = (req: express.Request) => req.path.slice(`/agents/${req.params.agentName}`.length);
+const proxyReviews = proxyTo('generate', reviewPath);
+
+app.get('/agents/:agentName/reviews/:initiatorId', reviewScope, proxyReviews);
+app.post('/agents/:agentName/reviews/:initiatorId/:action(approve|reject|repurpose)', reviewScope, requireUser(), idempotent(), proxyReviews);
+// Runs the generation pipeline, so it gets the generation timeout
+app.post('/agents/:agentName/reviews/:initiatorId/regenerate', reviewScope, requireUser(), idempotent(), proxyTo('generate', reviewPath, 60_000));
+
+// Output format catalog (content → generate); read-only, same scope as generating
+app.get('/agents/:agentName/formats', requireScope(req => `agents:${req.params.agentName}:generate`), proxyTo('generate', () => '/formats'));
+
+// Any other route an agent declares (e.g. content → generate): body is passed through as-is
+app.post('/agents/:agentName/:route', requireScope(req => `agents:${req.params.agentName}:${req.params.route}`), idempotent(), rateLimit(), async (req, res) => {
+  const { agentName, route } = req.params;
+  const agent = resolveAgent(res, agentName, route);
+  if (!agent) return;
+
+  const started = Date.now();
   try {
-    const r = await fetch(`${base}/generate`, {
+    const r = await fetchAgent(agentName, `${agent.baseUrl}/${route}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(req.body),
-      signal: AbortSignal.timeout(60_000),
-    });
-    const data = await r.json().catch(() => ({}));
+      headers: upstreamHeaders(res),
+      body: JSON.stringify(req.body ?? {}),
+    }, { timeoutMs: 60_000 });
+    const data: any = await r.json().catch(() => ({}));
+    recordUpstream(res, agentName, r.status, Date.now() - started);
+    recordTokenUsage(req, res, data?.metadata?.usage?.totalTokens);
     return res.status(r.status).json(data);
   } catch (err: any) {
-    console.error('[gateway] content generate error:', err?.message || err);
-    return res.status(502).json({ error: 'Content generation failed', details: err?.message });
+    return upstreamFailed(res, agentName, `${agentName}/${route}`, started, err);
   }
 });
 
+startJobWorker();
+
 const server = createServer(app);
 server.listen(PORT, () => {
   console.log(`🌐 AgentBox Gateway on :${PORT}`);
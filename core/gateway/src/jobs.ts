@@ -0,0 +1,372 @@
+import { Router, type Request, type Response } from 'express';
+import { randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { db } from './db.js';
+import { callerOf, hasScope, requireScope } from './auth.js';
+import { rateLimit, limitIdentity, addTokenUsage } from './ratelimit.js';
+import { recordUpstream } from './analytics.js';
+import { getAgent } from './registry.js';
+import { fetchAgent, isConnectError } from './upstream.js';
+
+/**
+ * Asynchronous Jobs
+ *
+ * Long agent tasks (research briefings, content generation) run in the
+ * background instead of inside the request's 60s proxy timeout.
+ *
+ * POST /agents/:agentName/jobs  { route?: 'chat', input: {...}, callbackUrl? } → 202 { jobId }
+ * GET  /jobs/:id                → status, output or error
+ *
+ * Each job is a workflow_state.executions row (queued → running → completed | failed),
+ * so jobs survive a gateway restart: workers claim queued rows with
+ * FOR UPDATE SKIP LOCKED, heartbeat while running, and running rows whose
+ * heartbeat goes stale (the worker died) are failed rather than rerun.
+ */
+
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS || 1_000);
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY || 4);
+const JOB_TIMEOUT_MS = Number(process.env.JOB_TIMEOUT_MS || 15 * 60_000);
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS || 3);
+const HEARTBEAT_MS = 15_000;
+const STALE_AFTER = '2 minutes';
+
+const CALLBACK_ALLOWED_HOSTS = (process.env.JOB_CALLBACK_ALLOWED_HOSTS || '')
+  .split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+
+const WORKER_ID = randomUUID();
+let active = 0;
+
+function serializeJob(row: any) {
+  const meta = row.metadata || {};
+  return {
+    jobId: row.id,
+    agent: row.input_data?.agent,
+    route: row.input_data?.route,
+    status: row.status,
+    output: row.output_data ?? null,
+    error: row.error_message ?? null,
+    attempts: meta.attempts ?? 0,
+    queuedAt: meta.queuedAt ?? null,
+    startedAt: row.status === 'queued' ? null : row.started_at,
+    completedAt: row.completed_at ?? null,
+    callback: meta.callbackUrl ? { url: meta.callbackUrl, status: meta.callbackStatus ?? 'pending' } : null,
+  };
+}
+
+/** Loopback, private, link-local, CGNAT, unspecified and multicast addresses (IPv4 and IPv6) */
+function isInternalAddress(address: string) {
+  const v4 = address.toLowerCase().startsWith('::ffff:') ? address.slice(7) : address;
+  if (isIP(v4) === 4) {
+    const [a, b] = v4.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  const v6 = address.toLowerCase();
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff');
+}
+
+/**
+ * Why a callback URL is refused, or null. Results must not be POSTed to the
+ * gateway's own network (agents, n8n, Redis, metadata IPs): with
+ * JOB_CALLBACK_ALLOWED_HOSTS set only those hosts (and subdomains) are allowed,
+ * otherwise bare names (compose services) and hosts resolving to internal
+ * addresses are refused. Checked at enqueue and again before each delivery.
+ */
+async function callbackRefusal(value: unknown): Promise<string | null> {
+  let url: URL;
+  try { url = new URL(String(value)); } catch { return 'not a valid URL'; }
+  if (!['http:', 'https:'].includes(url.protocol)) return 'http/https URL expected';
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (CALLBACK_ALLOWED_HOSTS.length > 0) {
+    return CALLBACK_ALLOWED_HOSTS.some(h => host === h || host.endsWith(`.${h}`))
+      ? null
+      : `host '${host}' is not in JOB_CALLBACK_ALLOWED_HOSTS`;
+  }
+  if (!isIP(host) && (!host.includes('.') || /\.(localhost|local|internal)$/.test(host))) return `internal host '${host}'`;
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+  } catch {
+    return `cannot resolve '${host}'`;
+  }
+  return addresses.some(isInternalAddress) ? `'${host}' is an internal address` : null;
+}
+
+export const jobsRouter = Router();
+
+// Enqueue: scope and limits are the same as the synchronous route
+export const enqueueJob = [
+  requireScope((req: Request) => `agents:${req.params.agentName}:${req.body?.route || 'chat'}`),
+  rateLimit(),
+  async (req: Request, res: Response) => {
+    const pool = db();
+    if (!pool) return res.status(503).json({ error: 'Job store not configured (set DATABASE_URL)' });
+
+    const { agentName } = req.params;
+    const { route = 'chat', input, callbackUrl } = req.body ?? {};
+
+    if (!input || typeof input !== 'object') {
+      return res.status(400).json({
+        error: 'Invalid request: input (object) is required',
+        example: { route: 'chat', input: { messages: [{ role: 'user', content: 'Brief me on NP FPA' }] }, callbackUrl: 'https://example.com/hook' },
+      });
+    }
+    if (callbackUrl !== undefined) {
+      const refused = await callbackRefusal(callbackUrl);
+      if (refused) return res.status(400).json({ error: 'Invalid callbackUrl', details: refused });
+    }
+
+    const agent = getAgent(agentName);
+    if (!agent) return res.status(404).json({ error: `Unknown agent '${agentName}'` });
+    if (!agent.routes.includes(route)) {
+      return res.status(404).json({ error: `Agent '${agentName}' does not support '${route}'`, routes: agent.routes });
+    }
+
+    const caller = callerOf(res);
+    try {
+      const { rows } = await pool.query(
+        `INSERT INTO workflow_state.executions (workflow_name, status, current_step, total_steps, input_data, metadata)
+         VALUES ($1, 'queued', 0, 1, $2::jsonb, $3::jsonb)
+         RETURNING id`,
+        [
+          `agent:${agentName}:${route}`,
+          JSON.stringify({ agent: agentName, route, input }),
+          JSON.stringify({
+            kind: 'gateway-job',
+            callbackUrl: callbackUrl ?? null,
+            attempts: 0,
+            queuedAt: new Date().toISOString(),
+            keyId: caller?.keyId ?? null,
+            userId: caller?.userId ?? null,
+            caller: caller?.name ?? null,
+            limitId: limitIdentity(req, res),
+          }),
+        ],
+      );
+      res.locals.agent = agentName;
+      const jobId = rows[0].id;
+      setImmediate(poll);
+      return res.status(202).json({ jobId, status: 'queued', statusUrl: `/jobs/${jobId}` });
+    } catch (err: any) {
+      console.error('[gateway] enqueue job error:', err?.message || err);
+      return res.status(500).json({ error: 'Failed to enqueue job', details: err?.message });
+    }
+  },
+];
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+jobsRouter.get('/:id', async (req, res) => {
+  const pool = db();
+  if (!pool) return res.status(503).json({ error: 'Job store not configured (set DATABASE_URL)' });
+  if (!UUID_RE.test(req.params.id)) return res.status(404).json({ error: 'Job not found' });
+
+  try {
+    const { rows } = await pool.query(
+      `SELECT * FROM workflow_state.executions WHERE id = $1 AND metadata->>'kind' = 'gateway-job'`,
+      [req.params.id],
+    );
+    const row = rows[0];
+    // Only the key that created a job (or an admin) may read it
+    const caller = callerOf(res);
+    if (!row || (caller && !hasScope(caller.scopes, 'admin') && row.metadata?.keyId !== caller.keyId)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    return res.json(serializeJob(row));
+  } catch (err: any) {
+    console.error('[gateway] get job error:', err?.message || err);
+    return res.status(500).json({ error: 'Failed to fetch job', details: err?.message });
+  }
+});
+
+// ---- Worker ---------------------------------------------------------------
+
+async function claimNext() {
+  const { rows } = await db()!.query(
+    `UPDATE workflow_state.executions
+        SET status = 'running',
+            started_at = NOW(),
+            metadata = metadata || jsonb_build_object(
+              'workerId', $1::text,
+              'heartbeatAt', NOW(),
+              'attempts', COALESCE((metadata->>'attempts')::int, 0) + 1)
+      WHERE id = (
+        SELECT id FROM workflow_state.executions
+         WHERE status = 'queued' AND metadata->>'kind' = 'gateway-job'
+           AND COALESCE((metadata->>'notBefore')::timestamptz, '-infinity') <= NOW()
+         ORDER BY started_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1)
+      RETURNING *`,
+    [WORKER_ID],
+  );
+  return rows[0] ?? null;
+}
+
+async function finish(id: string, status: 'completed' | 'failed', output: unknown, error: string | null) {
+  const { rows } = await db()!.query(
+    `UPDATE workflow_state.executions
+        SET status = $2, output_data = $3::jsonb, error_message = $4, completed_at = NOW(),
+            current_step = CASE WHEN $2::text = 'completed' THEN total_steps ELSE current_step END
+      WHERE id = $1
+      RETURNING *`,
+    [id, status, output === undefined ? null : JSON.stringify(output), error],
+  );
+  return rows[0];
+}
+
+/** Back to the queue with linear backoff (10s, 20s, ...) before the next attempt */
+async function requeue(id: string, error: string, attempts: number) {
+  await db()!.query(
+    `UPDATE workflow_state.executions
+        SET status = 'queued', error_message = $2,
+            metadata = (metadata - 'workerId') || jsonb_build_object('notBefore', NOW() + make_interval(secs => $3))
+      WHERE id = $1`,
+    [id, error, attempts * 10],
+  );
+}
+
+async function sendCallback(row: any) {
+  const url = row.metadata?.callbackUrl;
+  if (!url) return;
+  const body = JSON.stringify(serializeJob(row));
+  let status = 'failed';
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      // Re-checked per delivery: DNS may point elsewhere by now
+      const refused = await callbackRefusal(url);
+      if (refused) { status = `refused (${refused})`; break; }
+      const r = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-AgentBox-Job-Id': row.id },
+        body,
+        // A redirect could point at an internal host; it counts as a failed delivery
+        redirect: 'manual',
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (r.ok) { status = 'delivered'; break; }
+      status = `failed (${r.status})`;
+    } catch (err: any) {
+      status = `failed (${err?.message || err})`;
+    }
+    if (attempt < 2) await new Promise(r => setTimeout(r, 1_000 * 2 ** attempt));
+  }
+  await db()!.query(
+    `UPDATE workflow_state.executions SET metadata = metadata || jsonb_build_object('callbackStatus', $2::text) WHERE id = $1`,
+    [row.id, status],
+  ).catch(err => console.error('[gateway] callback status update failed:', err.message));
+}
+
+/**
+ * Record the outcome and send the callback. A failed write is tried again
+ * rather than rerunning the job: the agent has already done the work.
+ */
+async function complete(id: string, status: 'completed' | 'failed', output: unknown, error: string | null) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendCallback(await finish(id, status, output, error));
+    } catch (err: any) {
+      if (attempt >= 2) throw err;
+      console.error(`[gateway] job ${id} result write failed (retrying):`, err?.message || err);
+      await new Promise(r => setTimeout(r, 1_000 * 2 ** attempt));
+    }
+  }
+}
+
+async function run(job: any) {
+  const { agent: agentName, route, input } = job.input_data;
+  const attempts = job.metadata?.attempts ?? 1;
+  const heartbeat = setInterval(() => {
+    db()!.query(
+      `UPDATE workflow_state.executions SET metadata = metadata || jsonb_build_object('heartbeatAt', NOW()) WHERE id = $1`,
+      [job.id],
+    ).catch(() => {});
+  }, HEARTBEAT_MS);
+
+  const started = Date.now();
+  try {
+    let r: Awaited<ReturnType<typeof fetchAgent>>;
+    try {
+      const agent = getAgent(agentName);
+      if (!agent) throw new Error(`Unknown agent '${agentName}'`);
+
+      r = await fetchAgent(agentName, `${agent.baseUrl}/${route}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(job.metadata?.userId ? { 'X-User-Id': job.metadata.userId } : {}),
+        },
+        body: JSON.stringify(input),
+      }, { timeoutMs: JOB_TIMEOUT_MS });
+    } catch (err: any) {
+      if (!err?.circuitOpen) recordUpstream(null, agentName, null, Date.now() - started, err?.message);
+      // Only errors before the agent got the request are retried (as in fetchAgent);
+      // after a timeout or a reset mid-response the work may already be done
+      const retryable = err?.circuitOpen || isConnectError(err);
+      if (retryable && attempts < MAX_ATTEMPTS) return await requeue(job.id, err?.message || String(err), attempts);
+      return await complete(job.id, 'failed', undefined, err?.message || String(err));
+    }
+
+    const data: any = await r.json().catch(() => ({}));
+    recordUpstream(null, agentName, r.status, Date.now() - started);
+
+    if (r.status === 503 && attempts < MAX_ATTEMPTS) {
+      return await requeue(job.id, `Agent returned 503 (attempt ${attempts})`, attempts);
+    }
+    if (job.metadata?.limitId) addTokenUsage(job.metadata.limitId, data?.metadata?.usage?.totalTokens);
+    await (r.ok
+      ? complete(job.id, 'completed', data, null)
+      : complete(job.id, 'failed', data, data?.error || `Agent returned ${r.status}`));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function poll() {
+  if (!db()) return;
+  try {
+    while (active < CONCURRENCY) {
+      // Take the slot before awaiting, or the interval and a finishing job can both claim past the limit
+      active++;
+      const job = await claimNext().catch(err => { active--; throw err; });
+      if (!job) { active--; break; }
+      run(job)
+        .catch(err => console.error(`[gateway] job ${job.id} error:`, err?.message || err))
+        .finally(() => { active--; setImmediate(poll); });
+    }
+  } catch (err: any) {
+    console.error('[gateway] job poll error:', err?.message || err);
+  }
+}
+
+/**
+ * Fail jobs whose worker stopped heartbeating (e.g. gateway restart). They are
+ * not rerun: the agent may already have done the work, as with a timeout.
+ */
+async function recoverStale() {
+  if (!db()) return;
+  try {
+    const { rows } = await db()!.query(
+      `UPDATE workflow_state.executions
+          SET status = 'failed', completed_at = NOW(),
+              error_message = 'Worker stopped while running (not retried: the agent may already have done the work)'
+        WHERE status = 'running'
+          AND metadata->>'kind' = 'gateway-job'
+          AND COALESCE((metadata->>'heartbeatAt')::timestamptz, started_at) < NOW() - INTERVAL '${STALE_AFTER}'
+        RETURNING *`,
+    );
+    if (rows.length) console.warn(`[gateway] failed ${rows.length} stale job(s)`);
+    for (const row of rows) await sendCallback(row);
+  } catch (err: any) {
+    console.error('[gateway] stale job recovery error:', err?.message || err);
+  }
+}
+
+export function startJobWorker() {
+  if (!db()) return;
+  void recoverStale().then(poll);
+  setInterval(() => void poll(), POLL_INTERVAL_MS).unref();
+  setInterval(() => void recoverStale(), 60_000).unref();
+}
@@ -0,0 +1,108 @@
+/**
+ * Minimal Prometheus registry (text exposition format 0.0.4)
+ *
+ * Counters and histograms keyed by label set, kept in process memory.
+ * Enough for request counts, latency and upstream error rates without
+ * pulling in a client library.
+ */
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels) {
+  return JSON.stringify(Object.keys(labels).sort().map(k => [k, labels[k]]));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}) {
+  const all = { ...labels, ...extra };
+  const parts = Object.keys(all).map(k => `${k}="${String(all[k]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines.join('\n');
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+  constructor(readonly name: string, readonly help: string, readonly bounds: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((b, i) => { if (value <= b) entry.buckets[i]++; });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((b, i) => lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(b) })} ${buckets[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+export const httpRequests = new Counter(
+  'agentbox_gateway_requests_total',
+  'Gateway HTTP requests by agent, route, method and status',
+);
+export const httpDuration = new Histogram(
+  'agentbox_gateway_request_duration_seconds',
+  'Gateway HTTP request latency in seconds',
+  LATENCY_BUCKETS,
+);
+export const upstreamRequests = new Counter(
+  'agentbox_gateway_upstream_requests_total',
+  'Requests proxied to agent services',
+);
+export const upstreamErrors = new Counter(
+  'agentbox_gateway_upstream_errors_total',
+  'Proxied requests that failed (connection error, timeout or 5xx from the agent)',
+);
+export const upstreamDuration = new Histogram(
+  'agentbox_gateway_upstream_duration_seconds',
+  'Time until the agent service responded, in seconds',
+  LATENCY_BUCKETS,
+);
+export const upstreamRetries = new Counter(
+  'agentbox_gateway_upstream_retries_total',
+  'Proxied requests retried after a connection error or 503',
+);
+export const circuitOpened = new Counter(
+  'agentbox_gateway_circuit_opened_total',
+  'Times an agent circuit breaker opened',
+);
+export const idempotentReplays = new Counter(
+  'agentbox_gateway_idempotent_replays_total',
+  'Requests answered from a stored Idempotency-Key result',
+);
+
+const registry: Array<Counter | Histogram> = [
+  httpRequests, httpDuration, upstreamRequests, upstreamErrors, upstreamDuration,
+  upstreamRetries, circuitOpened, idempotentReplays,
+];
+
+export function renderMetrics() {
+  return registry.map(m => m.render()).join('\n\n') + '\n';
+}
@@ -0,0 +1,240 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { authenticate, callerOf, hasScope, requireScope } from './auth.js';
+import { rateLimit, recordTokenUsage } from './ratelimit.js';
+import { idempotent } from './idempotency.js';
+import { recordUpstream } from './analytics.js';
+import { getAgent, listAgents, resolveAgent } from './registry.js';
+import { fetchAgent, upstreamHeaders, upstreamFailed } from './upstream.js';
+
+/**
+ * OpenAI-compatible facade
+ *
+ * GET  /v1/models               → every registered agent with a chat route, as a model
+ * GET  /v1/models/:model
+ * POST /v1/chat/completions     → { model: '<agent>', messages, stream?, stream_options? }
+ *
+ * Requests go to the agent's /chat with the same auth (x-api-key or Bearer),
+ * scopes (agents:<model>:chat), rate limits and Idempotency-Key handling as
+ * /agents/:agentName/chat. Sampling parameters (temperature, max_tokens, ...)
+ * are accepted and ignored; tool use happens inside the agent, so responses
+ * never contain tool_calls.
+ */
+
+export const openaiRouter = Router();
+
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  409: 'conflict_error',
+  422: 'invalid_request_error',
+  429: 'rate_limit_error',
+};
+
+function errorBody(status: number, message: string, code: string | null = null) {
+  return { error: { message, type: ERROR_TYPES[status] ?? 'server_error', param: null, code } };
+}
+
+// Reshape the gateway's { error, message?, details? } bodies (auth, limits, proxy) into OpenAI errors
+openaiRouter.use((_req: Request, res: Response, next: NextFunction) => {
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    if (res.statusCode >= 400 && typeof body?.error === 'string') {
+      const detail = body.message ?? body.details;
+      return json(errorBody(res.statusCode, detail ? `${body.error}: ${detail}` : body.error, body.scope ?? null));
+    }
+    return json(body);
+  };
+  next();
+});
+
+openaiRouter.use(authenticate());
+
+function toModel(agent: { name: string }) {
+  return { id: agent.name, object: 'model', created: 0, owned_by: 'agentbox' };
+}
+
+/** Agents with a chat route that the caller may use */
+function visibleAgents(res: Response) {
+  const caller = callerOf(res);
+  return listAgents().filter(a => a.routes.includes('chat') && (!caller || hasScope(caller.scopes, `agents:${a.name}:chat`)));
+}
+
+openaiRouter.get('/models', (_req, res) => {
+  res.json({ object: 'list', data: visibleAgents(res).map(toModel) });
+});
+
+openaiRouter.get('/models/:model', (req, res) => {
+  const agent = visibleAgents(res).find(a => a.name === req.params.model);
+  if (!agent) return res.status(404).json(errorBody(404, `The model '${req.params.model}' does not exist`, 'model_not_found'));
+  res.json(toModel(agent));
+});
+
+/** OpenAI message content may be a string or an array of parts; agents take plain text */
+function toAgentMessages(messages: any[]) {
+  const out: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+  for (const m of messages) {
+    const role = m?.role === 'developer' ? 'system' : m?.role;
+    if (!['system', 'user', 'assistant'].includes(role)) continue;
+    const content = typeof m.content === 'string'
+      ? m.content
+      : Array.isArray(m.content)
+        ? m.content.filter((p: any) => p?.type === 'text').map((p: any) => p.text).join('\n')
+        : '';
+    if (content) out.push({ role, content });
+  }
+  return out;
+}
+
+function toUsage(usage: any) {
+  if (!usage) return undefined;
+  const prompt = usage.inputTokens ?? 0;
+  const completion = usage.outputTokens ?? 0;
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: usage.totalTokens ?? prompt + completion };
+}
+
+openaiRouter.post(
+  '/chat/completions',
+  (req, res, next) => {
+    const { model, messages } = req.body ?? {};
+    if (typeof model !== 'string' || !model) {
+      return res.status(400).json(errorBody(400, 'you must provide a model parameter'));
+    }
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return res.status(400).json(errorBody(400, "'messages' must be a non-empty array"));
+    }
+    if (!getAgent(model)) {
+      return res.status(404).json(errorBody(404, `The model '${model}' does not exist`, 'model_not_found'));
+    }
+    next();
+  },
+  requireScope(req => `agents:${req.body.model}:chat`),
+  idempotent(),
+  rateLimit(req => req.body.model),
+  async (req, res) => {
+    const { model, stream } = req.body;
+    const agent = resolveAgent(res, model, 'chat');
+    if (!agent) return;
+
+    const messages = toAgentMessages(req.body.messages);
+    if (messages.length === 0) {
+      return res.status(400).json(errorBody(400, 'messages must contain at least one text message'));
+    }
+
+    const id = `chatcmpl-${randomUUID().replace(/-/g, '')}`;
+    const created = Math.floor(Date.now() / 1000);
+    if (stream) return streamCompletion(req, res, { id, created, model, url: `${agent.baseUrl}/chat`, messages });
+
+    const started = Date.now();
+    try {
+      const r = await fetchAgent(model, `${agent.baseUrl}/chat`, {
+        method: 'POST',
+        headers: upstreamHeaders(res),
+        body: JSON.stringify({ messages }),
+      }, { timeoutMs: 60_000 });
+      const data: any = await r.json().catch(() => ({}));
+      recordUpstream(res, model, r.status, Date.now() - started);
+      if (!r.ok) return res.status(r.status).json({ error: data?.error || `Agent returned ${r.status}`, message: data?.message });
+
+      recordTokenUsage(req, res, data?.metadata?.usage?.totalTokens);
+      return res.json({
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content: data.response ?? '' }, logprobs: null, finish_reason: 'stop' }],
+        usage: toUsage(data?.metadata?.usage) ?? { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      });
+    } catch (err: any) {
+      return upstreamFailed(res, model, `${model} (v1)`, started, err);
+    }
+  },
+);
+
+/**
+ * Translate the agent's SSE events (text-delta, usage, done, error) into
+ * chat.completion.chunk events, ending with `data: [DONE]`.
+ */
+async function streamCompletion(
+  req: Request,
+  res: Response,
+  c: { id: string; created: number; model: string; url: string; messages: unknown[] },
+) {
+  const includeUsage = Boolean(req.body.stream_options?.include_usage);
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const started = Date.now();
+
+  let r: globalThis.Response;
+  try {
+    r = await fetchAgent(c.model, c.url, {
+      method: 'POST',
+      headers: upstreamHeaders(res, { Accept: 'text/event-stream' }),
+      body: JSON.stringify({ messages: c.messages }),
+    }, { timeoutMs: 60_000, headersOnly: true, signal: controller.signal });
+  } catch (err: any) {
+    if (controller.signal.aborted) return;
+    return upstreamFailed(res, c.model, `${c.model} (v1)`, started, err);
+  }
+  recordUpstream(res, c.model, r.status, Date.now() - started);
+
+  if (!r.ok || !r.body || !(r.headers.get('content-type') || '').includes('text/event-stream')) {
+    const data: any = await r.json().catch(() => ({}));
+    return res.status(r.ok ? 502 : r.status).json({ error: data?.error || `Agent returned ${r.status}`, message: data?.message });
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+    send({ id: c.id, object: 'chat.completion.chunk', created: c.created, model: c.model, choices: [{ index: 0, delta, logprobs: null, finish_reason: finishReason }] });
+
+  chunk({ role: 'assistant', content: '' });
+
+  let usage: any = null;
+  let failed = false;
+  let buffer = '';
+  const decoder = new TextDecoder();
+  try {
+    for await (const part of r.body as any as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(part, { stream: true });
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event = /^event: (.*)$/m.exec(raw)?.[1];
+        const dataLine = /^data: (.*)$/m.exec(raw)?.[1];
+        let data: any = {};
+        try { data = dataLine ? JSON.parse(dataLine) : {}; } catch { continue; }
+
+        if (event === 'text-delta' && data.text) chunk({ content: data.text });
+        else if (event === 'usage') usage = data;
+        else if (event === 'error') {
+          failed = true;
+          send(errorBody(502, data.message ? `${data.error}: ${data.message}` : data.error || 'Agent stream failed'));
+        } else if (event === 'done') {
+          chunk({}, 'stop');
+          if (includeUsage) {
+            send({ id: c.id, object: 'chat.completion.chunk', created: c.created, model: c.model, choices: [], usage: toUsage(usage) ?? null });
+          }
+        }
+      }
+    }
+    recordTokenUsage(req, res, usage?.totalTokens);
+    if (!failed) res.write('data: [DONE]\n\n');
+  } catch (err: any) {
+    if (!controller.signal.aborted) {
+      console.error(`[gateway] v1 stream error → ${c.model}:`, err?.message || err);
+      send(errorBody(502, `Agent stream failed: ${err?.message || err}`));
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,224 @@
+import type { Request, Response, NextFunction } from 'express';
+import { redis } from './redis.js';
+import { callerOf } from './auth.js';
+import { getAgent } from './registry.js';
+
+/**
+ * Rate limits + daily quotas
+ *
+ * - Token bucket per caller (API key, master secret, or client IP when auth is off)
+ * - Token bucket per agent (shared by all callers)
+ * - Daily request and LLM token quotas per caller (UTC day)
+ *
+ * State lives in Redis when REDIS_URL is set (shared across gateway instances),
+ * otherwise in process memory. If Redis errors mid-flight, that check falls
+ * back to memory rather than failing the request.
+ *
+ * Rejections are 429 with Retry-After; allowed requests get X-RateLimit-* headers
+ * for the caller's bucket.
+ */
+
+const LIMITS = {
+  keyPerMinute: Number(process.env.RATE_LIMIT_KEY_PER_MINUTE || 60),
+  agentPerMinute: Number(process.env.RATE_LIMIT_AGENT_PER_MINUTE || 120),
+  dailyRequests: Number(process.env.QUOTA_DAILY_REQUESTS || 2_000),
+  dailyTokens: Number(process.env.QUOTA_DAILY_TOKENS || 2_000_000),
+};
+
+interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;   // until one token is available (0 when allowed)
+  resetMs: number;        // until the bucket is full again
+}
+
+interface LimitStore {
+  take(key: string, capacity: number, perMinute: number): Promise<BucketResult>;
+  getCounter(key: string): Promise<number>;
+  incrCounter(key: string, by: number, ttlSec: number): Promise<number>;
+}
+
+function bucketResult(tokens: number, allowed: boolean, capacity: number, ratePerMs: number): BucketResult {
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / ratePerMs),
+    resetMs: Math.ceil((capacity - tokens) / ratePerMs),
+  };
+}
+
+// In-memory store: single node only
+class MemoryStore implements LimitStore {
+  private buckets = new Map<string, { tokens: number; ts: number }>();
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async take(key: string, capacity: number, perMinute: number) {
+    const now = Date.now();
+    const rate = perMinute / 60_000;
+    const b = this.buckets.get(key) ?? { tokens: capacity, ts: now };
+    b.tokens = Math.min(capacity, b.tokens + (now - b.ts) * rate);
+    b.ts = now;
+    const allowed = b.tokens >= 1;
+    if (allowed) b.tokens -= 1;
+    this.buckets.set(key, b);
+    return bucketResult(b.tokens, allowed, capacity, rate);
+  }
+
+  async getCounter(key: string) {
+    const c = this.counters.get(key);
+    return c && c.expiresAt > Date.now() ? c.value : 0;
+  }
+
+  async incrCounter(key: string, by: number, ttlSec: number) {
+    const value = (await this.getCounter(key)) + by;
+    this.counters.set(key, { value, expiresAt: Date.now() + ttlSec * 1000 });
+    return value;
+  }
+
+  sweep() {
+    const now = Date.now();
+    for (const [k, c] of this.counters) if (c.expiresAt <= now) this.counters.delete(k);
+    // Full buckets carry no state worth keeping
+    for (const [k, b] of this.buckets) if (now - b.ts > 10 * 60_000) this.buckets.delete(k);
+  }
+}
+
+// Atomic token bucket: KEYS[1]=bucket, ARGV = capacity, rate (tokens/ms), now (ms)
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local b = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(b[1]) or capacity
+local ts = tonumber(b[2]) or now
+tokens = math.min(capacity, tokens + (now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+class RedisStore implements LimitStore {
+  async take(key: string, capacity: number, perMinute: number) {
+    const rate = perMinute / 60_000;
+    const [allowed, tokens] = (await redis()!.eval(TAKE_SCRIPT, 1, `ratelimit:${key}`, capacity, rate, Date.now())) as [number, string];
+    return bucketResult(Number(tokens), allowed === 1, capacity, rate);
+  }
+
+  async getCounter(key: string) {
+    return Number((await redis()!.get(`quota:${key}`)) ?? 0);
+  }
+
+  async incrCounter(key: string, by: number, ttlSec: number) {
+    const k = `quota:${key}`;
+    const [[, value]] = (await redis()!.multi().incrby(k, by).expire(k, ttlSec).exec()) as [[unknown, number]];
+    return Number(value);
+  }
+}
+
+const memory = new MemoryStore();
+const shared = new RedisStore();
+setInterval(() => memory.sweep(), 60_000).unref();
+
+/** Run against Redis when configured, falling back to memory on error */
+async function withStore<T>(fn: (store: LimitStore) => Promise<T>): Promise<T> {
+  if (!redis()) return fn(memory);
+  try {
+    return await fn(shared);
+  } catch (err: any) {
+    console.error('[gateway] rate limit store error (using memory):', err?.message || err);
+    return fn(memory);
+  }
+}
+
+function utcDay() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight() {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/** Stable identity for limits: API key id, the master secret, or the client IP */
+export function limitIdentity(req: Request, res: Response) {
+  const caller = callerOf(res);
+  if (caller) return caller.keyId ? `key:${caller.keyId}` : `key:${caller.name}`;
+  return `ip:${req.ip}`;
+}
+
+function reject(res: Response, retryAfterSec: number, scope: string, limit: number, message: string) {
+  res.setHeader('Retry-After', String(Math.max(1, retryAfterSec)));
+  res.setHeader('X-RateLimit-Limit', String(limit));
+  res.setHeader('X-RateLimit-Remaining', '0');
+  res.setHeader('X-RateLimit-Reset', String(Math.max(1, retryAfterSec)));
+  return res.status(429).json({ error: 'Too Many Requests', scope, message, retryAfter: Math.max(1, retryAfterSec) });
+}
+
+/**
+ * Enforce limits for a proxied agent call. The agent name comes from the route
+ * params (or a fixed name); unknown agents get a 404 before any bucket is made.
+ */
+export function rateLimit(agentOf: (req: Request) => string = req => req.params.agentName) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const id = limitIdentity(req, res);
+    const agent = agentOf(req);
+    if (!getAgent(agent)) return res.status(404).json({ error: `Unknown agent '${agent}'` });
+    const day = utcDay();
+
+    try {
+      const [requestsToday, tokensToday] = await withStore(store =>
+        Promise.all([store.getCounter(`${id}:requests:${day}`), store.getCounter(`${id}:tokens:${day}`)]),
+      );
+      if (requestsToday >= LIMITS.dailyRequests) {
+        return reject(res, secondsUntilUtcMidnight(), 'daily-requests', LIMITS.dailyRequests,
+          `Daily request quota of ${LIMITS.dailyRequests} reached`);
+      }
+      if (tokensToday >= LIMITS.dailyTokens) {
+        return reject(res, secondsUntilUtcMidnight(), 'daily-tokens', LIMITS.dailyTokens,
+          `Daily token quota of ${LIMITS.dailyTokens} reached`);
+      }
+
+      const keyBucket = await withStore(store => store.take(id, LIMITS.keyPerMinute, LIMITS.keyPerMinute));
+      if (!keyBucket.allowed) {
+        return reject(res, Math.ceil(keyBucket.retryAfterMs / 1000), 'key', LIMITS.keyPerMinute,
+          `Rate limit of ${LIMITS.keyPerMinute} requests/minute exceeded`);
+      }
+      const agentBucket = await withStore(store => store.take(`agent:${agent}`, LIMITS.agentPerMinute, LIMITS.agentPerMinute));
+      if (!agentBucket.allowed) {
+        return reject(res, Math.ceil(agentBucket.retryAfterMs / 1000), 'agent', LIMITS.agentPerMinute,
+          `Agent '${agent}' is at its limit of ${LIMITS.agentPerMinute} requests/minute`);
+      }
+
+      await withStore(store => store.incrCounter(`${id}:requests:${day}`, 1, 2 * 86_400));
+
+      res.setHeader('X-RateLimit-Limit', String(LIMITS.keyPerMinute));
+      res.setHeader('X-RateLimit-Remaining', String(keyBucket.remaining));
+      res.setHeader('X-RateLimit-Reset', String(Math.ceil(keyBucket.resetMs / 1000)));
+      res.setHeader('X-Quota-Requests-Remaining', String(Math.max(0, LIMITS.dailyRequests - requestsToday - 1)));
+      res.setHeader('X-Quota-Tokens-Remaining', String(Math.max(0, LIMITS.dailyTokens - tokensToday)));
+      next();
+    } catch (err: any) {
+      // Limits are a safety net; never take the gateway down with them
+      console.error('[gateway] rate limit error:', err?.message || err);
+      next();
+    }
+  };
+}
+
+/** Count LLM tokens used by a finished call against the caller's daily quota */
+export function recordTokenUsage(req: Request, res: Response, tokens: number | null | undefined) {
+  addTokenUsage(limitIdentity(req, res), tokens);
+}
+
+/** Same as recordTokenUsage, for work done outside the request (background jobs) */
+export function addTokenUsage(identity: string, tokens: number | null | undefined) {
+  if (!tokens || tokens <= 0) return;
+  withStore(store => store.incrCounter(`${identity}:tokens:${utcDay()}`, Math.round(tokens), 2 * 86_400))
+    .catch(err => console.error('[gateway] token quota update failed:', err?.message || err));
+}
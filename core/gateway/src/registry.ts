@@ -0,0 +1,242 @@
+import { Router, type Response } from 'express';
+import { readFileSync } from 'fs';
+import { requireAdmin } from './auth.js';
+
+/**
+ * Agent Registry
+ *
+ * Agents come from three places (later entries override earlier ones by name,
+ * except that self-registration can't replace an AGENTS_CONFIG entry):
+ * 1. Built-in defaults (research, content) using AGENT_*_URL env vars
+ * 2. A JSON config file at AGENTS_CONFIG: [{ name, baseUrl, capabilities?, routes? }]
+ * 3. Self-registration via POST /registry/agents (re-sent periodically as a heartbeat)
+ *
+ * Every agent's /health is probed on an interval so GET /agents reports the
+ * real status, and calls to an unhealthy agent fail fast with 503.
+ */
+
+export type AgentStatus = 'unknown' | 'healthy' | 'unhealthy';
+
+export interface AgentEntry {
+  name: string;
+  baseUrl: string;
+  capabilities: string[];
+  routes: string[];                      // POST routes proxied as /agents/:name/:route
+  source: 'default' | 'config' | 'registered';
+  status: AgentStatus;
+  lastSeen: string | null;               // last successful health probe or registration
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  registeredAt: string | null;
+}
+
+export interface AgentDefinition {
+  name: string;
+  baseUrl: string;
+  capabilities?: string[];
+  routes?: string[];
+}
+
+const PROBE_INTERVAL_MS = Number(process.env.AGENT_HEALTH_INTERVAL_MS || 10_000);
+const PROBE_TIMEOUT_MS = Number(process.env.AGENT_HEALTH_TIMEOUT_MS || 3_000);
+// Self-registered agents that stop heartbeating are dropped after this long
+const REGISTRATION_TTL_MS = Number(process.env.AGENT_REGISTRATION_TTL_MS || 5 * 60_000);
+
+const NAME_RE = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+const agents = new Map<string, AgentEntry>();
+
+const DEFAULT_AGENTS: AgentDefinition[] = [
+  {
+    name: 'research',
+    baseUrl: process.env.AGENT_RESEARCH_URL || 'http://agentbox-research:3001',
+    capabilities: ['research', 'web-search', 'citations'],
+    routes: ['chat'],
+  },
+  {
+    name: 'content',
+    baseUrl: process.env.AGENT_CONTENT_URL || 'http://agentbox-content:3104',
+    capabilities: ['content-generation', 'airtable'],
+    routes: ['chat', 'generate', 'generate-batch', 'check', 'purge-cache'],
+  },
+  {
+    name: 'coordinator',
+    baseUrl: process.env.AGENT_COORDINATOR_URL || 'http://agentbox-coordinator:3105',
+    capabilities: ['orchestration', 'research', 'content-generation'],
+    routes: ['coordinate'],
+  },
+];
+
+/** Validate an agent definition; returns an error message or null */
+export function validateDefinition(def: any): string | null {
+  if (!def || typeof def !== 'object') return 'Expected an object';
+  if (typeof def.name !== 'string' || !NAME_RE.test(def.name)) return 'name must match /^[a-z0-9][a-z0-9-]*$/';
+  if (typeof def.baseUrl !== 'string') return 'baseUrl is required';
+  try {
+    const u = new URL(def.baseUrl);
+    if (u.protocol !== 'http:' && u.protocol !== 'https:') return 'baseUrl must be http(s)';
+  } catch {
+    return 'baseUrl must be a valid URL';
+  }
+  for (const key of ['capabilities', 'routes'] as const) {
+    if (def[key] !== undefined && (!Array.isArray(def[key]) || !def[key].every((v: unknown) => typeof v === 'string'))) {
+      return `${key} must be an array of strings`;
+    }
+  }
+  if (def.routes?.some((r: string) => !NAME_RE.test(r))) return 'routes must be simple path segments (e.g. "chat")';
+  return null;
+}
+
+function upsert(def: AgentDefinition, source: AgentEntry['source']) {
+  const existing = agents.get(def.name);
+  const baseUrl = def.baseUrl.replace(/\/+$/, '');
+  const sameTarget = existing?.baseUrl === baseUrl;
+  const now = new Date().toISOString();
+
+  const entry: AgentEntry = {
+    name: def.name,
+    baseUrl,
+    capabilities: def.capabilities ?? existing?.capabilities ?? [],
+    routes: def.routes ?? existing?.routes ?? ['chat'],
+    source,
+    // Keep probe state when only metadata changed
+    status: sameTarget ? existing!.status : 'unknown',
+    lastSeen: source === 'registered' ? now : sameTarget ? existing!.lastSeen : null,
+    lastCheckedAt: sameTarget ? existing!.lastCheckedAt : null,
+    lastError: sameTarget ? existing!.lastError : null,
+    registeredAt: source === 'registered' ? (existing?.registeredAt ?? now) : null,
+  };
+  agents.set(def.name, entry);
+  return entry;
+}
+
+function loadConfigFile(path: string): AgentDefinition[] {
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    const list = Array.isArray(parsed) ? parsed : parsed?.agents;
+    if (!Array.isArray(list)) throw new Error('expected an array or { agents: [...] }');
+    return list.filter((def: any) => {
+      const problem = validateDefinition(def);
+      if (problem) console.error(`[gateway] registry: skipping agent in ${path}: ${problem}`);
+      return !problem;
+    });
+  } catch (err: any) {
+    console.error(`[gateway] registry: failed to load ${path}:`, err?.message || err);
+    return [];
+  }
+}
+
+export function loadAgents() {
+  DEFAULT_AGENTS.forEach(def => upsert(def, 'default'));
+  const configPath = process.env.AGENTS_CONFIG;
+  if (configPath) loadConfigFile(configPath).forEach(def => upsert(def, 'config'));
+}
+
+export function registerAgent(def: AgentDefinition) {
+  return upsert(def, 'registered');
+}
+
+/** Remove a self-registered agent (falls back to the built-in default of the same name, if any) */
+export function deregisterAgent(name: string) {
+  const entry = agents.get(name);
+  if (!entry || entry.source !== 'registered') return false;
+  agents.delete(name);
+  const fallback = DEFAULT_AGENTS.find(def => def.name === name);
+  if (fallback) upsert(fallback, 'default');
+  return true;
+}
+
+export function getAgent(name: string) {
+  return agents.get(name) ?? null;
+}
+
+export function listAgents() {
+  return [...agents.values()];
+}
+
+/**
+ * Look up an agent that supports `route`; sends 404/503 and returns null otherwise.
+ * Unhealthy agents fail fast instead of waiting out the proxy timeout.
+ */
+export function resolveAgent(res: Response, agentName: string, route: string): AgentEntry | null {
+  const agent = getAgent(agentName);
+  if (!agent) {
+    res.status(404).json({ error: `Unknown agent '${agentName}'` });
+    return null;
+  }
+  if (!agent.routes.includes(route)) {
+    res.status(404).json({ error: `Agent '${agentName}' does not support '${route}'`, routes: agent.routes });
+    return null;
+  }
+  if (agent.status === 'unhealthy') {
+    res.setHeader('Retry-After', '10');
+    res.status(503).json({ error: 'Agent unhealthy', agent: agentName, lastSeen: agent.lastSeen, details: agent.lastError });
+    return null;
+  }
+  return agent;
+}
+
+async function probe(entry: AgentEntry) {
+  const checkedAt = new Date().toISOString();
+  try {
+    const r = await fetch(`${entry.baseUrl}/health`, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    entry.status = r.ok ? 'healthy' : 'unhealthy';
+    entry.lastError = r.ok ? null : `Health check returned ${r.status}`;
+    if (r.ok) entry.lastSeen = checkedAt;
+  } catch (err: any) {
+    entry.status = 'unhealthy';
+    entry.lastError = err?.message || String(err);
+  }
+  entry.lastCheckedAt = checkedAt;
+}
+
+async function probeAll() {
+  const now = Date.now();
+  for (const entry of listAgents()) {
+    const lastSeen = entry.lastSeen ? Date.parse(entry.lastSeen) : 0;
+    if (entry.source === 'registered' && now - lastSeen > REGISTRATION_TTL_MS) {
+      console.warn(`[gateway] registry: dropping '${entry.name}' (no heartbeat for ${Math.round((now - lastSeen) / 1000)}s)`);
+      deregisterAgent(entry.name);
+    }
+  }
+  await Promise.all(listAgents().map(probe));
+}
+
+export function startHealthProbes() {
+  void probeAll();
+  setInterval(() => void probeAll(), PROBE_INTERVAL_MS).unref();
+}
+
+/**
+ * Registration routes (admin credential required — agents send GATEWAY_SECRET)
+ *
+ * POST   /registry/agents        { name, baseUrl, capabilities?, routes? }
+ * DELETE /registry/agents/:name
+ */
+export const registryRouter = Router();
+
+registryRouter.use(requireAdmin());
+
+registryRouter.post('/agents', (req, res) => {
+  const problem = validateDefinition(req.body);
+  if (problem) {
+    return res.status(400).json({
+      error: `Invalid agent definition: ${problem}`,
+      example: { name: 'recruiting', baseUrl: 'http://agentbox-recruiting:3105', capabilities: ['outreach'], routes: ['chat'] },
+    });
+  }
+  const { name, baseUrl, capabilities, routes } = req.body;
+  const existing = getAgent(name);
+  if (existing?.source === 'config') {
+    return res.status(409).json({ error: `Agent '${name}' is defined in AGENTS_CONFIG and can't be re-registered` });
+  }
+  const entry = registerAgent({ name, baseUrl, capabilities, routes });
+  return res.status(existing?.source === 'registered' ? 200 : 201).json({ agent: entry });
+});
+
+registryRouter.delete('/agents/:name', (req, res) => {
+  if (!deregisterAgent(req.params.name)) {
+    return res.status(404).json({ error: `No self-registered agent '${req.params.name}'` });
+  }
+  return res.json({ deregistered: true, name: req.params.name });
+});
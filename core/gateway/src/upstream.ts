@@ -0,0 +1,161 @@
+import type { Response as ExpressResponse } from 'express';
+import { upstreamRetries, circuitOpened } from './metrics.js';
+import { recordUpstream } from './analytics.js';
+import { callerOf } from './auth.js';
+
+/**
+ * Resilient calls to agent services
+ *
+ * - Retries with jittered exponential backoff, but only when the agent cannot
+ *   have processed the request: connection failures (refused, DNS, connect
+ *   timeout) and 503 responses. Timeouts and other errors are never retried,
+ *   so a slow /generate is not run twice.
+ * - Per-agent circuit breaker: after BREAKER_THRESHOLD consecutive failures the
+ *   agent is "open" for BREAKER_COOLDOWN_MS and calls fail fast (err.circuitOpen).
+ *   After the cooldown a single trial call decides whether it closes again.
+ */
+
+const RETRIES = Number(process.env.PROXY_RETRIES ?? 2);
+const RETRY_BASE_MS = Number(process.env.PROXY_RETRY_BASE_MS || 250);
+const RETRY_MAX_MS = 2_000;
+const BREAKER_THRESHOLD = Number(process.env.BREAKER_THRESHOLD || 5);
+const BREAKER_COOLDOWN_MS = Number(process.env.BREAKER_COOLDOWN_MS || 15_000);
+
+// Error codes raised before the request reached the agent
+const CONNECT_ERRORS = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_CONNECT_TIMEOUT']);
+
+interface Circuit {
+  failures: number;
+  openUntil: number;   // 0 when closed
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, Circuit>();
+
+function circuitOf(agent: string) {
+  let c = circuits.get(agent);
+  if (!c) {
+    c = { failures: 0, openUntil: 0, trialInFlight: false };
+    circuits.set(agent, c);
+  }
+  return c;
+}
+
+export function circuitState(agent: string): 'closed' | 'open' | 'half-open' {
+  const c = circuits.get(agent);
+  if (!c || c.openUntil === 0) return 'closed';
+  return Date.now() < c.openUntil ? 'open' : 'half-open';
+}
+
+function onSuccess(agent: string) {
+  const c = circuitOf(agent);
+  c.failures = 0;
+  c.openUntil = 0;
+  c.trialInFlight = false;
+}
+
+function onFailure(agent: string) {
+  const c = circuitOf(agent);
+  c.failures++;
+  c.trialInFlight = false;
+  if (c.openUntil !== 0 || c.failures >= BREAKER_THRESHOLD) {
+    if (c.openUntil === 0 || Date.now() >= c.openUntil) circuitOpened.inc({ agent });
+    c.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    console.warn(`[gateway] circuit open for '${agent}' (${c.failures} consecutive failures)`);
+  }
+}
+
+/** Throws (err.circuitOpen, err.retryAfterMs) when calls to the agent should fail fast */
+function admit(agent: string) {
+  const c = circuitOf(agent);
+  if (c.openUntil === 0) return;
+  const now = Date.now();
+  if (now < c.openUntil || c.trialInFlight) {
+    throw Object.assign(new Error(`Circuit open for agent '${agent}'`), {
+      circuitOpen: true,
+      retryAfterMs: Math.max(1_000, c.openUntil - now),
+    });
+  }
+  c.trialInFlight = true;
+}
+
+/** The request never reached the agent (safe to retry: no work was done) */
+export function isConnectError(err: any) {
+  return CONNECT_ERRORS.has(err?.cause?.code) || CONNECT_ERRORS.has(err?.code);
+}
+
+function backoff(attempt: number) {
+  // Full jitter: uniform in [0, min(max, base * 2^attempt)]
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+export interface AgentFetchOptions {
+  timeoutMs: number;
+  /** Only bound the wait for response headers (for streamed bodies) */
+  headersOnly?: boolean;
+  /** Aborts the call and any pending retry (e.g. the client disconnected) */
+  signal?: AbortSignal;
+}
+
+/**
+ * fetch() against an agent service with retries and the circuit breaker.
+ * Resolves with the agent's response (including non-2xx); rejects on
+ * connection errors, timeouts or an open circuit.
+ */
+export async function fetchAgent(agent: string, url: string, init: RequestInit, opts: AgentFetchOptions): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    admit(agent);
+
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(Object.assign(new Error('Timed out waiting for agent response'), { name: 'TimeoutError' })), opts.timeoutMs);
+    const signal = opts.signal ? AbortSignal.any([opts.signal, timeout.signal]) : timeout.signal;
+
+    let keepTimer = false;
+    try {
+      const r = await fetch(url, { ...init, signal });
+      if (r.status !== 502 && r.status !== 503 && r.status !== 504) {
+        onSuccess(agent);
+        keepTimer = !opts.headersOnly;
+        return r;
+      }
+      onFailure(agent);
+      if (r.status !== 503 || attempt >= RETRIES) {
+        keepTimer = !opts.headersOnly;
+        return r;
+      }
+      await r.body?.cancel().catch(() => {});
+    } catch (err: any) {
+      // The client going away says nothing about the agent
+      if (opts.signal?.aborted) circuitOf(agent).trialInFlight = false;
+      else onFailure(agent);
+      if (!isConnectError(err) || attempt >= RETRIES || opts.signal?.aborted) throw err;
+    } finally {
+      // Otherwise the timeout keeps covering the body read
+      if (keepTimer) timer.unref();
+      else clearTimeout(timer);
+    }
+
+    upstreamRetries.inc({ agent });
+    await new Promise(r => setTimeout(r, backoff(attempt)));
+    if (opts.signal?.aborted) throw opts.signal.reason;
+  }
+}
+
+/** Headers for upstream agent calls; the caller's user id scopes thread storage */
+export function upstreamHeaders(res: ExpressResponse, extra: Record<string, string> = {}) {
+  const userId = callerOf(res)?.userId;
+  return { 'Content-Type': 'application/json', ...(userId ? { 'X-User-Id': userId } : {}), ...extra };
+}
+
+/** Map a failed agent call to 503 (circuit open) or 502 (unreachable / timed out) */
+export function upstreamFailed(res: ExpressResponse, agentName: string, target: string, started: number, err: any) {
+  if (err?.circuitOpen) {
+    res.locals.agent = agentName;
+    const retryAfter = Math.ceil(err.retryAfterMs / 1000);
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(503).json({ error: 'Agent temporarily unavailable (circuit open)', agent: agentName, retryAfter });
+  }
+  recordUpstream(res, agentName, null, Date.now() - started, err?.message);
+  console.error(`[gateway] proxy error → ${target}:`, err?.message || err);
+  return res.status(502).json({ error: 'Agent unavailable', agent: agentName, details: err?.message });
+}
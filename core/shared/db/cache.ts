@@ -0,0 +1,121 @@
+import { redis } from './redis.js';
+
+/**
+ * JSON key/value cache for agent services (optional-first)
+ *
+ * Entries live in Redis when REDIS_URL is set (shared by every agent
+ * instance), otherwise in process memory, bounded to CACHE_MAX_ENTRIES.
+ * Redis errors fall back to memory so a cache outage never fails a request.
+ */
+
+const MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES || 5000);
+
+interface CacheStore {
+  getMany(keys: string[]): Promise<Array<string | null>>;
+  set(key: string, value: string, ttlSec: number): Promise<void>;
+  remove(keys: string[]): Promise<number>;
+  clear(prefix: string): Promise<number>;
+}
+
+class MemoryStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async getMany(keys: string[]) {
+    const now = Date.now();
+    return keys.map(k => {
+      const e = this.entries.get(k);
+      return e && e.expiresAt > now ? e.value : null;
+    });
+  }
+
+  async set(key: string, value: string, ttlSec: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSec * 1000 });
+    // Maps iterate in insertion order: drop the oldest writes first
+    for (const k of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(k);
+    }
+  }
+
+  async remove(keys: string[]) {
+    return keys.filter(k => this.entries.delete(k)).length;
+  }
+
+  async clear(prefix: string) {
+    let removed = 0;
+    for (const k of this.entries.keys()) if (k.startsWith(prefix) && this.entries.delete(k)) removed++;
+    return removed;
+  }
+
+  sweep() {
+    const now = Date.now();
+    for (const [k, e] of this.entries) if (e.expiresAt <= now) this.entries.delete(k);
+  }
+}
+
+class RedisStore implements CacheStore {
+  async getMany(keys: string[]) {
+    return keys.length ? redis()!.mget(...keys) : [];
+  }
+
+  async set(key: string, value: string, ttlSec: number) {
+    await redis()!.set(key, value, 'EX', ttlSec);
+  }
+
+  async remove(keys: string[]) {
+    return keys.length ? redis()!.del(...keys) : 0;
+  }
+
+  async clear(prefix: string) {
+    let removed = 0;
+    let cursor = '0';
+    do {
+      const [next, keys] = await redis()!.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 500);
+      if (keys.length) removed += await redis()!.del(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+    return removed;
+  }
+}
+
+const memory = new MemoryStore();
+const shared = new RedisStore();
+setInterval(() => memory.sweep(), 60_000).unref();
+
+async function withStore<T>(fn: (store: CacheStore) => Promise<T>): Promise<T> {
+  if (!redis()) return fn(memory);
+  try {
+    return await fn(shared);
+  } catch (err: any) {
+    console.error('[db] cache store error (using memory):', err?.message || err);
+    return fn(memory);
+  }
+}
+
+export async function cacheGetMany<T>(keys: string[]): Promise<Array<T | null>> {
+  const raw = await withStore(store => store.getMany(keys));
+  return raw.map(v => {
+    if (v === null) return null;
+    try { return JSON.parse(v) as T; } catch { return null; }
+  });
+}
+
+export async function cacheGet<T>(key: string): Promise<T | null> {
+  return (await cacheGetMany<T>([key]))[0];
+}
+
+export async function cacheSet(key: string, value: unknown, ttlSec: number) {
+  if (ttlSec <= 0) return;
+  await withStore(store => store.set(key, JSON.stringify(value), ttlSec));
+}
+
+/** Remove keys; returns how many existed */
+export async function cacheDelete(keys: string[]) {
+  return withStore(store => store.remove(keys));
+}
+
+/** Remove every key starting with prefix */
+export async function cacheClear(prefix: string) {
+  return withStore(store => store.clear(prefix));
+}
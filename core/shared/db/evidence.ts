@@ -0,0 +1,143 @@
+import { db } from './postgres.js';
+
+/**
+ * Evidence packs in rag_knowledge
+ *
+ * A pack is one rag_knowledge.documents row (source 'evidence-pack', title =
+ * topic, content = summary); each finding becomes one or more chunks whose
+ * metadata carries the claim, evidence, source and confidence. A finding's
+ * `dedupKey` (source + claim + evidence) is checked across all packs, so
+ * re-ingesting the same source doesn't store or embed it twice.
+ */
+
+export const EVIDENCE_SOURCE = 'evidence-pack';
+
+export interface NewEvidenceChunk {
+  content: string;
+  embedding: string | null;
+  metadata: Record<string, unknown> & { dedupKey: string };
+}
+
+/** The pack's documents row, described from the findings actually stored */
+export interface EvidenceDocument {
+  summary: string;
+  embedding: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface NewEvidencePack {
+  topic: string;
+  chunks: NewEvidenceChunk[];
+  /** Called inside the transaction with the dedup keys another pack stored meanwhile */
+  document: (raced: Set<string>) => EvidenceDocument;
+}
+
+const LIST_COLUMNS = `d.id, d.title AS topic, d.metadata, d.created_at,
+       (SELECT count(*)::int FROM rag_knowledge.chunks c WHERE c.document_id = d.id) AS chunks`;
+
+/** Dedup key → id of the pack already holding that finding */
+export async function existingFindings(keys: string[]) {
+  if (keys.length === 0) return new Map<string, string>();
+  const { rows } = await db()!.query(
+    `SELECT DISTINCT ON (c.metadata->>'dedupKey') c.metadata->>'dedupKey' AS key, d.id AS pack_id
+       FROM rag_knowledge.chunks c
+       JOIN rag_knowledge.documents d ON d.id = c.document_id
+      WHERE d.source = $1 AND c.metadata->>'dedupKey' = ANY($2)
+      ORDER BY c.metadata->>'dedupKey', d.created_at`,
+    [EVIDENCE_SOURCE, keys],
+  );
+  return new Map(rows.map(r => [r.key as string, r.pack_id as string]));
+}
+
+/**
+ * Insert the pack and its chunks in one transaction. Ingests are serialized
+ * and findings stored meanwhile by another pack are dropped (the document is
+ * built without them); returns null when none are left.
+ */
+export async function insertEvidencePack(pack: NewEvidencePack) {
+  const client = await db()!.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', ['rag_knowledge.evidence']);
+    const { rows: taken } = await client.query(
+      `SELECT DISTINCT c.metadata->>'dedupKey' AS key
+         FROM rag_knowledge.chunks c JOIN rag_knowledge.documents d ON d.id = c.document_id
+        WHERE d.source = $1 AND c.metadata->>'dedupKey' = ANY($2)`,
+      [EVIDENCE_SOURCE, [...new Set(pack.chunks.map(c => c.metadata.dedupKey))]],
+    );
+    const skip = new Set(taken.map(r => r.key as string));
+    const chunks = pack.chunks.filter(c => !skip.has(c.metadata.dedupKey));
+    if (chunks.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const document = pack.document(skip);
+    const { rows } = await client.query(
+      `INSERT INTO rag_knowledge.documents (source, source_id, title, content, metadata, embedding)
+       VALUES ($1, $2, $3, $4, $5::jsonb, $6::vector)
+       RETURNING id, title AS topic, metadata, created_at`,
+      [EVIDENCE_SOURCE, pack.topic.slice(0, 255), pack.topic, document.summary, JSON.stringify(document.metadata), document.embedding],
+    );
+    const row = rows[0];
+    for (const [i, chunk] of chunks.entries()) {
+      await client.query(
+        `INSERT INTO rag_knowledge.chunks (document_id, chunk_index, content, embedding, metadata)
+         VALUES ($1, $2, $3, $4::vector, $5::jsonb)`,
+        [row.id, i, chunk.content, chunk.embedding, JSON.stringify(chunk.metadata)],
+      );
+    }
+    await client.query('COMMIT');
+    return { ...row, summary: document.summary, chunks: chunks.length, raced: [...skip] };
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Replace a pack's document embedding (its summary changed after it was embedded) */
+export async function setEvidenceEmbedding(id: string, embedding: string | null) {
+  await db()!.query(
+    `UPDATE rag_knowledge.documents SET embedding = $2::vector WHERE id = $1 AND source = $3`,
+    [id, embedding, EVIDENCE_SOURCE],
+  );
+}
+
+/** Packs newest first, optionally filtered by topic (case-insensitive substring) */
+export async function listEvidencePacks(options: { topic?: string; limit?: number; offset?: number } = {}) {
+  const { rows } = await db()!.query(
+    `SELECT ${LIST_COLUMNS}
+       FROM rag_knowledge.documents d
+      WHERE d.source = $1 AND ($2::text IS NULL OR d.title ILIKE '%' || $2 || '%')
+      ORDER BY d.created_at DESC
+      LIMIT $3 OFFSET $4`,
+    [EVIDENCE_SOURCE, options.topic ?? null, options.limit ?? 50, options.offset ?? 0],
+  );
+  return rows;
+}
+
+/** One pack with its chunks (without the vectors) */
+export async function getEvidencePack(id: string) {
+  const { rows } = await db()!.query(
+    `SELECT ${LIST_COLUMNS}, d.content AS summary FROM rag_knowledge.documents d WHERE d.id = $1 AND d.source = $2`,
+    [id, EVIDENCE_SOURCE],
+  );
+  if (!rows[0]) return null;
+  const { rows: chunks } = await db()!.query(
+    `SELECT id, chunk_index, content, metadata, embedding IS NOT NULL AS embedded
+       FROM rag_knowledge.chunks WHERE document_id = $1 ORDER BY chunk_index`,
+    [id],
+  );
+  return { pack: rows[0], chunks };
+}
+
+/** Delete a pack; its chunks go with it (ON DELETE CASCADE) */
+export async function deleteEvidencePack(id: string) {
+  const { rowCount } = await db()!.query(
+    `DELETE FROM rag_knowledge.documents WHERE id = $1 AND source = $2`,
+    [id, EVIDENCE_SOURCE],
+  );
+  return (rowCount ?? 0) > 0;
+}
@@ -0,0 +1,32 @@
+import pg from 'pg';
+
+/**
+ * Postgres access for agent services (optional-first)
+ *
+ * Uses DATABASE_URL, or builds a URL from the POSTGRES_* vars shared with
+ * docker-compose. When neither is set, db() returns null and persistence
+ * features report themselves as not configured.
+ */
+
+let pool: pg.Pool | null | undefined;
+
+function connectionString(): string | null {
+  if (process.env.DATABASE_URL) return process.env.DATABASE_URL;
+  const password = process.env.POSTGRES_PASSWORD;
+  if (!password) return null;
+  const user = process.env.POSTGRES_USER || 'agentbox';
+  const host = process.env.POSTGRES_HOST || 'agentbox-postgres';
+  const port = process.env.POSTGRES_PORT || '5432';
+  const database = process.env.POSTGRES_DB || 'agentbox';
+  return `postgres://${encodeURIComponent(user)}:${encodeURIComponent(password)}@${host}:${port}/${database}`;
+}
+
+export function db(): pg.Pool | null {
+  if (pool !== undefined) return pool;
+  const url = connectionString();
+  pool = url ? new pg.Pool({ connectionString: url, max: Number(process.env.PG_POOL_MAX || 5) }) : null;
+  pool?.on('error', err => console.error('[db] postgres pool error:', err.message));
+  return pool;
+}
+
+export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
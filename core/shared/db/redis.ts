@@ -0,0 +1,20 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Redis access for agent services (optional-first)
+ *
+ * Uses REDIS_URL. When it's unset, redis() returns null and callers fall back
+ * to in-process state.
+ */
+
+let client: Redis | null | undefined;
+
+export function redis(): Redis | null {
+  if (client !== undefined) return client;
+  const url = process.env.REDIS_URL;
+  client = url
+    ? new Redis(url, { maxRetriesPerRequest: 1, enableOfflineQueue: false, lazyConnect: false })
+    : null;
+  client?.on('error', err => console.error('[db] redis error:', err.message));
+  return client;
+}
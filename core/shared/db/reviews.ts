@@ -0,0 +1,59 @@
+import { db } from './postgres.js';
+
+/**
+ * Review audit trail (content.reviews)
+ *
+ * Rows are only ever inserted: who did what to which revision, with the
+ * Status before and after. Reject and regenerate comments are reviewer
+ * feedback; the ones recorded after the newest revision are still pending and
+ * go into the next generation.
+ */
+
+export type ReviewAction = 'approve' | 'reject' | 'regenerate' | 'repurpose';
+
+export interface NewReview {
+  initiatorId: string;
+  revision?: number | null;
+  action: ReviewAction;
+  reviewer: string;
+  comment?: string | null;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export async function recordReview(review: NewReview) {
+  const { rows } = await db()!.query(
+    `INSERT INTO content.reviews (initiator_id, revision, action, reviewer, comment, from_status, to_status, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+     RETURNING *`,
+    [
+      review.initiatorId, review.revision ?? null, review.action, review.reviewer, review.comment ?? null,
+      review.fromStatus ?? null, review.toStatus ?? null, JSON.stringify(review.metadata ?? {}),
+    ],
+  );
+  return rows[0];
+}
+
+/** Audit trail, newest first */
+export async function listReviews(initiatorId: string) {
+  const { rows } = await db()!.query(
+    `SELECT * FROM content.reviews WHERE initiator_id = $1 ORDER BY created_at DESC`,
+    [initiatorId],
+  );
+  return rows;
+}
+
+/** Feedback not yet addressed by a generation, oldest first */
+export async function pendingFeedback(initiatorId: string): Promise<string[]> {
+  const { rows } = await db()!.query(
+    `SELECT comment FROM content.reviews
+      WHERE initiator_id = $1
+        AND action IN ('reject', 'regenerate')
+        AND comment IS NOT NULL AND comment <> ''
+        AND created_at > COALESCE((SELECT MAX(created_at) FROM content.revisions WHERE initiator_id = $1), '-infinity')
+      ORDER BY created_at`,
+    [initiatorId],
+  );
+  return rows.map(r => r.comment as string);
+}
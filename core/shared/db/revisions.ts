@@ -0,0 +1,88 @@
+import { db } from './postgres.js';
+
+/**
+ * Generated content revisions (content.revisions)
+ *
+ * Every generation is stored as the next numbered revision of its initiator
+ * instead of only overwriting the Airtable Output field. `output_at` is when a
+ * revision was last written to Output (by generation or promotion); the one
+ * with the latest `output_at` is current.
+ */
+
+export interface NewRevision {
+  initiatorId: string;
+  content: string;
+  title?: string | null;
+  summary?: string | null;
+  model?: string | null;
+  promptVersion?: string | null;
+  bundleHash?: string | null;
+  /** Output format id and the validated JSON the content was rendered from */
+  format?: string | null;
+  structured?: unknown;
+  author?: string | null;
+  usage?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+const SUMMARY_COLUMNS = `id, initiator_id, revision, title, summary, model, prompt_version, bundle_hash, format, author,
+       usage, created_at, output_at, metadata, length(content) AS length`;
+
+/** Insert the next revision number for the initiator (serialized per initiator) */
+export async function createRevision(rev: NewRevision) {
+  const client = await db()!.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`content.revisions:${rev.initiatorId}`]);
+    const { rows } = await client.query(
+      `INSERT INTO content.revisions
+         (initiator_id, revision, content, title, summary, model, prompt_version, bundle_hash, author, usage, metadata,
+          format, structured)
+       SELECT $1, COALESCE(MAX(revision), 0) + 1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, $10::jsonb, $11, $12::jsonb
+         FROM content.revisions WHERE initiator_id = $1
+       RETURNING ${SUMMARY_COLUMNS}`,
+      [
+        rev.initiatorId, rev.content, rev.title ?? null, rev.summary ?? null, rev.model ?? null,
+        rev.promptVersion ?? null, rev.bundleHash ?? null, rev.author ?? null,
+        rev.usage === undefined ? null : JSON.stringify(rev.usage), JSON.stringify(rev.metadata ?? {}),
+        rev.format ?? null, rev.structured === undefined ? null : JSON.stringify(rev.structured),
+      ],
+    );
+    await client.query('COMMIT');
+    return rows[0];
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Revisions newest first, without content; `current` marks the one in Output */
+export async function listRevisions(initiatorId: string) {
+  const { rows } = await db()!.query(
+    `SELECT ${SUMMARY_COLUMNS},
+            output_at IS NOT NULL AND output_at = MAX(output_at) OVER () AS current
+       FROM content.revisions
+      WHERE initiator_id = $1
+      ORDER BY revision DESC`,
+    [initiatorId],
+  );
+  return rows;
+}
+
+export async function getRevision(initiatorId: string, revision: number) {
+  const { rows } = await db()!.query(
+    `SELECT *, length(content) AS length FROM content.revisions WHERE initiator_id = $1 AND revision = $2`,
+    [initiatorId, revision],
+  );
+  return rows[0] ?? null;
+}
+
+/** Record that this revision is now what Output holds */
+export async function markRevisionInOutput(initiatorId: string, revision: number) {
+  await db()!.query(
+    `UPDATE content.revisions SET output_at = clock_timestamp() WHERE initiator_id = $1 AND revision = $2`,
+    [initiatorId, revision],
+  );
+}
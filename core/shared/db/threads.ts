@@ -0,0 +1,102 @@
+import { db } from './postgres.js';
+
+/**
+ * Conversation threads (agent_memory.threads / agent_memory.messages)
+ *
+ * A thread belongs to one agent and one user. Each /chat turn
+ * appends the caller's new messages plus the assistant reply (with its tool
+ * calls in messages.tool_calls), so the next turn only has to send what's new.
+ */
+
+export interface ThreadMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  toolCalls?: unknown[] | null;
+  metadata?: Record<string, unknown>;
+}
+
+const HISTORY_LIMIT = Number(process.env.THREAD_HISTORY_LIMIT || 100);
+
+function toText(content: unknown) {
+  return typeof content === 'string' ? content : JSON.stringify(content ?? '');
+}
+
+export async function createThread(agentName: string, userId: string, metadata: Record<string, unknown> = {}) {
+  const { rows } = await db()!.query(
+    `INSERT INTO agent_memory.threads (agent_name, user_id, metadata)
+     VALUES ($1, $2, $3::jsonb)
+     RETURNING id, agent_name, user_id, metadata, created_at, updated_at`,
+    [agentName, userId, JSON.stringify(metadata)],
+  );
+  return rows[0];
+}
+
+/** Fetch a thread owned by this agent and user */
+export async function getThread(id: string, agentName: string, userId: string) {
+  const { rows } = await db()!.query(
+    `SELECT id, agent_name, user_id, metadata, created_at, updated_at
+       FROM agent_memory.threads
+      WHERE id = $1 AND agent_name = $2 AND user_id = $3`,
+    [id, agentName, userId],
+  );
+  return rows[0] ?? null;
+}
+
+export async function listThreads(agentName: string, userId: string, limit = 50, offset = 0) {
+  const { rows } = await db()!.query(
+    `SELECT t.id, t.agent_name, t.user_id, t.metadata, t.created_at, t.updated_at,
+            (SELECT COUNT(*)::int FROM agent_memory.messages m WHERE m.thread_id = t.id) AS message_count
+       FROM agent_memory.threads t
+      WHERE t.agent_name = $1 AND t.user_id = $2
+      ORDER BY t.updated_at DESC
+      LIMIT $3 OFFSET $4`,
+    [agentName, userId, limit, offset],
+  );
+  return rows;
+}
+
+/** Most recent messages of a thread, oldest first */
+export async function loadMessages(threadId: string, limit = HISTORY_LIMIT) {
+  const { rows } = await db()!.query(
+    `SELECT * FROM (
+       SELECT id, role, content, tool_calls, metadata, created_at
+         FROM agent_memory.messages
+        WHERE thread_id = $1
+        ORDER BY created_at DESC
+        LIMIT $2
+     ) recent ORDER BY created_at ASC`,
+    [threadId, limit],
+  );
+  return rows;
+}
+
+export async function appendMessages(threadId: string, messages: ThreadMessage[]) {
+  const client = await db()!.connect();
+  try {
+    await client.query('BEGIN');
+    for (const m of messages) {
+      // clock_timestamp() keeps insertion order within one transaction
+      await client.query(
+        `INSERT INTO agent_memory.messages (thread_id, role, content, tool_calls, metadata, created_at)
+         VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, clock_timestamp())`,
+        [threadId, m.role, toText(m.content), m.toolCalls?.length ? JSON.stringify(m.toolCalls) : null, JSON.stringify(m.metadata ?? {})],
+      );
+    }
+    await client.query('UPDATE agent_memory.threads SET updated_at = NOW() WHERE id = $1', [threadId]);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function deleteThread(id: string, agentName: string, userId: string) {
+  const { rowCount } = await db()!.query(
+    `DELETE FROM agent_memory.threads
+      WHERE id = $1 AND agent_name = $2 AND user_id = $3`,
+    [id, agentName, userId],
+  );
+  return (rowCount ?? 0) > 0;
+}
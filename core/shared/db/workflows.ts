@@ -0,0 +1,126 @@
+import { db } from './postgres.js';
+
+/**
+ * Workflow tracking (workflow_state.executions / workflow_state.steps)
+ *
+ * A multi-step run is one executions row plus one steps row per step. All
+ * steps are inserted as 'pending' up front so a run's plan is visible while it
+ * is in progress; each step records its agent and duration_ms when it ends.
+ *
+ * Every function is a no-op (or returns null) when Postgres isn't configured,
+ * so workflows still run without persistence.
+ */
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface StepPlan {
+  name: string;
+  agent: string;
+}
+
+export async function startExecution(workflowName: string, input: unknown, steps: StepPlan[], metadata: Record<string, unknown> = {}) {
+  const pool = db();
+  if (!pool) return null;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query(
+      `INSERT INTO workflow_state.executions (workflow_name, status, current_step, total_steps, input_data, metadata)
+       VALUES ($1, 'running', 0, $2, $3::jsonb, $4::jsonb)
+       RETURNING id`,
+      [workflowName, steps.length, JSON.stringify(input ?? {}), JSON.stringify(metadata)],
+    );
+    const executionId: string = rows[0].id;
+    await client.query(
+      `INSERT INTO workflow_state.steps (execution_id, step_number, step_name, agent_name, status)
+       SELECT $1, n, name, agent, 'pending'
+         FROM UNNEST($2::int[], $3::varchar[], $4::varchar[]) AS s(n, name, agent)`,
+      [executionId, steps.map((_, i) => i + 1), steps.map(s => s.name), steps.map(s => s.agent)],
+    );
+    await client.query('COMMIT');
+    return executionId;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function startStep(executionId: string | null, stepNumber: number, input: unknown) {
+  if (!executionId) return;
+  await db()!.query(
+    `WITH s AS (
+       UPDATE workflow_state.steps SET status = 'running', started_at = NOW(), input_data = $3::jsonb
+        WHERE execution_id = $1 AND step_number = $2)
+     UPDATE workflow_state.executions SET current_step = $2 WHERE id = $1`,
+    [executionId, stepNumber, JSON.stringify(input ?? null)],
+  );
+}
+
+export async function finishStep(
+  executionId: string | null,
+  stepNumber: number,
+  result: { status: Exclude<StepStatus, 'pending' | 'running'>; output?: unknown; error?: string | null; durationMs: number; metadata?: Record<string, unknown> },
+) {
+  if (!executionId) return;
+  await db()!.query(
+    `UPDATE workflow_state.steps
+        SET status = $3, output_data = $4::jsonb, error_message = $5, duration_ms = $6,
+            completed_at = NOW(), metadata = metadata || $7::jsonb
+      WHERE execution_id = $1 AND step_number = $2`,
+    [
+      executionId,
+      stepNumber,
+      result.status,
+      result.output === undefined ? null : JSON.stringify(result.output),
+      result.error ?? null,
+      Math.round(result.durationMs),
+      JSON.stringify(result.metadata ?? {}),
+    ],
+  );
+}
+
+/** Close the run; steps that never started are marked 'skipped' */
+export async function finishExecution(
+  executionId: string | null,
+  status: 'completed' | 'failed',
+  output: unknown,
+  error: string | null = null,
+  metadata: Record<string, unknown> = {},
+) {
+  if (!executionId) return;
+  await db()!.query(
+    `WITH s AS (
+       UPDATE workflow_state.steps SET status = 'skipped' WHERE execution_id = $1 AND status = 'pending')
+     UPDATE workflow_state.executions
+        SET status = $2, output_data = $3::jsonb, error_message = $4, completed_at = NOW(), metadata = metadata || $5::jsonb
+      WHERE id = $1`,
+    [executionId, status, output === undefined ? null : JSON.stringify(output), error, JSON.stringify(metadata)],
+  );
+}
+
+export async function getExecution(executionId: string) {
+  const pool = db();
+  if (!pool) return null;
+  const { rows } = await pool.query(`SELECT * FROM workflow_state.executions WHERE id = $1`, [executionId]);
+  if (!rows[0]) return null;
+  const steps = await pool.query(
+    `SELECT step_number, step_name, agent_name, status, input_data, output_data, error_message,
+            started_at, completed_at, duration_ms, metadata
+       FROM workflow_state.steps WHERE execution_id = $1 ORDER BY step_number`,
+    [executionId],
+  );
+  return { ...rows[0], steps: steps.rows };
+}
+
+/** Most recent execution whose metadata has key = value (e.g. a batch ID) */
+export async function findExecutionByMetadata(key: string, value: string) {
+  const pool = db();
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT id FROM workflow_state.executions WHERE metadata ->> $1 = $2 ORDER BY started_at DESC LIMIT 1`,
+    [key, value],
+  );
+  return rows[0] ? getExecution(rows[0].id) : null;
+}
@@ -0,0 +1,41 @@
+import { hostname } from 'os';
+
+/**
+ * Gateway self-registration (optional-first)
+ *
+ * When GATEWAY_URL is set, the agent registers itself with the gateway on
+ * startup and re-registers every AGENT_HEARTBEAT_MS so the gateway picks it up
+ * again after a restart. The gateway's admin credential (GATEWAY_SECRET) is
+ * sent as x-api-key. Without GATEWAY_URL this is a no-op and the gateway's
+ * built-in/config entries are used.
+ */
+export function registerWithGateway(agent: {
+  name: string;
+  port: number;
+  capabilities?: string[];
+  routes?: string[];
+}) {
+  const gateway = process.env.GATEWAY_URL?.replace(/\/+$/, '');
+  if (!gateway) return;
+
+  const baseUrl = process.env.AGENT_PUBLIC_URL || `http://${hostname()}:${agent.port}`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.GATEWAY_SECRET) headers['x-api-key'] = process.env.GATEWAY_SECRET;
+
+  const register = async () => {
+    try {
+      const r = await fetch(`${gateway}/registry/agents`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: agent.name, baseUrl, capabilities: agent.capabilities, routes: agent.routes }),
+        signal: AbortSignal.timeout(5_000),
+      });
+      if (!r.ok) console.warn(`[${agent.name}] gateway registration failed: ${r.status} ${await r.text()}`);
+    } catch (err: any) {
+      console.warn(`[${agent.name}] gateway registration failed:`, err?.message || err);
+    }
+  };
+
+  void register();
+  setInterval(register, Number(process.env.AGENT_HEARTBEAT_MS || 60_000)).unref();
+}
@@ -0,0 +1,118 @@
+import type { Request, Response } from 'express';
+
+/**
+ * Server-Sent Events helpers shared by the agent services
+ *
+ * WHY: Long agent runs (multi-step research, tool loops) should reach the caller
+ *      as they happen instead of as one JSON blob at the very end
+ * HOW: Forward Mastra's fullStream chunks as named SSE events:
+ *      text-delta, tool-call-start, tool-call-finish, usage, done, error
+ */
+
+/** True when the caller asked for a stream (Accept: text/event-stream or ?stream=1) */
+export function wantsEventStream(req: Request): boolean {
+  const accept = req.header('accept') || '';
+  const flag = String(req.query.stream ?? '').toLowerCase();
+  return accept.includes('text/event-stream') || flag === '1' || flag === 'true';
+}
+
+export function openEventStream(res: Response) {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // disable proxy buffering (nginx/Caddy)
+  res.flushHeaders();
+}
+
+export function writeEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Signal for the work behind a response: aborts when the client goes away
+ * before the response finished, so the model and tools stop with it.
+ */
+export function abortOnClose(res: Response) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort(new Error('Client disconnected'));
+  });
+  return controller.signal;
+}
+
+/**
+ * Pipe a Mastra agent stream to an SSE response.
+ * Never throws once headers are sent: failures become an `error` event and are
+ * returned so the route can log them. `aborted` means the client went away.
+ */
+export async function pipeAgentStream(
+  res: Response,
+  stream: { fullStream: ReadableStream<any>; totalUsage: Promise<any> },
+  meta: Record<string, unknown> = {},
+) {
+  let text = '';
+  const toolCalls: Array<{ toolCallId: string; toolName: string; args?: unknown; result?: unknown; isError?: boolean }> = [];
+
+  // writableEnded alone never turns true when the client disconnects
+  const closed = () => res.destroyed || res.writableEnded;
+
+  try {
+    const reader = stream.fullStream.getReader();
+    while (true) {
+      const { done, value: chunk } = await reader.read();
+      if (done) break;
+      if (closed()) {
+        await reader.cancel().catch(() => {});
+        return { text, toolCalls, usage: null, error: null, aborted: true };
+      }
+
+      switch (chunk?.type) {
+        case 'text-delta':
+          text += chunk.payload.text;
+          writeEvent(res, 'text-delta', { text: chunk.payload.text });
+          break;
+        case 'tool-call': {
+          const { toolCallId, toolName, args } = chunk.payload;
+          toolCalls.push({ toolCallId, toolName, args });
+          writeEvent(res, 'tool-call-start', { toolCallId, toolName, args });
+          break;
+        }
+        case 'tool-result':
+        case 'tool-error': {
+          const { toolCallId, toolName } = chunk.payload;
+          const isError = chunk.type === 'tool-error' || Boolean(chunk.payload.isError);
+          const call = toolCalls.find(c => c.toolCallId === toolCallId);
+          if (call) {
+            call.result = chunk.payload.result ?? chunk.payload.error;
+            call.isError = isError;
+          }
+          writeEvent(res, 'tool-call-finish', { toolCallId, toolName, isError });
+          break;
+        }
+        case 'error':
+          throw chunk.payload?.error ?? new Error('Agent stream error');
+        default:
+          break;
+      }
+    }
+
+    const usage = await stream.totalUsage.catch(() => null);
+    writeEvent(res, 'usage', {
+      inputTokens: usage?.inputTokens ?? null,
+      outputTokens: usage?.outputTokens ?? null,
+      totalTokens: usage?.totalTokens ?? null,
+    });
+    writeEvent(res, 'done', { ...meta, timestamp: new Date().toISOString() });
+    return { text, toolCalls, usage, error: null, aborted: false };
+  } catch (error) {
+    if (closed()) return { text, toolCalls, usage: null, error: null, aborted: true };
+    writeEvent(res, 'error', {
+      error: 'Agent stream failed',
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return { text, toolCalls, usage: null, error, aborted: false };
+  } finally {
+    res.end();
+  }
+}
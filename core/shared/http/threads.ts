@@ -0,0 +1,145 @@
+import { Router, type Request } from 'express';
+import { db, UUID_RE } from '../db/postgres.js';
+import {
+  createThread, getThread, listThreads, loadMessages, appendMessages, deleteThread,
+} from '../db/threads.js';
+
+/**
+ * Thread handling for agent /chat + thread management routes
+ *
+ * /chat accepts an optional `threadId` (an existing id, or "new" to start one).
+ * With a thread, `messages` is only the new turn; prior messages are loaded
+ * from Postgres and the turn is saved after the reply.
+ *
+ * The user comes only from X-User-Id, which the gateway sets from the
+ * caller's API key; threads need one (401 without it).
+ */
+
+export function userIdOf(req: Request): string | null {
+  const id = req.header('x-user-id');
+  return id ? id.slice(0, 255) : null;
+}
+
+const NO_USER = 'Threads need a user (X-User-Id from an API key with a user_id)';
+
+type OpenThread =
+  | { ok: true; thread: null; history: [] }
+  | { ok: true; thread: { id: string }; history: Array<{ role: string; content: string }> }
+  | { ok: false; status: number; error: string };
+
+/** Resolve body.threadId into a thread + its history (no-op when threadId is absent) */
+export async function openThread(req: Request, agentName: string): Promise<OpenThread> {
+  const threadId = req.body?.threadId;
+  if (threadId === undefined || threadId === null) return { ok: true, thread: null, history: [] };
+  if (!db()) return { ok: false, status: 501, error: 'Thread storage not configured (set DATABASE_URL)' };
+
+  const userId = userIdOf(req);
+  if (!userId) return { ok: false, status: 401, error: NO_USER };
+  if (threadId === 'new') {
+    const thread = await createThread(agentName, userId);
+    return { ok: true, thread, history: [] };
+  }
+  if (typeof threadId !== 'string' || !UUID_RE.test(threadId)) {
+    return { ok: false, status: 400, error: 'threadId must be a thread UUID or "new"' };
+  }
+  const thread = await getThread(threadId, agentName, userId);
+  if (!thread) return { ok: false, status: 404, error: `Thread not found: ${threadId}` };
+
+  const rows = await loadMessages(thread.id);
+  return { ok: true, thread, history: rows.map(r => ({ role: r.role, content: r.content })) };
+}
+
+/** Persist the caller's new messages and the assistant reply (with tool calls) */
+export async function saveTurn(
+  threadId: string,
+  newMessages: Array<{ role: string; content: unknown }>,
+  reply: { text: string; toolCalls?: unknown[]; usage?: unknown },
+) {
+  await appendMessages(threadId, [
+    ...newMessages
+      .filter(m => ['user', 'system', 'assistant'].includes(m.role))
+      .map(m => ({ role: m.role as 'user' | 'system' | 'assistant', content: m.content as string })),
+    { role: 'assistant', content: reply.text, toolCalls: reply.toolCalls ?? null, metadata: reply.usage ? { usage: reply.usage } : {} },
+  ]);
+}
+
+/** Pair Mastra tool-call and tool-result chunks into { toolCallId, toolName, args, result } */
+export function collectToolCalls(
+  toolCalls: Array<{ payload: { toolCallId: string; toolName: string; args?: unknown } }> = [],
+  toolResults: Array<{ payload: { toolCallId: string; result?: unknown; isError?: boolean } }> = [],
+) {
+  return toolCalls.map(({ payload }) => {
+    const result = toolResults.find(r => r.payload.toolCallId === payload.toolCallId)?.payload;
+    return { toolCallId: payload.toolCallId, toolName: payload.toolName, args: payload.args, result: result?.result, isError: result?.isError ?? false };
+  });
+}
+
+/**
+ * GET    /threads            → threads for the user
+ * POST   /threads            → create an empty thread
+ * GET    /threads/:id        → thread + messages
+ * DELETE /threads/:id
+ */
+export function threadsRouter(agentName: string) {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    if (!db()) return res.status(501).json({ error: 'Thread storage not configured (set DATABASE_URL)' });
+    next();
+  });
+
+  router.use((req, res, next) => {
+    if (!userIdOf(req)) return res.status(401).json({ error: NO_USER });
+    next();
+  });
+
+  router.get('/', async (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const offset = Math.max(Number(req.query.offset) || 0, 0);
+      const threads = await listThreads(agentName, userIdOf(req)!, limit, offset);
+      return res.json({ threads, limit, offset });
+    } catch (error) {
+      console.error(`[${agentName}] list threads error:`, error);
+      return res.status(500).json({ error: 'Failed to list threads', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      const metadata = req.body?.metadata && typeof req.body.metadata === 'object' ? req.body.metadata : {};
+      const thread = await createThread(agentName, userIdOf(req)!, metadata);
+      return res.status(201).json({ thread });
+    } catch (error) {
+      console.error(`[${agentName}] create thread error:`, error);
+      return res.status(500).json({ error: 'Failed to create thread', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    if (!UUID_RE.test(req.params.id)) return res.status(404).json({ error: 'Thread not found' });
+    try {
+      const thread = await getThread(req.params.id, agentName, userIdOf(req)!);
+      if (!thread) return res.status(404).json({ error: 'Thread not found' });
+      const messages = await loadMessages(thread.id, Math.min(Number(req.query.limit) || 500, 1000));
+      return res.json({ thread, messages });
+    } catch (error) {
+      console.error(`[${agentName}] get thread error:`, error);
+      return res.status(500).json({ error: 'Failed to fetch thread', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    if (!UUID_RE.test(req.params.id)) return res.status(404).json({ error: 'Thread not found' });
+    try {
+      const deleted = await deleteThread(req.params.id, agentName, userIdOf(req)!);
+      if (!deleted) return res.status(404).json({ error: 'Thread not found' });
+      return res.json({ deleted: true, threadId: req.params.id });
+    } catch (error) {
+      console.error(`[${agentName}] delete thread error:`, error);
+      return res.status(500).json({ error: 'Failed to delete thread', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,95 @@
+import { cacheClear, cacheDelete, cacheGet, cacheGetMany, cacheSet } from '../db/cache.js';
+
+/**
+ * Cache for hydrated bundles and the linked records they're built from
+ *
+ * Keys are Airtable record IDs:
+ *   airtable:record:<recordId>     one linked record's XML field
+ *   airtable:bundle:<initiatorId>  a complete hydrated bundle
+ *
+ * Entries younger than AIRTABLE_CACHE_FRESH_SEC are used without calling
+ * Airtable. Older records are revalidated against LAST_MODIFIED_TIME() in the
+ * same batched lookup that fetches uncached ones, so unchanged records cost no
+ * payload. Entries expire after AIRTABLE_CACHE_TTL_SEC (0 disables caching).
+ *
+ * LAST_MODIFIED_TIME() ignores computed fields (lookups, formulas, AI fields
+ * regenerated from other tables); purge records explicitly after those change.
+ */
+
+export const CACHE_TTL_SEC = Number(process.env.AIRTABLE_CACHE_TTL_SEC ?? 86_400);
+export const CACHE_FRESH_MS = Number(process.env.AIRTABLE_CACHE_FRESH_SEC ?? 300) * 1000;
+
+const PREFIX = 'airtable:';
+const recordKey = (recordId: string) => `${PREFIX}record:${recordId}`;
+const bundleKey = (initiatorId: string) => `${PREFIX}bundle:${initiatorId}`;
+
+/** hit: served from cache · revalidated: unchanged since cached · refreshed: changed, refetched · stale: revalidation failed, cached copy used · miss: fetched */
+export type CacheStatus = 'hit' | 'revalidated' | 'refreshed' | 'stale' | 'miss';
+
+export interface CachedRecord {
+  table: string;
+  field: string;
+  value: string;
+  cachedAt: string;
+}
+
+export interface CachedBundle<T> {
+  result: T;
+  linkedIds: string[];
+  cachedAt: string;
+}
+
+export const cacheEnabled = () => CACHE_TTL_SEC > 0;
+
+export function isFresh(cachedAt: string) {
+  return Date.now() - Date.parse(cachedAt) < CACHE_FRESH_MS;
+}
+
+async function safely<T>(what: string, fn: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await fn();
+  } catch (err: any) {
+    console.error(`[airtable] cache ${what} failed:`, err?.message || err);
+    return fallback;
+  }
+}
+
+export async function getCachedRecords(recordIds: string[]) {
+  if (!cacheEnabled() || recordIds.length === 0) return recordIds.map(() => null);
+  return safely('read', () => cacheGetMany<CachedRecord>(recordIds.map(recordKey)), recordIds.map(() => null));
+}
+
+export async function cacheRecord(recordId: string, entry: CachedRecord) {
+  if (!cacheEnabled()) return;
+  await safely('write', () => cacheSet(recordKey(recordId), entry, CACHE_TTL_SEC), undefined);
+}
+
+/**
+ * A fresh cached bundle, as long as none of its linked records has been
+ * purged (or evicted) since it was built.
+ */
+export async function getCachedBundle<T>(initiatorId: string): Promise<CachedBundle<T> | null> {
+  if (!cacheEnabled()) return null;
+  const entry = await safely('read', () => cacheGet<CachedBundle<T>>(bundleKey(initiatorId)), null);
+  if (!entry || !isFresh(entry.cachedAt)) return null;
+  const linked = await getCachedRecords(entry.linkedIds);
+  return linked.every(Boolean) ? entry : null;
+}
+
+export async function cacheBundle<T>(initiatorId: string, result: T, linkedIds: string[]) {
+  if (!cacheEnabled()) return;
+  const entry: CachedBundle<T> = { result, linkedIds, cachedAt: new Date().toISOString() };
+  await safely('write', () => cacheSet(bundleKey(initiatorId), entry, CACHE_TTL_SEC), undefined);
+}
+
+/**
+ * Drop cached records and bundles by record ID (an initiator ID drops its
+ * bundle; a linked record ID drops the record and every bundle that uses it
+ * on next read), or everything with `all`. Returns how many entries went.
+ */
+export async function purgeAirtableCache(opts: { recordIds?: string[]; all?: boolean }) {
+  if (opts.all) return cacheClear(PREFIX);
+  const ids = opts.recordIds ?? [];
+  if (ids.length === 0) return 0;
+  return cacheDelete(ids.flatMap(id => [recordKey(id), bundleKey(id)]));
+}
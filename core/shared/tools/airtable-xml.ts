@@ -1,5 +1,15 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { buildContentBundle, describePrebuiltBundle, escapeXml, initiatorXml, type BundleFragment } from './xml-bundle.js';
+import {
+  cacheBundle,
+  cacheRecord,
+  getCachedBundle,
+  getCachedRecords,
+  isFresh,
+  purgeAirtableCache,
+  type CacheStatus,
+} from './airtable-cache.js';
 
 /**
  * XML-Aware Airtable Tools
@@ -17,6 +27,262 @@ function airtableHeadersOrNull() {
   } as const;
 }
 
+const REQUESTS_PER_SECOND = Number(process.env.AIRTABLE_REQUESTS_PER_SECOND || 5);
+const MAX_RETRIES = Number(process.env.AIRTABLE_RETRIES || 3);
+const RETRY_BASE_MS = Number(process.env.AIRTABLE_RETRY_BASE_MS || 1000);
+const HYDRATE_BATCH_SIZE = Number(process.env.AIRTABLE_HYDRATE_BATCH_SIZE || 50);
+const RECORD_ID_RE = /^rec[A-Za-z0-9]{14}$/;
+const CLOCK_SKEW_MS = 60_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Next free request slot per base, shared by concurrent calls in this process */
+const nextSlot = new Map<string, number>();
+
+async function throttle(baseId: string) {
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(baseId) ?? 0);
+  nextSlot.set(baseId, slot + 1000 / REQUESTS_PER_SECOND);
+  if (slot > now) await sleep(slot - now);
+}
+
+/** fetch() paced to the per-base rate limit; 429s are retried with backoff (Retry-After when sent) */
+async function airtableFetch(baseId: string, url: string, init: RequestInit) {
+  for (let attempt = 0; ; attempt++) {
+    await throttle(baseId);
+    const res = await fetch(url, init);
+    if (res.status !== 429 || attempt >= MAX_RETRIES) return res;
+    await res.body?.cancel().catch(() => {});
+    const retryAfter = Number(res.headers.get('retry-after'));
+    await sleep(retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random() / 2));
+  }
+}
+
+export interface LinkedFailure {
+  recordId: string;
+  table: string;
+  reason: string;
+  status?: number;
+}
+
+export interface LinkedCacheStatus {
+  recordId: string;
+  table: string;
+  status: CacheStatus;
+}
+
+/** Airtable formula matching Slug case-insensitively, as the slug lookup tools do */
+function slugFormula(slugs: string[]) {
+  const terms = slugs.map(slug => `LOWER({Slug})="${slug.toLowerCase().replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
+  return terms.length === 1 ? terms[0] : `OR(${terms.join(',')})`;
+}
+
+/** Every record matching the formula (all pages) */
+async function listAll(baseId: string, headers: Record<string, string>, table: string, params: Record<string, string | string[]>) {
+  const records: any[] = [];
+  let offset: string | undefined;
+  do {
+    const url = new URL(`https://api.airtable.com/v0/${baseId}/${encodeURIComponent(table)}`);
+    for (const [key, value] of Object.entries(params)) {
+      for (const v of Array.isArray(value) ? value : [value]) url.searchParams.append(key, v);
+    }
+    url.searchParams.set('pageSize', '100');
+    if (offset) url.searchParams.set('offset', offset);
+    const res = await airtableFetch(baseId, url.toString(), { headers });
+    if (!res.ok) return { ok: false as const, status: res.status, reason: await res.text() };
+    const page: any = await res.json();
+    records.push(...(page.records ?? []));
+    offset = page.offset;
+  } while (offset);
+  return { ok: true as const, records };
+}
+
+/** Look up records by slug; the map is keyed by lowercased slug (first match wins) */
+async function findBySlugs(baseId: string, headers: Record<string, string>, table: string, slugs: string[]) {
+  const result = await listAll(baseId, headers, table, { filterByFormula: slugFormula(slugs) });
+  if (!result.ok) return result;
+  const bySlug = new Map<string, any>();
+  for (const r of result.records) {
+    const key = String(r.fields?.['Slug'] ?? '').toLowerCase();
+    if (key && !bySlug.has(key)) bySlug.set(key, r);
+  }
+  return { ok: true as const, bySlug };
+}
+
+function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Every slug in the table, for suggestions */
+async function slugCatalog(baseId: string, headers: Record<string, string>, table: string) {
+  const result = await listAll(baseId, headers, table, { 'fields[]': ['Slug'] });
+  if (!result.ok) return [];
+  return result.records.map(r => String(r.fields?.['Slug'] ?? '')).filter(Boolean);
+}
+
+/** Up to 3 existing slugs close to an unknown one (typos, partial names) */
+function closestSlugs(slug: string, catalog: string[]) {
+  const wanted = slug.toLowerCase();
+  return catalog
+    .map(candidate => {
+      const c = candidate.toLowerCase();
+      const distance = c.includes(wanted) || wanted.includes(c) ? 1 : editDistance(wanted, c);
+      return { candidate, distance };
+    })
+    .filter(({ candidate, distance }) => distance <= Math.max(2, Math.floor(Math.max(candidate.length, wanted.length) / 3)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+function unknownSlugReason(kind: string, slug: string, suggestions: string[]) {
+  return `No ${kind} found with slug: ${slug}${suggestions.length ? ` (did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?)` : ''}`;
+}
+
+/**
+ * Resolve slugs to record IDs in one lookup. Unknown slugs come back with
+ * close matches so the caller can correct them.
+ */
+async function resolveSlugs(baseId: string, headers: Record<string, string>, table: string, kind: string, slugs: string[]) {
+  const wanted = [...new Set(slugs.map(s => s.trim()).filter(Boolean))];
+  if (wanted.length === 0) return { ok: true as const, resolved: [], unknown: [] };
+  const found = await findBySlugs(baseId, headers, table, wanted);
+  if (!found.ok) return found;
+  const resolved = wanted
+    .filter(slug => found.bySlug.has(slug.toLowerCase()))
+    .map(slug => {
+      const r = found.bySlug.get(slug.toLowerCase());
+      return { slug, recordId: r.id as string, name: (r.fields?.['Name'] ?? '') as string };
+    });
+  const missing = wanted.filter(slug => !found.bySlug.has(slug.toLowerCase()));
+  const catalog = missing.length > 0 ? await slugCatalog(baseId, headers, table) : [];
+  const unknown = missing.map(slug => {
+    const suggestions = closestSlugs(slug, catalog);
+    return { kind, slug, suggestions, reason: unknownSlugReason(kind, slug, suggestions) };
+  });
+  return { ok: true as const, resolved, unknown };
+}
+
+/**
+ * Fetch one field from linked records in batches of OR(RECORD_ID()=...) lookups.
+ * Fresh cached records are used as-is; older ones are only returned by Airtable
+ * when LAST_MODIFIED_TIME() is after they were cached, and the rest are checked
+ * for existence so deleted records are evicted. Batches run concurrently
+ * (paced by airtableFetch); IDs that can't be fetched are returned in `failed`
+ * with the reason. Fragments keep the linked order.
+ */
+async function fetchLinkedXml(
+  baseId: string,
+  headers: Record<string, string>,
+  table: string,
+  ids: string[],
+  xmlField: string,
+  refresh = false,
+): Promise<{ fragments: BundleFragment[]; failed: LinkedFailure[]; cache: LinkedCacheStatus[] }> {
+  const found = new Map<string, string>();
+  const status = new Map<string, CacheStatus>();
+  const failed: LinkedFailure[] = [];
+  const unique = [...new Set(ids)];
+
+  for (const id of unique.filter(id => !RECORD_ID_RE.test(id))) {
+    failed.push({ recordId: id, table, reason: 'Invalid record ID' });
+  }
+  const valid = unique.filter(id => RECORD_ID_RE.test(id));
+
+  // Cached copies: fresh ones are hits, older ones are revalidated below
+  const cached = refresh ? valid.map(() => null) : await getCachedRecords(valid);
+  const toFetch: Array<{ id: string; since?: string }> = [];
+  valid.forEach((id, i) => {
+    const entry = cached[i];
+    if (!entry || entry.table !== table || entry.field !== xmlField) return toFetch.push({ id });
+    found.set(id, entry.value);
+    if (isFresh(entry.cachedAt)) status.set(id, 'hit');
+    else toFetch.push({ id, since: entry.cachedAt });
+  });
+
+  const batches: Array<typeof toFetch> = [];
+  for (let i = 0; i < toFetch.length; i += HYDRATE_BATCH_SIZE) batches.push(toFetch.slice(i, i + HYDRATE_BATCH_SIZE));
+
+  await Promise.all(batches.map(async batch => {
+    // Allow for clock skew between us and Airtable when comparing modification times
+    const conditions = batch.map(({ id, since }) => since
+      ? `AND(RECORD_ID()='${id}',IS_AFTER(LAST_MODIFIED_TIME(),DATETIME_PARSE('${new Date(Date.parse(since) - CLOCK_SKEW_MS).toISOString()}')))`
+      : `RECORD_ID()='${id}'`);
+    const formula = `OR(${conditions.join(',')})`;
+    const returned = new Set<string>();
+    const cachedAt = new Date().toISOString();
+    let offset: string | undefined;
+    let error: { reason: string; status?: number } | null = null;
+    try {
+      do {
+        const url = new URL(`https://api.airtable.com/v0/${baseId}/${encodeURIComponent(table)}`);
+        url.searchParams.set('filterByFormula', formula);
+        url.searchParams.append('fields[]', xmlField);
+        url.searchParams.set('pageSize', '100');
+        if (offset) url.searchParams.set('offset', offset);
+        const res = await airtableFetch(baseId, url.toString(), { headers });
+        if (!res.ok) {
+          error = { reason: (await res.text()).slice(0, 500), status: res.status };
+          break;
+        }
+        const page: any = await res.json();
+        for (const r of page.records ?? []) {
+          const value = r.fields?.[xmlField] || '';
+          found.set(r.id, value);
+          returned.add(r.id);
+          await cacheRecord(r.id, { table, field: xmlField, value, cachedAt });
+        }
+        offset = page.offset;
+      } while (offset);
+    } catch (err: any) {
+      error = { reason: err?.message || String(err) };
+    }
+
+    // Cached ids not returned are unchanged or deleted: the time filter can't tell,
+    // so look them up again without it
+    const unchanged = error ? [] : batch.filter(({ id, since }) => since && !returned.has(id)).map(({ id }) => id);
+    let existing: Set<string> | null = null;
+    if (unchanged.length > 0) {
+      const check = await listAll(baseId, headers, table, {
+        filterByFormula: `OR(${unchanged.map(id => `RECORD_ID()='${id}'`).join(',')})`,
+        'fields[]': [xmlField],
+      }).catch((err: any) => ({ ok: false as const, reason: err?.message || String(err) }));
+      if (check.ok) existing = new Set(check.records.map(r => r.id as string));
+    }
+
+    for (const { id, since } of batch) {
+      if (returned.has(id)) {
+        status.set(id, since ? 'refreshed' : 'miss');
+      } else if (since && existing && !existing.has(id)) {
+        // Deleted in Airtable: evict it so it drops out of bundles
+        found.delete(id);
+        await purgeAirtableCache({ recordIds: [id] });
+        failed.push({ recordId: id, table, reason: 'Record not found (deleted since it was cached)', status: 404 });
+      } else if (since) {
+        // Unchanged since cached (or a lookup failed and the cached copy stands in)
+        status.set(id, existing ? 'revalidated' : 'stale');
+        if (existing) await cacheRecord(id, { table, field: xmlField, value: found.get(id) ?? '', cachedAt });
+      } else {
+        failed.push({ recordId: id, table, ...(error ?? { reason: 'Record not found', status: 404 }) });
+      }
+    }
+  }));
+
+  const fragments = unique
+    .filter(id => found.get(id))
+    .map(id => ({ recordId: id, xml: found.get(id)! }));
+  const cache = valid.filter(id => status.has(id)).map(id => ({ recordId: id, table, status: status.get(id)! }));
+  return { fragments, failed, cache };
+}
+
 /**
  * Get Content Bundle - Fetches master XML bundle for a Content Initiator
  *
@@ -57,11 +323,14 @@ export const airtableGetContentBundle = createTool({
       // Check for prebuilt XML bundle
       const prebuiltXml = record.fields[bundleField];
       if (prebuiltXml && typeof prebuiltXml === 'string' && prebuiltXml.trim()) {
+        const { bundle, warnings } = describePrebuiltBundle(context.initiatorId, prebuiltXml);
         return {
           ok: true,
           mode: 'prebuilt',
           initiatorId: context.initiatorId,
           xml: prebuiltXml,
+          bundle,
+          warnings,
           source: 'Content Initiator bundle field'
         };
       }
@@ -72,26 +341,21 @@ export const airtableGetContentBundle = createTool({
       const entities = record.fields['Entity'] || [];
       const references = record.fields['References'] || [];
 
-      const xmlParts = [`<bundle>`, `  <initiator id="${context.initiatorId}">`];
-
-      if (record.fields['Goal']) xmlParts.push(`    <goal>${record.fields['Goal']}</goal>`);
-      if (record.fields['Content Type']) xmlParts.push(`    <contentType>${record.fields['Content Type']}</contentType>`);
-      if (record.fields['Output Type']) xmlParts.push(`    <outputType>${record.fields['Output Type']}</outputType>`);
-
-      xmlParts.push(`  </initiator>`);
+      const fields = { goal: record.fields['Goal'], contentType: record.fields['Content Type'], outputType: record.fields['Output Type'] };
+      const xmlParts = [`<bundle>`, ...initiatorXml(context.initiatorId, fields)];
 
       // Add linked resources (IDs only - actual XML would require additional fetches)
       if (personas.length > 0) {
-        xmlParts.push(`  <personas linkedIds="${personas.join(',')}" />`);
+        xmlParts.push(`  <personas linkedIds="${escapeXml(personas.join(','))}" />`);
       }
       if (domains.length > 0) {
-        xmlParts.push(`  <domains linkedIds="${domains.join(',')}" />`);
+        xmlParts.push(`  <domains linkedIds="${escapeXml(domains.join(','))}" />`);
       }
       if (entities.length > 0) {
-        xmlParts.push(`  <entities linkedIds="${entities.join(',')}" />`);
+        xmlParts.push(`  <entities linkedIds="${escapeXml(entities.join(','))}" />`);
       }
       if (references.length > 0) {
-        xmlParts.push(`  <references linkedIds="${references.join(',')}" />`);
+        xmlParts.push(`  <references linkedIds="${escapeXml(references.join(','))}" />`);
       }
 
       xmlParts.push(`</bundle>`);
@@ -101,6 +365,7 @@ export const airtableGetContentBundle = createTool({
         mode: 'assembled',
         initiatorId: context.initiatorId,
         xml: xmlParts.join('\n'),
+        bundle: buildContentBundle({ initiatorId: context.initiatorId, ...fields }).bundle,
         linkedResources: { personas, domains, entities, references }
       };
     } catch (error: any) {
@@ -143,16 +408,27 @@ export const airtableCreateContentRequest = createTool({
     if (context.contentType) fields['Content Type'] = context.contentType;
     if (context.outputType) fields['Output Type'] = context.outputType;
 
-    // Note: Linking requires record IDs, not slugs. In production, you'd query first to get IDs
-    // For now, we'll include slugs in a note field
-    if (context.personaSlugs && context.personaSlugs.length > 0) {
-      fields['Persona Slugs (Note)'] = context.personaSlugs.join(', ');
-    }
-    if (context.domainSlugs && context.domainSlugs.length > 0) {
-      fields['Domain Slugs (Note)'] = context.domainSlugs.join(', ');
-    }
-
     try {
+      // Linked record fields take record IDs: resolve the slugs first
+      const [personas, domains] = await Promise.all([
+        resolveSlugs(baseId, headers, process.env.AIRTABLE_TABLE_PERSONAS || 'Personas', 'persona', context.personaSlugs ?? []),
+        resolveSlugs(baseId, headers, process.env.AIRTABLE_TABLE_DOMAINS || 'Content Domains', 'domain', context.domainSlugs ?? []),
+      ]);
+      if (!personas.ok) return { ok: false, status: personas.status, reason: `Persona lookup failed: ${personas.reason}` };
+      if (!domains.ok) return { ok: false, status: domains.status, reason: `Domain lookup failed: ${domains.reason}` };
+
+      const unknown = [...personas.unknown, ...domains.unknown];
+      if (unknown.length > 0) {
+        return {
+          ok: false,
+          reason: unknown.map(u => u.reason).join('; '),
+          unknownSlugs: unknown.map(({ kind, slug, suggestions }) => ({ kind, slug, suggestions })),
+        };
+      }
+
+      if (personas.resolved.length > 0) fields['Personas'] = personas.resolved.map(p => p.recordId);
+      if (domains.resolved.length > 0) fields['Content Domains'] = domains.resolved.map(d => d.recordId);
+
       const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(initiatorTable)}`;
       const res = await fetch(url, {
         method: 'POST',
@@ -171,7 +447,8 @@ export const airtableCreateContentRequest = createTool({
       return {
         ok: true,
         recordId: result.records[0].id,
-        fields: result.records[0].fields
+        fields: result.records[0].fields,
+        linked: { personas: personas.resolved, domains: domains.resolved },
       };
     } catch (error: any) {
       return { ok: false, error: error.message };
@@ -179,6 +456,97 @@ export const airtableCreateContentRequest = createTool({
   }
 });
 
+/**
+ * Create References - Adds research findings as Reference records
+ *
+ * Each finding becomes one Reference with an XML block (claim, evidence, source,
+ * confidence) so the hydrated bundle embeds it. When initiatorId is given, the
+ * new References are linked to that Content Initiator.
+ */
+export const airtableCreateReferences = createTool({
+  id: 'airtable.createReferences',
+  description: 'Create Reference records from research findings and optionally link them to a Content Initiator.',
+  inputSchema: z.object({
+    baseId: z.string().optional().describe('Airtable Base ID (defaults to env)'),
+    initiatorId: z.string().optional().describe('Content Initiator record ID to link the References to'),
+    references: z.array(z.object({
+      claim: z.string(),
+      evidence: z.string().optional(),
+      source: z.string().describe('URL or citation'),
+      confidence: z.enum(['high', 'medium', 'low']).optional(),
+    })).min(1),
+  }),
+  execute: async ({ context }) => {
+    const headers = airtableHeadersOrNull();
+    if (!headers) {
+      return { ok: false, skipped: true, reason: 'Airtable not configured (no PAT/API key)' };
+    }
+
+    const baseId = context.baseId || process.env.AIRTABLE_BASE_ID || process.env.AIRTABLE_CONTENT_BASE_ID;
+    if (!baseId) {
+      return { ok: false, skipped: true, reason: 'No Airtable Base ID configured' };
+    }
+
+    const referenceTable = process.env.AIRTABLE_TABLE_REFERENCES || 'References';
+    const initiatorTable = process.env.AIRTABLE_TABLE_CONTENT_INITIATORS || 'Content Initiators';
+
+    const records = context.references.map(r => ({
+      fields: {
+        Name: r.claim.slice(0, 255),
+        Source: r.source,
+        XML: [
+          `<reference confidence="${r.confidence ?? 'medium'}">`,
+          `  <claim>${escapeXml(r.claim)}</claim>`,
+          r.evidence ? `  <evidence>${escapeXml(r.evidence)}</evidence>` : '',
+          `  <source>${escapeXml(r.source)}</source>`,
+          `</reference>`,
+        ].filter(Boolean).join('\n'),
+      },
+    }));
+
+    try {
+      // Airtable accepts at most 10 records per create request
+      const recordIds: string[] = [];
+      for (let i = 0; i < records.length; i += 10) {
+        const res = await fetch(`https://api.airtable.com/v0/${baseId}/${encodeURIComponent(referenceTable)}`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ records: records.slice(i, i + 10), typecast: true }),
+        });
+        if (!res.ok) {
+          return { ok: false, status: res.status, reason: await res.text(), created: recordIds };
+        }
+        const result: any = await res.json();
+        recordIds.push(...result.records.map((r: any) => r.id));
+      }
+
+      if (context.initiatorId) {
+        const initUrl = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(initiatorTable)}/${context.initiatorId}`;
+        const current = await fetch(initUrl, { headers });
+        if (!current.ok) {
+          return { ok: false, status: current.status, reason: await current.text(), created: recordIds };
+        }
+        const existing: string[] = ((await current.json()) as any).fields?.['References'] || [];
+        const res = await fetch(initUrl, {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify({ fields: { References: [...existing, ...recordIds] } }),
+        });
+        if (!res.ok) {
+          return { ok: false, status: res.status, reason: await res.text(), created: recordIds };
+        }
+        // The initiator's hydrated bundle now has more References
+        await purgeAirtableCache({ recordIds: [context.initiatorId] })
+          .catch(err => console.error('[airtable] cache purge failed:', err.message));
+      }
+
+      return { ok: true, recordIds, linkedTo: context.initiatorId ?? null };
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    }
+  }
+});
+
 /**
  * Get Persona Context - Returns persona XML by slug
  */
@@ -204,24 +572,17 @@ export const airtableGetPersonaContext = createTool({
     const xmlField = process.env.AIRTABLE_FIELD_PERSONA_XML || 'XML Bundle';
 
     try {
-      const slug = context.slug.toLowerCase().replace(/"/g, '\\"');
-      const url = new URL(`https://api.airtable.com/v0/${baseId}/${encodeURIComponent(personaTable)}`);
-      url.searchParams.set('filterByFormula', `LOWER({Slug})="${slug}"`);
-
-      const res = await fetch(url.toString(), { headers });
-
-      if (!res.ok) {
-        return { ok: false, status: res.status, reason: await res.text() };
+      const found = await findBySlugs(baseId, headers, personaTable, [context.slug]);
+      if (!found.ok) {
+        return { ok: false, status: found.status, reason: found.reason };
       }
 
-      const data: any = await res.json();
-      const records = data.records || [];
-
-      if (records.length === 0) {
-        return { ok: false, reason: `No persona found with slug: ${context.slug}` };
+      const persona = found.bySlug.get(context.slug.toLowerCase());
+      if (!persona) {
+        const suggestions = closestSlugs(context.slug, await slugCatalog(baseId, headers, personaTable));
+        return { ok: false, reason: unknownSlugReason('persona', context.slug, suggestions), suggestions };
       }
 
-      const persona = records[0];
       return {
         ok: true,
         slug: context.slug,
@@ -260,24 +621,17 @@ export const airtableGetDomainKnowledge = createTool({
     const xmlField = process.env.AIRTABLE_FIELD_DOMAIN_XML || 'XML Bundle';
 
     try {
-      const slug = context.slug.toLowerCase().replace(/"/g, '\\"');
-      const url = new URL(`https://api.airtable.com/v0/${baseId}/${encodeURIComponent(domainTable)}`);
-      url.searchParams.set('filterByFormula', `LOWER({Slug})="${slug}"`);
-
-      const res = await fetch(url.toString(), { headers });
-
-      if (!res.ok) {
-        return { ok: false, status: res.status, reason: await res.text() };
+      const found = await findBySlugs(baseId, headers, domainTable, [context.slug]);
+      if (!found.ok) {
+        return { ok: false, status: found.status, reason: found.reason };
       }
 
-      const data: any = await res.json();
-      const records = data.records || [];
-
-      if (records.length === 0) {
-        return { ok: false, reason: `No domain found with slug: ${context.slug}` };
+      const domain = found.bySlug.get(context.slug.toLowerCase());
+      if (!domain) {
+        const suggestions = closestSlugs(context.slug, await slugCatalog(baseId, headers, domainTable));
+        return { ok: false, reason: unknownSlugReason('domain', context.slug, suggestions), suggestions };
       }
 
-      const domain = records[0];
       return {
         ok: true,
         slug: context.slug,
@@ -303,6 +657,7 @@ export const airtableUpdateContentOutput = createTool({
     output: z.string().describe('Generated content'),
     status: z.string().optional().describe('Status (e.g., "Generated", "Ready for Review")'),
     metadata: z.record(z.any()).optional().describe('Additional metadata to store'),
+    structured: z.record(z.any()).optional().describe('Structured output (format JSON) the content was rendered from'),
   }),
   execute: async ({ context }) => {
     const headers = airtableHeadersOrNull();
@@ -325,6 +680,9 @@ export const airtableUpdateContentOutput = createTool({
     if (context.metadata) {
       fields['Metadata (JSON)'] = JSON.stringify(context.metadata);
     }
+    if (context.structured) {
+      fields[process.env.AIRTABLE_FIELD_OUTPUT_JSON || 'Output (JSON)'] = JSON.stringify(context.structured, null, 2);
+    }
 
     try {
       const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(initiatorTable)}`;
@@ -357,11 +715,23 @@ export const airtableUpdateContentOutput = createTool({
   }
 });
 
+interface HydratedBundle extends ReturnType<typeof buildContentBundle> {
+  ok: true;
+  mode: 'hydrated';
+  initiatorId: string;
+  failed: LinkedFailure[];
+  linkedCounts: { personas: number; domains: number; entities: number; references: number };
+  cache: { bundle: CacheStatus; cachedAt: string | null; records: LinkedCacheStatus[] };
+}
+
 /**
  * Get Hydrated Content Context - Fully hydrated XML bundle with embedded context
  *
  * Fetches initiator and ALL linked resources (Personas, Domains, Entities, References)
- * in one deterministic call, embedding actual XML instead of just IDs.
+ * in one deterministic call, embedding actual XML instead of just IDs. Linked records
+ * are fetched in batches within the base's rate limit; any that couldn't be fetched
+ * are listed in `failed`. Bundles and linked records are cached (see airtable-cache.ts);
+ * `cache` reports a status per part.
  */
 export const airtableGetHydratedContentContext = createTool({
   id: 'airtable.getHydratedContentContext',
@@ -369,6 +739,7 @@ export const airtableGetHydratedContentContext = createTool({
   inputSchema: z.object({
     initiatorId: z.string().describe('Content Initiator record ID'),
     baseId: z.string().optional().describe('Airtable Base ID (defaults to env)'),
+    refresh: z.boolean().optional().describe('Skip cached copies and refetch everything from Airtable'),
   }),
   execute: async ({ context }) => {
     const headers = airtableHeadersOrNull();
@@ -382,10 +753,23 @@ export const airtableGetHydratedContentContext = createTool({
     }
 
     try {
+      // 0) A fresh cached bundle needs no Airtable calls at all
+      const cachedBundle = context.refresh ? null : await getCachedBundle<HydratedBundle>(context.initiatorId);
+      if (cachedBundle) {
+        return {
+          ...cachedBundle.result,
+          cache: {
+            bundle: 'hit' as CacheStatus,
+            cachedAt: cachedBundle.cachedAt,
+            records: cachedBundle.result.cache.records.map(r => ({ ...r, status: 'hit' as CacheStatus })),
+          },
+        };
+      }
+
       // 1) Fetch initiator by ID
       const initiatorTable = process.env.AIRTABLE_TABLE_CONTENT_INITIATORS || 'Content Initiators';
       const initUrl = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(initiatorTable)}/${context.initiatorId}`;
-      const initRes = await fetch(initUrl, { headers });
+      const initRes = await airtableFetch(baseId, initUrl, { headers });
       if (!initRes.ok) {
         return { ok: false, status: initRes.status, reason: await initRes.text() };
       }
@@ -397,114 +781,198 @@ export const airtableGetHydratedContentContext = createTool({
       const entities: string[] = init.fields['Entity'] || [];
       const references: string[] = init.fields['References'] || [];
 
-      // 3) Helper to fetch XML by record IDs
-      async function fetchByIds(table: string, ids: string[], xmlField = 'XML Bundle'): Promise<string[]> {
-        const results: any[] = [];
-        for (const id of ids) {
-          const u = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(table)}/${id}`;
-          // headers is guaranteed non-null by check above
-          const r = await fetch(u, { headers: headers! });
-          if (r.ok) {
-            const record = await r.json();
-            results.push(record);
-          }
-        }
-        return results
-          .map(r => (r?.fields?.[xmlField] || '') as string)
-          .filter(Boolean);
+      // 3) Fetch XML from all linked tables concurrently (batched, rate-limited)
+      const linked = await Promise.all([
+        fetchLinkedXml(baseId, headers, process.env.AIRTABLE_TABLE_PERSONAS || 'Personas', personas, 'XML Bundle', context.refresh),
+        fetchLinkedXml(baseId, headers, process.env.AIRTABLE_TABLE_DOMAINS || 'Content Domains', domains, 'XML Bundle', context.refresh),
+        fetchLinkedXml(baseId, headers, process.env.AIRTABLE_TABLE_ENTITIES || 'Entity', entities, 'XML', context.refresh),
+        fetchLinkedXml(baseId, headers, process.env.AIRTABLE_TABLE_REFERENCES || 'References', references, 'XML', context.refresh),
+      ]);
+      const [personaXml, domainXml, entityXml, referenceXml] = linked.map(l => l.fragments);
+      const failed = linked.flatMap(l => l.failed);
+
+      if (failed.length > 0) {
+        console.error(`[airtable] bundle for ${context.initiatorId} is missing ${failed.length} linked record(s):`,
+          failed.map(f => `${f.table} ${f.recordId}: ${f.status ? `${f.status} ` : ''}${f.reason}`).join('; '));
       }
 
-      // 4) Fetch XML snippets from linked resources
-      const personaXml = await fetchByIds(
-        process.env.AIRTABLE_TABLE_PERSONAS || 'Personas',
-        personas,
-        'XML Bundle'
-      );
-      const domainXml = await fetchByIds(
-        process.env.AIRTABLE_TABLE_DOMAINS || 'Content Domains',
-        domains,
-        'XML Bundle'
-      );
-      const entityXml = await fetchByIds(
-        process.env.AIRTABLE_TABLE_ENTITIES || 'Entity',
-        entities,
-        'XML'
-      );
-      const referenceXml = await fetchByIds(
-        process.env.AIRTABLE_TABLE_REFERENCES || 'References',
-        references,
-        'XML'
-      );
-
-      // 5) Assemble bundle with embedded XML content
-      const xmlParts = [
-        `<bundle>`,
-        `  <initiator id="${context.initiatorId}">`,
-      ];
-
-      if (init.fields['Goal']) {
-        xmlParts.push(`    <goal>${init.fields['Goal']}</goal>`);
-      }
-      if (init.fields['Content Type']) {
-        xmlParts.push(`    <contentType>${init.fields['Content Type']}</contentType>`);
-      }
-      if (init.fields['Output Type']) {
-        xmlParts.push(`    <outputType>${init.fields['Output Type']}</outputType>`);
+      // 4) Assemble bundle: initiator fields escaped, malformed fragments left out and reported
+      const { xml, bundle, warnings } = buildContentBundle({
+        initiatorId: context.initiatorId,
+        goal: init.fields['Goal'],
+        contentType: init.fields['Content Type'],
+        outputType: init.fields['Output Type'],
+        personas: personaXml,
+        domains: domainXml,
+        entities: entityXml,
+        references: referenceXml,
+      });
+
+      if (warnings.length > 0) {
+        console.error(`[airtable] bundle for ${context.initiatorId} skipped ${warnings.length} invalid XML fragment(s):`,
+          warnings.map(w => `${w.kind} ${w.recordId}: ${w.error} (line ${w.line})`).join('; '));
       }
 
-      xmlParts.push(`  </initiator>`);
+      const result: HydratedBundle = {
+        ok: true,
+        mode: 'hydrated',
+        initiatorId: context.initiatorId,
+        xml,
+        bundle,
+        warnings,
+        failed,
+        linkedCounts: {
+          personas: bundle.personas.length,
+          domains: bundle.domains.length,
+          entities: bundle.entities.length,
+          references: bundle.references.length,
+        },
+        cache: { bundle: 'miss', cachedAt: null, records: linked.flatMap(l => l.cache) },
+      };
 
-      // Embed persona XML
-      if (personaXml.length > 0) {
-        xmlParts.push(`  <personas>`);
-        personaXml.forEach(xml => {
-          xmlParts.push(`    ${xml}`);
-        });
-        xmlParts.push(`  </personas>`);
+      // Only complete bundles are cached, so a failed lookup is retried next time
+      if (failed.length === 0) {
+        const linkedIds = result.cache.records.map(r => r.recordId);
+        await cacheBundle(context.initiatorId, result, linkedIds);
       }
 
-      // Embed domain XML
-      if (domainXml.length > 0) {
-        xmlParts.push(`  <domains>`);
-        domainXml.forEach(xml => {
-          xmlParts.push(`    ${xml}`);
-        });
-        xmlParts.push(`  </domains>`);
-      }
+      return result;
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    }
+  }
+});
 
-      // Embed entity XML
-      if (entityXml.length > 0) {
-        xmlParts.push(`  <entities>`);
-        entityXml.forEach(xml => {
-          xmlParts.push(`    ${xml}`);
-        });
-        xmlParts.push(`  </entities>`);
+/**
+ * List Content Initiators - Initiators matching a view and/or formula
+ *
+ * Used to pick up queued work (e.g. {Status} = "Queued") for batch generation.
+ */
+export const airtableListContentInitiators = createTool({
+  id: 'airtable.listContentInitiators',
+  description: 'List Content Initiators matching a view and/or filterByFormula. Returns record IDs, goals and statuses.',
+  inputSchema: z.object({
+    baseId: z.string().optional().describe('Airtable Base ID (defaults to env)'),
+    view: z.string().optional().describe('View name or ID'),
+    formula: z.string().optional().describe('filterByFormula, e.g. {Status} = "Queued"'),
+    maxRecords: z.number().int().min(1).max(1000).optional().default(100),
+  }),
+  execute: async ({ context }) => {
+    const headers = airtableHeadersOrNull();
+    if (!headers) {
+      return { ok: false, skipped: true, reason: 'Airtable not configured (no PAT/API key)' };
+    }
+
+    const baseId = context.baseId || process.env.AIRTABLE_BASE_ID || process.env.AIRTABLE_CONTENT_BASE_ID;
+    if (!baseId) {
+      return { ok: false, skipped: true, reason: 'No Airtable Base ID configured' };
+    }
+
+    const initiatorTable = process.env.AIRTABLE_TABLE_CONTENT_INITIATORS || 'Content Initiators';
+    const params: Record<string, string | string[]> = {
+      'fields[]': ['Goal', 'Status'],
+      maxRecords: String(context.maxRecords ?? 100),
+    };
+    if (context.view) params.view = context.view;
+    if (context.formula) params.filterByFormula = context.formula;
+
+    try {
+      const result = await listAll(baseId, headers, initiatorTable, params);
+      if (!result.ok) {
+        return { ok: false, status: result.status, reason: result.reason };
       }
+      return {
+        ok: true,
+        records: result.records.map(r => ({
+          id: r.id as string,
+          goal: (r.fields?.['Goal'] ?? '') as string,
+          status: (r.fields?.['Status'] ?? null) as string | null,
+        })),
+      };
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    }
+  }
+});
 
-      // Embed reference XML
-      if (referenceXml.length > 0) {
-        xmlParts.push(`  <references>`);
-        referenceXml.forEach(xml => {
-          xmlParts.push(`    ${xml}`);
-        });
-        xmlParts.push(`  </references>`);
+/**
+ * Set Content Status - Moves a Content Initiator to a new Status
+ */
+export const airtableSetContentStatus = createTool({
+  id: 'airtable.setContentStatus',
+  description: 'Set the Status of a Content Initiator (e.g. "In Progress", "Generated", "Failed").',
+  inputSchema: z.object({
+    baseId: z.string().optional().describe('Airtable Base ID (defaults to env)'),
+    initiatorId: z.string().describe('Content Initiator record ID'),
+    status: z.string().describe('New status'),
+  }),
+  execute: async ({ context }) => {
+    const headers = airtableHeadersOrNull();
+    if (!headers) {
+      return { ok: false, skipped: true, reason: 'Airtable not configured (no PAT/API key)' };
+    }
+
+    const baseId = context.baseId || process.env.AIRTABLE_BASE_ID || process.env.AIRTABLE_CONTENT_BASE_ID;
+    if (!baseId) {
+      return { ok: false, skipped: true, reason: 'No Airtable Base ID configured' };
+    }
+
+    const initiatorTable = process.env.AIRTABLE_TABLE_CONTENT_INITIATORS || 'Content Initiators';
+
+    try {
+      const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(initiatorTable)}/${context.initiatorId}`;
+      const res = await airtableFetch(baseId, url, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ fields: { Status: context.status }, typecast: true }),
+      });
+      if (!res.ok) {
+        return { ok: false, status: res.status, reason: await res.text() };
       }
+      return { ok: true, initiatorId: context.initiatorId, status: context.status };
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    }
+  }
+});
 
-      xmlParts.push(`</bundle>`);
+/**
+ * Get Content Status - Current Status of a Content Initiator
+ *
+ * Review transitions check it before moving the record on.
+ */
+export const airtableGetContentStatus = createTool({
+  id: 'airtable.getContentStatus',
+  description: 'Get the current Status (and Goal) of a Content Initiator.',
+  inputSchema: z.object({
+    baseId: z.string().optional().describe('Airtable Base ID (defaults to env)'),
+    initiatorId: z.string().describe('Content Initiator record ID'),
+  }),
+  execute: async ({ context }) => {
+    const headers = airtableHeadersOrNull();
+    if (!headers) {
+      return { ok: false, skipped: true, reason: 'Airtable not configured (no PAT/API key)' };
+    }
+
+    const baseId = context.baseId || process.env.AIRTABLE_BASE_ID || process.env.AIRTABLE_CONTENT_BASE_ID;
+    if (!baseId) {
+      return { ok: false, skipped: true, reason: 'No Airtable Base ID configured' };
+    }
 
-      const xml = xmlParts.filter(Boolean).join('\n');
+    const initiatorTable = process.env.AIRTABLE_TABLE_CONTENT_INITIATORS || 'Content Initiators';
 
+    try {
+      const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(initiatorTable)}/${context.initiatorId}`;
+      const res = await airtableFetch(baseId, url, { headers });
+      if (!res.ok) {
+        return { ok: false, status: res.status, reason: await res.text() };
+      }
+      const record: any = await res.json();
       return {
         ok: true,
-        mode: 'hydrated',
         initiatorId: context.initiatorId,
-        xml,
-        linkedCounts: {
-          personas: personaXml.length,
-          domains: domainXml.length,
-          entities: entityXml.length,
-          references: referenceXml.length,
-        }
+        status: (record.fields?.['Status'] ?? null) as string | null,
+        goal: (record.fields?.['Goal'] ?? '') as string,
       };
     } catch (error: any) {
       return { ok: false, error: error.message };
@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatBibliography, formatCitation, fromCsl, parseDate, parseDoi, parseName, parseNames,
+} from './citations.js';
+
+const accessed = { 'date-parts': [[2026, 10, 19]] };
+
+const article = fromCsl({
+  type: 'article-journal',
+  title: 'Nurse practitioners and access to care',
+  author: [{ family: 'Roe', given: 'Jane M.' }, { family: 'Doe', given: 'John' }],
+  issued: { 'date-parts': [[2021, 6, 15]] },
+  'container-title': 'Health Affairs',
+  volume: '40',
+  issue: '6',
+  page: '912-919',
+  DOI: '10.1377/hlthaff.2020.01234',
+  accessed,
+});
+
+const webpage = fromCsl({
+  type: 'webpage',
+  title: 'State practice environment',
+  author: [{ literal: 'American Association of Nurse Practitioners' }],
+  'container-title': 'AANP',
+  URL: 'https://www.aanp.org/advocacy/state',
+  accessed,
+});
+
+const book = (title: string) => fromCsl({
+  type: 'book', title, author: [{ family: 'Roe', given: 'Jane' }], issued: { 'date-parts': [[2020]] }, accessed,
+});
+
+test('parseName handles inverted, Medline, particle and organization names', () => {
+  assert.deepEqual(parseName('Roe, Jane'), { family: 'Roe', given: 'Jane' });
+  assert.deepEqual(parseName('Jane Roe'), { family: 'Roe', given: 'Jane' });
+  assert.deepEqual(parseName('Roe JM'), { family: 'Roe', given: 'J. M.' });
+  assert.deepEqual(parseName('Roe MD'), { family: 'Roe', given: 'M. D.' });
+  assert.deepEqual(parseName('By Jane Roe, MD'), { family: 'Roe', given: 'Jane' });
+  assert.deepEqual(parseName('Jane Roe PhD'), { family: 'Roe', given: 'Jane' });
+  assert.deepEqual(parseName('Ludwig van Beethoven'), { family: 'van Beethoven', given: 'Ludwig' });
+  assert.deepEqual(parseName('World Health Organization'), { literal: 'World Health Organization' });
+  assert.equal(parseName('https://example.org/author'), null);
+});
+
+test('parseNames splits bylines on and / & / ; and on commas between full names', () => {
+  const roeDoe = [{ family: 'Roe', given: 'Jane' }, { family: 'Doe', given: 'John' }];
+  assert.deepEqual(parseNames('Jane Roe and John Doe'), roeDoe);
+  assert.deepEqual(parseNames('Jane Roe, MD, John Doe, PhD'), roeDoe);
+  assert.deepEqual(parseNames('Roe, Jane'), [{ family: 'Roe', given: 'Jane' }]);
+  assert.deepEqual(parseNames('Jane Roe; John Doe & Mary Major'), [...roeDoe, { family: 'Major', given: 'Mary' }]);
+  assert.deepEqual(parseNames('  '), []);
+});
+
+test('parseDate keeps the precision that was written and rejects impossible dates', () => {
+  assert.deepEqual(parseDate('2024-03-05T23:30:00-08:00'), { year: 2024, month: 3, day: 5 });
+  assert.deepEqual(parseDate('2024/03'), { year: 2024, month: 3 });
+  assert.deepEqual(parseDate('March 5, 2024'), { year: 2024, month: 3, day: 5 });
+  assert.deepEqual(parseDate('March 2024'), { year: 2024, month: 3 });
+  assert.deepEqual(parseDate('D:20230102120000'), { year: 2023, month: 1, day: 2 });
+  assert.equal(parseDate('2024-13-01'), null);
+  assert.equal(parseDate('not a date'), null);
+  assert.equal(parseDate(''), null);
+});
+
+test('parseDoi finds a bare DOI in prefixes, URLs and prose', () => {
+  assert.equal(parseDoi('doi:10.1000/xyz123.'), '10.1000/xyz123');
+  assert.equal(parseDoi('https://doi.org/10.1000%2Fabc'), '10.1000/abc');
+  assert.equal(parseDoi('see (10.1234/ABC.5)'), '10.1234/ABC.5');
+  assert.equal(parseDoi('no identifier here'), null);
+});
+
+test('APA', () => {
+  assert.equal(formatCitation(article, 'apa'),
+    'Roe, J. M., & Doe, J. (2021). Nurse practitioners and access to care. *Health Affairs*, *40*(6), 912–919. https://doi.org/10.1377/hlthaff.2020.01234');
+  assert.equal(formatCitation(webpage, 'apa'),
+    'American Association of Nurse Practitioners. (n.d.). *State practice environment*. AANP. Retrieved October 19, 2026, from https://www.aanp.org/advocacy/state');
+});
+
+test('Chicago', () => {
+  assert.equal(formatCitation(article, 'chicago'),
+    'Roe, Jane M., and John Doe. “Nurse practitioners and access to care.” *Health Affairs* 40, no. 6 (2021): 912–919. https://doi.org/10.1377/hlthaff.2020.01234.');
+  assert.equal(formatCitation(webpage, 'chicago'),
+    'American Association of Nurse Practitioners. “State practice environment.” AANP. Accessed October 19, 2026. https://www.aanp.org/advocacy/state.');
+});
+
+test('Harvard', () => {
+  assert.equal(formatCitation(article, 'harvard'),
+    'Roe, J. M. and Doe, J. (2021) ‘Nurse practitioners and access to care’, *Health Affairs*, 40(6), pp. 912–919. Available at: https://doi.org/10.1377/hlthaff.2020.01234 (Accessed: 19 October 2026).');
+  assert.equal(formatCitation(webpage, 'harvard'),
+    'American Association of Nurse Practitioners (n.d.) *State practice environment*. Available at: https://www.aanp.org/advocacy/state (Accessed: 19 October 2026).');
+});
+
+test('MLA', () => {
+  assert.equal(formatCitation(article, 'mla'),
+    'Roe, Jane M., and John Doe. “Nurse practitioners and access to care.” *Health Affairs*, vol. 40, no. 6, 15 June 2021, pp. 912–919, https://doi.org/10.1377/hlthaff.2020.01234.');
+  assert.equal(formatCitation(webpage, 'mla'),
+    'American Association of Nurse Practitioners. “State practice environment.” *AANP*, www.aanp.org/advocacy/state. Accessed 19 Oct. 2026.');
+});
+
+test('BibTeX', () => {
+  assert.equal(formatCitation(article, 'bibtex'), [
+    '@article{roe2021nurse,',
+    '  author = {Roe, Jane M. and Doe, John},',
+    '  title = {{Nurse practitioners and access to care}},',
+    '  journal = {Health Affairs},',
+    '  year = {2021},',
+    '  month = {jun},',
+    '  volume = {40},',
+    '  number = {6},',
+    '  pages = {912--919},',
+    '  doi = {10.1377/hlthaff.2020.01234},',
+    '  url = {https://doi.org/10.1377/hlthaff.2020.01234},',
+    '  urldate = {2026-10-19}',
+    '}',
+  ].join('\n'));
+  assert.match(formatCitation(webpage, 'bibtex'), /^@misc\{americanndstate,\n {2}author = \{\{American Association of Nurse Practitioners\}\},/);
+});
+
+test('initials skip empty hyphen parts', () => {
+  const meta = { ...book('Title'), authors: [{ family: 'Roe', given: 'Jean- Paul' }] };
+  assert.equal(formatCitation(meta, 'apa'), 'Roe, J. P. (2020). *Title*.');
+  assert.equal(formatCitation({ ...meta, authors: [{ family: 'Roe', given: 'Jean-Paul' }] }, 'apa'), 'Roe, J.-P. (2020). *Title*.');
+});
+
+test('formatBibliography merges by DOI or URL only, and keeps items with neither', () => {
+  const copy = fromCsl({ type: 'webpage', title: 'Copy', URL: 'https://www.aanp.org/advocacy/state', accessed });
+  const { entries, duplicates } = formatBibliography([book('First book'), book('Second book'), webpage, copy, article], 'apa');
+  assert.equal(duplicates, 1);
+  assert.deepEqual(entries.map(e => e.metadata.title), [
+    'State practice environment', 'First book', 'Second book', 'Nurse practitioners and access to care',
+  ]);
+  assert.deepEqual(entries.slice(1, 3).map(e => e.citation), ['Roe, J. (2020). *First book*.', 'Roe, J. (2020). *Second book*.']);
+});
+
+test('formatBibliography gives clashing citation keys a letter suffix', () => {
+  const { entries, text } = formatBibliography([book('Nursing today'), book('Nursing tomorrow')], 'bibtex');
+  assert.deepEqual(entries.map(e => e.key), ['roe2020nursing', 'roe2020nursinga']);
+  assert.match(text, /^@techreport\{roe2020nursing,[\s\S]*\n\n@techreport\{roe2020nursinga,/);
+});
@@ -0,0 +1,691 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Citation metadata and formatting for web.extractCitation / web.formatBibliography
+ *
+ * Every metadata source on a page proposes field values ("candidates") with
+ * a confidence that reflects how reliable that source usually is; the
+ * highest-confidence candidate wins each field:
+ *
+ *   crossref 0.98 > Highwire citation_* 0.95 > JSON-LD 0.9 > Dublin Core 0.8
+ *   > OpenGraph 0.7 > plain meta 0.6 > PDF info 0.5 > HTML heuristics 0.4 > URL 0.3
+ *
+ * Nothing is invented: a missing date is cited as "n.d." and reported, never
+ * replaced by the access date. Titles are kept as published (no automatic
+ * sentence/title case, which would mangle drug names and acronyms).
+ */
+
+export const CITATION_STYLES = ['apa', 'chicago', 'harvard', 'mla', 'bibtex', 'csl'] as const;
+export type CitationStyle = (typeof CITATION_STYLES)[number];
+
+export type WorkType = 'article-journal' | 'article-newspaper' | 'webpage' | 'report';
+
+/** CSL-JSON name */
+export type Name = { family: string; given?: string } | { literal: string };
+
+export interface DateParts {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+export interface CitationMetadata {
+  url: string;
+  type: WorkType;
+  title: string | null;
+  authors: Name[];
+  issued: DateParts | null;
+  containerTitle: string | null;
+  publisher: string | null;
+  volume: string | null;
+  issue: string | null;
+  pages: string | null;
+  doi: string | null;
+  lang: string | null;
+  accessed: DateParts;
+}
+
+export type CitationField = Exclude<keyof CitationMetadata, 'url' | 'accessed'>;
+
+export interface Candidate {
+  field: CitationField;
+  value: unknown;
+  source: string;
+  confidence: number;
+}
+
+export const SOURCE_CONFIDENCE: Record<string, number> = {
+  crossref: 0.98,
+  highwire: 0.95,
+  'json-ld': 0.9,
+  'dublin-core': 0.8,
+  opengraph: 0.7,
+  meta: 0.6,
+  'pdf-info': 0.5,
+  html: 0.4,
+  url: 0.3,
+};
+
+const FIELDS: CitationField[] = ['type', 'title', 'authors', 'issued', 'containerTitle', 'publisher', 'volume', 'issue', 'pages', 'doi', 'lang'];
+
+const clean = (value: unknown) => (typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '');
+
+// ---------------------------------------------------------------------------
+// Parsing helpers
+
+const ORGANIZATION = /\b(institute|institution|organi[sz]ation|association|society|department|ministry|agency|council|cent(er|re)|university|college|hospital|foundation|board|office|commission|committee|inc\.?|ltd\.?|llc|corp\.?|group|network|team|staff|editors?)\b/i;
+const PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'da', 'di', 'du', 'del', 'della', 'la', 'le', 'ter', 'ten', 'bin', 'al']);
+
+// Degrees and credentials after a name ("Jane Roe, MD", "John Doe RN, PhD")
+const DEGREE = String.raw`(?:M\.?D|D\.?O|Ph\.?D|D\.?Phil|Pharm\.?D|Psy\.?D|Ed\.?D|Dr\.?PH|J\.?D|D\.?D\.?S|D\.?M\.?D|D\.?N\.?P|R\.?N|L\.?P\.?N|A\.?P\.?R\.?N|C\.?R\.?N\.?A|C\.?N\.?M|F?N\.?P(?:-BC|-C)?|P\.?A-C|M\.?S\.?N|B\.?S\.?N|M\.?P\.?H|M\.?B\.?A|M\.?Sc|M\.?S|M\.?A|B\.?A|B\.?S|FAAN|FACP|FRCP)\.?`;
+const DEGREE_ONLY = new RegExp(`^${DEGREE}$`);
+const COMMA_DEGREES = new RegExp(`(?:\\s*,\\s*${DEGREE})+$`);
+const SPACE_DEGREE = new RegExp(`\\s+${DEGREE}$`);
+
+const words = (value: string) => value.split(' ').filter(w => !PARTICLES.has(w.toLowerCase())).length;
+
+/**
+ * Drop trailing degrees. After a comma they always go; after a space only
+ * while a given and family name remain, since "Roe MD" is Medline for M. D. Roe.
+ */
+function stripDegrees(name: string) {
+  let value = name.replace(COMMA_DEGREES, '');
+  while (SPACE_DEGREE.test(value) && words(value.replace(SPACE_DEGREE, '')) >= 2) value = value.replace(SPACE_DEGREE, '');
+  return value;
+}
+
+/** Medline "Roe JM": a mixed-case family name, then one or two initials ("Jane ROE" is a name) */
+const MEDLINE = /^((?:\S+ )*?\p{Lu}\S*\p{Ll}\S*) (\p{Lu}{1,2})$/u;
+
+/** One person or organization: "Roe, Jane", "Jane Roe", "Roe JM", "World Health Organization" */
+export function parseName(raw: string): Name | null {
+  const name = stripDegrees(clean(raw).replace(/^by\s+/i, ''));
+  if (!name || /^https?:\/\//i.test(name)) return null;
+  if (ORGANIZATION.test(name)) return { literal: name };
+  if (name.includes(',')) {
+    const [family, given] = name.split(/,\s*/, 2);
+    return given ? { family, given } : { family };
+  }
+  const medline = MEDLINE.exec(name);
+  if (medline && words(medline[1]) === 1) {
+    return { family: medline[1], given: medline[2].split('').map(c => `${c}.`).join(' ') };
+  }
+  const parts = name.split(' ');
+  if (parts.length === 1) return { literal: name };
+  let split = parts.length - 1;
+  while (split > 1 && PARTICLES.has(parts[split - 1].toLowerCase())) split--;
+  return { family: parts.slice(split).join(' '), given: parts.slice(0, split).join(' ') };
+}
+
+/** A byline that may hold several names: "Jane Roe and John Doe", "Jane Roe, John Doe" */
+export function parseNames(raw: string): Name[] {
+  const value = clean(raw).replace(/^by\s+/i, '');
+  if (!value) return [];
+  const parts = value.split(/\s*(?:;|\band\b|&)\s*/i).filter(Boolean);
+  const names = parts.flatMap(part => {
+    const commaParts = part.split(/\s*,\s*/).filter(p => p && !DEGREE_ONLY.test(p));
+    // "Roe, Jane" is one name; "Jane Roe, John Doe" (or "Jane Roe, MD, John Doe, PhD") is two
+    return commaParts.length > 1 && commaParts.every(p => p.includes(' ')) ? commaParts : [commaParts.join(', ')];
+  });
+  return names.map(parseName).filter((n): n is Name => n !== null);
+}
+
+/** Dates as written ("2024-03-05T...", "2024/03", "March 5, 2024"); no timezone shifting */
+export function parseDate(raw: unknown): DateParts | null {
+  const value = clean(raw);
+  if (!value) return null;
+  const iso = /^(\d{4})(?:[-/](\d{1,2}))?(?:[-/](\d{1,2}))?/.exec(value);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), iso[2] ? Number(iso[2]) : undefined, iso[3] ? Number(iso[3]) : undefined];
+    if (year < 1000 || (month !== undefined && (month < 1 || month > 12)) || (day !== undefined && (day < 1 || day > 31))) return null;
+    return { year, ...(month ? { month } : {}), ...(month && day ? { day } : {}) };
+  }
+  const pdf = /^D:(\d{4})(\d{2})?(\d{2})?/.exec(value);
+  if (pdf) return parseDate([pdf[1], pdf[2], pdf[3]].filter(Boolean).join('-'));
+  const parsed = new Date(value);
+  if (Number.isNaN(+parsed)) return null;
+  const hasDay = /\b\d{1,2}(st|nd|rd|th)?\b(?!\d)/.test(value.replace(/\d{4}/, ''));
+  return { year: parsed.getFullYear(), month: parsed.getMonth() + 1, ...(hasDay ? { day: parsed.getDate() } : {}) };
+}
+
+const DOI = /\b(10\.\d{4,9}\/[^\s"'<>]+)/;
+
+/** Bare DOI from "doi:10.…", "https://doi.org/10.…" or text containing one */
+export function parseDoi(raw: unknown) {
+  const m = DOI.exec(decodeURIComponentSafe(clean(raw)));
+  return m ? m[1].replace(/[.,;)\]]+$/, '') : null;
+}
+
+function decodeURIComponentSafe(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Candidates
+
+function candidates() {
+  const out: Candidate[] = [];
+  const add = (field: CitationField, value: unknown, source: string, confidence = SOURCE_CONFIDENCE[source]) => {
+    if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+    out.push({ field, value, source, confidence });
+  };
+  return { out, add };
+}
+
+function jsonLdItems($: cheerio.CheerioAPI) {
+  const items: any[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const data = JSON.parse($(el).text());
+      for (const item of [data, ...(data?.['@graph'] ?? [])].flat()) if (item && typeof item === 'object') items.push(item);
+    } catch {
+      /* ignore malformed JSON-LD */
+    }
+  });
+  return items;
+}
+
+const ldTypes = (item: any) => [item?.['@type']].flat().map(t => String(t));
+
+function ldNames(value: any): Name[] {
+  return [value].flat().filter(Boolean).flatMap((a: any) => {
+    if (typeof a === 'string') return parseNames(a);
+    if (a?.familyName) return [{ family: clean(a.familyName), given: clean(a.givenName) || undefined }];
+    const name = clean(a?.name);
+    if (!name) return [];
+    if (ldTypes(a).some(t => /Organization/.test(t))) return [{ literal: name }];
+    const parsed = parseName(name);
+    return parsed ? [parsed] : [];
+  });
+}
+
+/** Candidates from every metadata source in an HTML page */
+export function htmlCandidates(html: string, url: string): Candidate[] {
+  const $ = cheerio.load(html);
+  const { out, add } = candidates();
+  const metas = (selector: string) => $(selector).map((_, el) => clean($(el).attr('content'))).get().filter(Boolean) as string[];
+  const meta = (selector: string) => metas(selector)[0] ?? null;
+
+  // Highwire Press tags (what Google Scholar reads; most journals publish them)
+  const journal = meta('meta[name="citation_journal_title"]');
+  const institution = meta('meta[name="citation_technical_report_institution"]');
+  add('title', meta('meta[name="citation_title"]'), 'highwire');
+  add('authors', metas('meta[name="citation_author"]').map(parseName).filter(Boolean), 'highwire');
+  add('issued', parseDate(meta('meta[name="citation_publication_date"], meta[name="citation_date"], meta[name="citation_online_date"]')), 'highwire');
+  add('containerTitle', journal ?? meta('meta[name="citation_conference_title"]'), 'highwire');
+  add('publisher', meta('meta[name="citation_publisher"]') ?? institution, 'highwire');
+  add('volume', meta('meta[name="citation_volume"]'), 'highwire');
+  add('issue', meta('meta[name="citation_issue"]'), 'highwire');
+  const first = meta('meta[name="citation_firstpage"]');
+  const last = meta('meta[name="citation_lastpage"]');
+  add('pages', first && last && first !== last ? `${first}-${last}` : first, 'highwire');
+  add('doi', parseDoi(meta('meta[name="citation_doi"]')), 'highwire');
+  add('lang', meta('meta[name="citation_language"]'), 'highwire');
+  if (journal) add('type', 'article-journal', 'highwire');
+  else if (institution) add('type', 'report', 'highwire');
+
+  // JSON-LD (schema.org Article and friends)
+  const items = jsonLdItems($);
+  const article = items.find(i => ldTypes(i).some(t => /Article|BlogPosting|Report/.test(t)))
+    ?? items.find(i => ldTypes(i).some(t => /WebPage/.test(t)));
+  if (article) {
+    const types = ldTypes(article);
+    add('title', clean(article.headline) || clean(article.name), 'json-ld');
+    add('authors', ldNames(article.author), 'json-ld');
+    add('issued', parseDate(article.datePublished ?? article.dateCreated), 'json-ld');
+    const partOf = [article.isPartOf].flat().find((p: any) => p?.name);
+    add('containerTitle', clean(partOf?.name), 'json-ld');
+    add('publisher', clean(article.publisher?.name ?? article.publisher), 'json-ld');
+    add('doi', [article.identifier, article.sameAs, article['@id']].flat().map(parseDoi).find(Boolean), 'json-ld');
+    add('lang', clean(article.inLanguage), 'json-ld');
+    add('volume', clean(String(partOf?.volumeNumber ?? '')), 'json-ld');
+    add('issue', clean(String(partOf?.issueNumber ?? '')), 'json-ld');
+    const type: WorkType = types.some(t => /NewsArticle|ReportageNewsArticle/.test(t)) ? 'article-newspaper'
+      : types.some(t => /ScholarlyArticle/.test(t)) ? 'article-journal'
+      : types.some(t => /Report/.test(t)) ? 'report'
+      : 'webpage';
+    add('type', type, 'json-ld', type === 'webpage' ? SOURCE_CONFIDENCE.meta : SOURCE_CONFIDENCE['json-ld']);
+  }
+
+  // Dublin Core (names are case-insensitive in the wild)
+  add('title', meta('meta[name="dc.title" i], meta[name="dcterms.title" i]'), 'dublin-core');
+  add('authors', metas('meta[name="dc.creator" i], meta[name="dcterms.creator" i]').flatMap(parseNames), 'dublin-core');
+  add('issued', parseDate(meta('meta[name="dcterms.issued" i], meta[name="dc.date.issued" i], meta[name="dc.date" i], meta[name="dcterms.date" i], meta[name="dcterms.created" i]')), 'dublin-core');
+  add('publisher', meta('meta[name="dc.publisher" i], meta[name="dcterms.publisher" i]'), 'dublin-core');
+  add('doi', metas('meta[name="dc.identifier" i], meta[name="dcterms.identifier" i]').map(parseDoi).find(Boolean), 'dublin-core');
+  add('lang', meta('meta[name="dc.language" i], meta[name="dcterms.language" i]'), 'dublin-core');
+
+  // OpenGraph
+  add('title', meta('meta[property="og:title"]'), 'opengraph');
+  add('containerTitle', meta('meta[property="og:site_name"]'), 'opengraph');
+  add('issued', parseDate(meta('meta[property="article:published_time"]')), 'opengraph');
+  add('authors', metas('meta[property="article:author"]').flatMap(parseNames), 'opengraph');
+  add('lang', meta('meta[property="og:locale"]')?.replace('_', '-'), 'opengraph');
+
+  // Plain meta tags
+  add('authors', parseNames(meta('meta[name="author"]') ?? ''), 'meta');
+  add('issued', parseDate(meta('meta[name="date"], meta[name="pubdate"], meta[name="publishdate"], meta[name="publication_date"], meta[itemprop="datePublished"]')), 'meta');
+  add('doi', parseDoi(meta('meta[name="doi"], meta[name="prism.doi" i]')), 'meta');
+
+  // Page heuristics
+  add('title', clean($('h1').first().text()) || clean($('title').first().text()), 'html');
+  add('authors', parseNames(clean($('[rel="author"], [itemprop="author"], .byline, .author').first().text())), 'html');
+  add('issued', parseDate($('time[datetime]').first().attr('datetime')), 'html');
+  add('lang', clean($('html').attr('lang')), 'html');
+
+  return [...out, ...urlCandidates(url)];
+}
+
+/** Candidates from a PDF's document info */
+export function pdfCandidates(info: Record<string, unknown>, url: string): Candidate[] {
+  const { out, add } = candidates();
+  add('title', clean(info.Title), 'pdf-info');
+  add('authors', parseNames(clean(info.Author)), 'pdf-info');
+  add('issued', parseDate(info.CreationDate), 'pdf-info');
+  add('doi', parseDoi(info.Subject) ?? parseDoi(info.Keywords), 'pdf-info');
+  add('type', 'report', 'pdf-info');
+  return [...out, ...urlCandidates(url)];
+}
+
+/** Candidates from a Crossref /works/{doi} message */
+export function crossrefCandidates(work: any): Candidate[] {
+  const { out, add } = candidates();
+  const parts = work?.issued?.['date-parts']?.[0] ?? work?.published?.['date-parts']?.[0];
+  add('title', clean([work?.title].flat()[0]), 'crossref');
+  add('authors', (work?.author ?? []).map((a: any) =>
+    a.family ? { family: clean(a.family), given: clean(a.given) || undefined } : a.name ? { literal: clean(a.name) } : null).filter(Boolean), 'crossref');
+  add('issued', parts?.[0] ? { year: parts[0], ...(parts[1] ? { month: parts[1] } : {}), ...(parts[1] && parts[2] ? { day: parts[2] } : {}) } : null, 'crossref');
+  add('containerTitle', clean([work?.['container-title']].flat()[0]), 'crossref');
+  add('publisher', clean(work?.publisher), 'crossref');
+  add('volume', clean(work?.volume), 'crossref');
+  add('issue', clean(work?.issue), 'crossref');
+  add('pages', clean(work?.page), 'crossref');
+  add('doi', parseDoi(work?.DOI), 'crossref');
+  add('lang', clean(work?.language), 'crossref');
+  const type = work?.type === 'journal-article' ? 'article-journal'
+    : work?.type === 'report' || work?.type === 'book' || work?.type === 'monograph' ? 'report'
+    : null;
+  add('type', type, 'crossref');
+  return out;
+}
+
+/** Candidates from the URL alone (DOI in the path, domain as site name) */
+export function urlCandidates(url: string): Candidate[] {
+  const { out, add } = candidates();
+  // A DOI in the URL (doi.org, /doi/10.…) is nearly always the work's own
+  add('doi', parseDoi(url), 'url', 0.85);
+  try {
+    add('containerTitle', new URL(url).hostname.replace(/^www\./, ''), 'url');
+  } catch {
+    /* not a URL */
+  }
+  add('type', 'webpage', 'url');
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+
+export interface ResolvedCitation {
+  metadata: CitationMetadata;
+  /** 0-1 per field; 0 when nothing was found */
+  confidence: Record<CitationField, number>;
+  /** Source that supplied each field, or null */
+  sources: Record<CitationField, string | null>;
+  warnings: string[];
+}
+
+export function toDateParts(date: Date): DateParts {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** Highest-confidence candidate per field */
+export function resolveCitation(url: string, all: Candidate[], accessed = new Date()): ResolvedCitation {
+  const best = new Map<CitationField, Candidate>();
+  for (const c of all) {
+    const current = best.get(c.field);
+    if (!current || c.confidence > current.confidence) best.set(c.field, c);
+  }
+  const value = <T>(field: CitationField, fallback: T) => (best.get(field)?.value as T) ?? fallback;
+  const metadata: CitationMetadata = {
+    url,
+    type: value<WorkType>('type', 'webpage'),
+    title: value<string | null>('title', null),
+    authors: value<Name[]>('authors', []),
+    issued: value<DateParts | null>('issued', null),
+    containerTitle: value<string | null>('containerTitle', null),
+    publisher: value<string | null>('publisher', null),
+    volume: value<string | null>('volume', null),
+    issue: value<string | null>('issue', null),
+    pages: value<string | null>('pages', null),
+    doi: value<string | null>('doi', null),
+    lang: value<string | null>('lang', null),
+    accessed: toDateParts(accessed),
+  };
+  const confidence = Object.fromEntries(FIELDS.map(f => [f, best.get(f)?.confidence ?? 0])) as Record<CitationField, number>;
+  const sources = Object.fromEntries(FIELDS.map(f => [f, best.get(f)?.source ?? null])) as Record<CitationField, string | null>;
+  return { metadata, confidence, sources, warnings: citationWarnings(metadata, confidence) };
+}
+
+/** What a reviewer should check before the citation is published */
+export function citationWarnings(meta: CitationMetadata, confidence?: Partial<Record<CitationField, number>>) {
+  const warnings: string[] = [];
+  if (!meta.title) warnings.push('No title found');
+  else if ((confidence?.title ?? 1) < 0.5) warnings.push('Title taken from the page heading or document info; check it');
+  if (!meta.authors.length) warnings.push('No author found; the title leads the reference');
+  else if ((confidence?.authors ?? 1) < 0.5) warnings.push('Author taken from a page byline; check it');
+  if (!meta.issued) warnings.push('No publication date found; cited as n.d.');
+  if (meta.type === 'article-journal' && !meta.doi) warnings.push('Journal article without a DOI');
+  if (meta.type === 'article-journal' && !meta.containerTitle) warnings.push('Journal title missing');
+  return warnings;
+}
+
+/** CSL-JSON item → metadata, for formatting references supplied by the caller */
+export function fromCsl(item: any, accessed = new Date()): CitationMetadata {
+  const parts = item?.issued?.['date-parts']?.[0];
+  const type = item?.type === 'article-journal' || item?.type === 'article-newspaper' || item?.type === 'report' ? item.type
+    : item?.type === 'article-magazine' ? 'article-newspaper'
+    : item?.type === 'book' ? 'report'
+    : 'webpage';
+  const str = (v: unknown) => (v === undefined || v === null || v === '' ? null : clean(String(v)));
+  const accessedParts = item?.accessed?.['date-parts']?.[0];
+  return {
+    url: str(item?.URL) ?? (item?.DOI ? `https://doi.org/${item.DOI}` : ''),
+    type,
+    title: str(item?.title),
+    authors: (item?.author ?? []).filter((a: any) => a?.family || a?.literal),
+    issued: parts?.[0] ? { year: Number(parts[0]), ...(parts[1] ? { month: Number(parts[1]) } : {}), ...(parts[1] && parts[2] ? { day: Number(parts[2]) } : {}) }
+      : parseDate(item?.issued?.raw),
+    containerTitle: str(item?.['container-title']),
+    publisher: str(item?.publisher),
+    volume: str(item?.volume),
+    issue: str(item?.issue),
+    pages: str(item?.page),
+    doi: parseDoi(item?.DOI),
+    lang: str(item?.language),
+    accessed: accessedParts?.[0]
+      ? { year: Number(accessedParts[0]), month: Number(accessedParts[1] ?? 1), day: Number(accessedParts[2] ?? 1) }
+      : toDateParts(accessed),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+const italic = (value: string) => `*${value}*`;
+const endsWithPunct = (value: string) => /[.?!]$/.test(value);
+const period = (value: string) => (endsWithPunct(value) ? value : `${value}.`);
+/** "Title." with the period inside the quotes, as Chicago and MLA want */
+const quoted = (value: string) => `“${period(value)}”`;
+const pageRange = (pages: string) => pages.replace(/\s*[-–—]+\s*/g, '–');
+const doiUrl = (doi: string) => `https://doi.org/${doi}`;
+const link = (meta: CitationMetadata) => (meta.doi ? doiUrl(meta.doi) : meta.url);
+const title = (meta: CitationMetadata) => meta.title ?? '[Untitled]';
+const isLiteral = (name: Name): name is { literal: string } => 'literal' in name;
+
+function initials(given?: string) {
+  if (!given) return '';
+  return given.split(/\s+/).filter(Boolean)
+    // "Jean- Paul" leaves an empty hyphen part
+    .map(part => part.split('-').filter(Boolean).map(p => `${p[0].toUpperCase()}.`).join('-'))
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** "Roe, J. M." (APA, Harvard) */
+function familyInitials(name: Name) {
+  if (isLiteral(name)) return name.literal;
+  const i = initials(name.given);
+  return i ? `${name.family}, ${i}` : name.family;
+}
+
+/** "Roe, Jane" (first author in Chicago, MLA) */
+function familyGiven(name: Name) {
+  if (isLiteral(name)) return name.literal;
+  return name.given ? `${name.family}, ${name.given}` : name.family;
+}
+
+/** "Jane Roe" (later authors in Chicago, MLA) */
+export function givenFamily(name: Name) {
+  if (isLiteral(name)) return name.literal;
+  return name.given ? `${name.given} ${name.family}` : name.family;
+}
+
+function dayMonthYear(d: DateParts) {
+  return [d.day, d.month ? MONTHS[d.month - 1] : null, d.year].filter(Boolean).join(' ');
+}
+
+function monthDayYear(d: DateParts) {
+  if (!d.month) return String(d.year);
+  return d.day ? `${MONTHS[d.month - 1]} ${d.day}, ${d.year}` : `${MONTHS[d.month - 1]} ${d.year}`;
+}
+
+/** APA 7 */
+function apa(meta: CitationMetadata) {
+  const names = meta.authors.map(familyInitials);
+  const authors = names.length <= 1 ? names.join('')
+    : names.length <= 20 ? `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`
+    : `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+  const d = meta.issued;
+  const date = !d ? '(n.d.)'
+    : meta.type === 'article-journal' || meta.type === 'report' || !d.month ? `(${d.year})`
+    : `(${d.year}, ${MONTHS[d.month - 1]}${d.day ? ` ${d.day}` : ''})`;
+  // No DOI or URL (a print book): no link, so no retrieval date either
+  const retrieved = !link(meta) ? '' : d ? link(meta) : `Retrieved ${monthDayYear(meta.accessed)}, from ${link(meta)}`;
+
+  if (meta.type === 'article-journal') {
+    const volume = meta.volume ? `, ${italic(meta.volume)}${meta.issue ? `(${meta.issue})` : ''}` : '';
+    const pages = meta.pages ? `, ${pageRange(meta.pages)}` : '';
+    const source = meta.containerTitle ? ` ${italic(meta.containerTitle)}${volume}${pages}.` : '';
+    const work = period(title(meta));
+    return authors
+      ? `${period(authors)} ${date}. ${work}${source} ${retrieved}`
+      : `${work} ${date}.${source} ${retrieved}`;
+  }
+
+  const italicTitle = meta.type !== 'article-newspaper';
+  const work = italicTitle ? `${italic(title(meta))}${endsWithPunct(title(meta)) ? '' : '.'}` : period(title(meta));
+  const siteName = meta.type === 'report' ? meta.publisher : meta.containerTitle;
+  // The site is left out when it is also the (group) author
+  const site = siteName && siteName !== authors
+    ? ` ${meta.type === 'article-newspaper' ? italic(siteName) : siteName}.`
+    : '';
+  return authors
+    ? `${period(authors)} ${date}. ${work}${site} ${retrieved}`
+    : `${work} ${date}.${site} ${retrieved}`;
+}
+
+/** Chicago 17th, bibliography */
+function chicago(meta: CitationMetadata) {
+  const names = meta.authors.length > 10 ? meta.authors.slice(0, 7) : meta.authors;
+  const list = names.map((n, i) => (i === 0 ? familyGiven(n) : givenFamily(n)));
+  let authors = list.length <= 1 ? list.join('')
+    : list.length === 2 ? `${list[0]}, and ${list[1]}`
+    : `${list.slice(0, -1).join(', ')}, and ${list[list.length - 1]}`;
+  if (meta.authors.length > 10) authors = `${list.join(', ')}, et al`;
+  const lead = authors ? `${period(authors)} ` : '';
+  const d = meta.issued;
+  const url = link(meta) ? `${link(meta)}.` : '';
+
+  if (meta.type === 'article-journal') {
+    const volume = [meta.volume, meta.issue ? `no. ${meta.issue}` : null].filter(Boolean).join(', ');
+    const container = meta.containerTitle ? ` ${italic(meta.containerTitle)}${volume ? ` ${volume}` : ''}` : '';
+    const year = d ? ` (${d.year})` : ' (n.d.)';
+    const pages = meta.pages ? `: ${pageRange(meta.pages)}` : '';
+    return `${lead}${quoted(title(meta))}${container}${year}${pages}. ${url}`;
+  }
+  if (meta.type === 'report') {
+    const pub = [meta.publisher, d ? String(d.year) : 'n.d.'].filter(Boolean).join(', ');
+    return `${lead}${italic(title(meta))}${endsWithPunct(title(meta)) ? '' : '.'} ${pub}. ${url}`;
+  }
+  const when = d ? monthDayYear(d) : link(meta) ? `Accessed ${monthDayYear(meta.accessed)}` : 'n.d.';
+  if (meta.type === 'article-newspaper') {
+    const container = meta.containerTitle ? `${italic(meta.containerTitle)}, ` : '';
+    return `${lead}${quoted(title(meta))} ${container}${period(when)} ${url}`;
+  }
+  const site = meta.containerTitle ? `${meta.containerTitle}. ` : '';
+  return `${lead}${quoted(title(meta))} ${site}${period(when)} ${url}`;
+}
+
+/** Harvard (Cite Them Right) */
+function harvard(meta: CitationMetadata) {
+  const names = meta.authors.map(familyInitials);
+  const authors = names.length === 0 ? ''
+    : names.length === 1 ? names[0]
+    : names.length <= 3 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : `${names[0]} et al.`;
+  const d = meta.issued;
+  const year = d ? `(${d.year})` : '(n.d.)';
+  const available = link(meta) ? `Available at: ${link(meta)} (Accessed: ${dayMonthYear(meta.accessed)}).` : '';
+  const lead = authors ? `${authors} ${year}` : null;
+
+  if (meta.type === 'article-journal' || meta.type === 'article-newspaper') {
+    const work = `‘${title(meta)}’`;
+    let container = meta.containerTitle ? `, ${italic(meta.containerTitle)}` : '';
+    if (meta.type === 'article-journal') {
+      if (meta.volume) container += `, ${meta.volume}${meta.issue ? `(${meta.issue})` : ''}`;
+      if (meta.pages) container += `, pp. ${pageRange(meta.pages)}`;
+    } else if (d?.month) {
+      container += `, ${[d.day, MONTHS[d.month - 1]].filter(Boolean).join(' ')}`;
+    }
+    return lead ? `${lead} ${work}${container}. ${available}` : `${work} ${year}${container}. ${available}`;
+  }
+  const work = italic(title(meta));
+  const pub = meta.type === 'report' && meta.publisher ? ` ${period(meta.publisher)}` : '';
+  return lead ? `${lead} ${work}.${pub} ${available}` : `${work} ${year}.${pub} ${available}`;
+}
+
+/** MLA 9 */
+function mla(meta: CitationMetadata) {
+  const a = meta.authors;
+  const authors = a.length === 0 ? ''
+    : a.length === 1 ? familyGiven(a[0])
+    : a.length === 2 ? `${familyGiven(a[0])}, and ${givenFamily(a[1])}`
+    : `${familyGiven(a[0])}, et al`;
+  const d = meta.issued;
+  const date = d ? [d.day, d.month ? MLA_MONTHS[d.month - 1] : null, d.year].filter(Boolean).join(' ') : null;
+  const location = meta.doi ? doiUrl(meta.doi) : meta.url.replace(/^https?:\/\//, '');
+  const accessed = d || !location ? '' : ` Accessed ${[meta.accessed.day, MLA_MONTHS[(meta.accessed.month ?? 1) - 1], meta.accessed.year].join(' ')}.`;
+
+  const work = meta.type === 'report' ? `${italic(title(meta))}${endsWithPunct(title(meta)) ? '' : '.'}` : quoted(title(meta));
+  const container = meta.type === 'report' ? meta.publisher : meta.containerTitle ? italic(meta.containerTitle) : null;
+  const elements = [
+    container,
+    meta.volume ? `vol. ${meta.volume}` : null,
+    meta.issue ? `no. ${meta.issue}` : null,
+    date,
+    meta.pages ? `pp. ${pageRange(meta.pages)}` : null,
+    location,
+  ].filter(Boolean);
+  return `${authors ? `${period(authors)} ` : ''}${work}${elements.length ? ` ${elements.join(', ')}.` : ''}${accessed}`;
+}
+
+const BIBTEX_SPECIAL = /([&%$#_{}])/g;
+const bibtexEscape = (value: string) => value.replace(/\\/g, '\\textbackslash{}').replace(BIBTEX_SPECIAL, '\\$1');
+
+/** Citation key: first author's family name, year, first title word ("roe2024nurses") */
+export function citationKey(meta: CitationMetadata) {
+  const first = meta.authors[0];
+  const name = first ? (isLiteral(first) ? first.literal.split(/\s+/)[0] : first.family) : 'anon';
+  const word = (meta.title ?? '').split(/\s+/).find(w => w.length > 3 && !/^(the|and|with|from|for)$/i.test(w)) ?? '';
+  const ascii = (v: string) => v.normalize('NFKD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+  return `${ascii(name) || 'anon'}${meta.issued?.year ?? 'nd'}${ascii(word)}`;
+}
+
+function bibtex(meta: CitationMetadata, key = citationKey(meta)) {
+  const entry = meta.type === 'article-journal' ? 'article' : meta.type === 'report' ? 'techreport' : 'misc';
+  const date = (d: DateParts) => [d.year, d.month, d.day].filter(Boolean).map(n => String(n).padStart(2, '0')).join('-');
+  const fields: Array<[string, string | null | undefined]> = [
+    ['author', meta.authors.map(n => (isLiteral(n) ? `{${bibtexEscape(n.literal)}}` : bibtexEscape(familyGiven(n)))).join(' and ') || null],
+    ['title', meta.title ? `{${bibtexEscape(meta.title)}}` : null],
+    [entry === 'article' ? 'journal' : entry === 'techreport' ? 'institution' : 'howpublished',
+      entry === 'techreport' ? meta.publisher && bibtexEscape(meta.publisher) : meta.containerTitle && bibtexEscape(meta.containerTitle)],
+    ['year', meta.issued ? String(meta.issued.year) : null],
+    ['month', meta.issued?.month ? MONTHS[meta.issued.month - 1].slice(0, 3).toLowerCase() : null],
+    ['volume', meta.volume],
+    ['number', meta.issue],
+    ['pages', meta.pages?.replace(/\s*[-–—]+\s*/g, '--')],
+    ['doi', meta.doi],
+    ['url', meta.url],
+    ['urldate', meta.url ? date(meta.accessed) : null],
+  ];
+  const body = fields.filter(([, v]) => v).map(([k, v]) => `  ${k} = {${v}}`).join(',\n');
+  return `@${entry}{${key},\n${body}\n}`;
+}
+
+/** CSL-JSON item (for Zotero, Pandoc, citeproc) */
+export function toCsl(meta: CitationMetadata, id = citationKey(meta)) {
+  const parts = (d: DateParts) => [[d.year, d.month, d.day].filter((n): n is number => n !== undefined)];
+  return {
+    id,
+    type: meta.type,
+    title: meta.title ?? undefined,
+    author: meta.authors.length ? meta.authors : undefined,
+    issued: meta.issued ? { 'date-parts': parts(meta.issued) } : undefined,
+    accessed: { 'date-parts': parts(meta.accessed) },
+    'container-title': meta.containerTitle ?? undefined,
+    publisher: meta.publisher ?? undefined,
+    volume: meta.volume ?? undefined,
+    issue: meta.issue ?? undefined,
+    page: meta.pages ?? undefined,
+    DOI: meta.doi ?? undefined,
+    URL: meta.url || undefined,
+    language: meta.lang ?? undefined,
+  };
+}
+
+/** One reference in the given style; CSL-JSON is returned as a JSON string */
+export function formatCitation(meta: CitationMetadata, style: CitationStyle, key?: string) {
+  switch (style) {
+    // trimEnd: the link comes last and is left out when there is none
+    case 'apa': return apa(meta).trimEnd();
+    case 'chicago': return chicago(meta).trimEnd();
+    case 'harvard': return harvard(meta).trimEnd();
+    case 'mla': return mla(meta);
+    case 'bibtex': return bibtex(meta, key);
+    case 'csl': return JSON.stringify(toCsl(meta, key), null, 2);
+  }
+}
+
+/** Sort key: first author (or title, without a leading article), then year */
+function sortKey(meta: CitationMetadata) {
+  const first = meta.authors[0];
+  const lead = first ? (isLiteral(first) ? first.literal : `${first.family} ${first.given ?? ''}`) : (meta.title ?? '').replace(/^(the|a|an)\s+/i, '');
+  return `${lead.toLowerCase()} ${meta.issued?.year ?? 0}`;
+}
+
+/**
+ * A whole bibliography: references sorted by author/title, deduplicated by
+ * DOI or URL, with unique BibTeX/CSL keys (roe2024nurses, roe2024nursesa, ...)
+ */
+export function formatBibliography(items: CitationMetadata[], style: CitationStyle) {
+  const seen = new Set<string>();
+  const unique = items.filter(m => {
+    // Items with neither (books from CSL without a URL) are never merged
+    const id = m.doi ? `doi:${m.doi.toLowerCase()}` : m.url;
+    if (!id) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  const sorted = [...unique].sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  const used = new Map<string, number>();
+  const entries = sorted.map(meta => {
+    const base = citationKey(meta);
+    const n = used.get(base) ?? 0;
+    used.set(base, n + 1);
+    const key = n === 0 ? base : `${base}${String.fromCharCode(96 + n)}`;
+    return { key, metadata: meta, citation: formatCitation(meta, style, key) };
+  });
+  const text = style === 'csl'
+    ? JSON.stringify(entries.map(e => toCsl(e.metadata, e.key)), null, 2)
+    : entries.map(e => e.citation).join(style === 'bibtex' ? '\n\n' : '\n');
+  return { entries, text, duplicates: items.length - unique.length };
+}
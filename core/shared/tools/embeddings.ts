@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+
+/**
+ * Embedding providers for rag_knowledge (vector(1536) columns)
+ *
+ *   openai  OPENAI_API_KEY; EMBEDDING_MODEL (default text-embedding-3-small),
+ *           EMBEDDING_BASE_URL for OpenAI-compatible servers
+ *   local   deterministic feature hashing of words and word pairs, no network;
+ *           for tests and offline runs (similar wording → similar vectors)
+ *
+ * EMBEDDING_PROVIDER picks one (default openai). An unconfigured provider
+ * isn't an error: callers store rows without embeddings and say so.
+ */
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  /** Why the provider can't run (missing env), or null when it can */
+  unconfigured(): string | null;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+const TIMEOUT_MS = Number(process.env.EMBEDDING_TIMEOUT_MS || 30_000);
+const BATCH_SIZE = 100;
+
+const openai: EmbeddingProvider = {
+  name: 'openai',
+  model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  unconfigured: () => (process.env.OPENAI_API_KEY ? null : 'OPENAI_API_KEY not set'),
+  async embed(texts, signal) {
+    const base = (process.env.EMBEDDING_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const res = await fetch(`${base}/embeddings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts.slice(i, i + BATCH_SIZE),
+          // text-embedding-3-* can be shortened to the column size; older models are 1536 already
+          ...(this.model.startsWith('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+        }),
+        signal,
+      });
+      if (!res.ok) throw new Error(`OpenAI embeddings error: ${res.status} ${(await res.text().catch(() => '')).slice(0, 300)}`);
+      const data: any = await res.json();
+      vectors.push(...[...(data?.data ?? [])].sort((a: any, b: any) => a.index - b.index).map((d: any) => d.embedding));
+    }
+    return vectors;
+  },
+};
+
+/** Signed feature hashing of lowercased words and adjacent word pairs, L2-normalized */
+function hashEmbedding(text: string) {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+  for (const feature of features) {
+    const digest = createHash('sha256').update(feature).digest();
+    const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((n, v) => n + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+}
+
+const local: EmbeddingProvider = {
+  name: 'local',
+  model: 'hash-1536',
+  unconfigured: () => null,
+  async embed(texts) {
+    return texts.map(hashEmbedding);
+  },
+};
+
+export const EMBEDDING_PROVIDERS: Record<string, EmbeddingProvider> = { openai, local };
+
+export function embeddingProvider(name = process.env.EMBEDDING_PROVIDER || 'openai') {
+  const provider = EMBEDDING_PROVIDERS[name.trim().toLowerCase()];
+  if (!provider) throw new Error(`Unknown embedding provider "${name}" (available: ${Object.keys(EMBEDDING_PROVIDERS).join(', ')})`);
+  return provider;
+}
+
+export interface EmbeddingResult {
+  provider: string;
+  model: string;
+  /** One vector per text, or null when the provider isn't configured */
+  vectors: number[][] | null;
+  skipped?: string;
+}
+
+/** Embed texts with the configured provider; checks the vector size against the columns */
+export async function embedTexts(texts: string[], provider = embeddingProvider()): Promise<EmbeddingResult> {
+  const reason = provider.unconfigured();
+  if (reason) return { provider: provider.name, model: provider.model, vectors: null, skipped: reason };
+  if (texts.length === 0) return { provider: provider.name, model: provider.model, vectors: [] };
+  const vectors = await provider.embed(texts, AbortSignal.timeout(TIMEOUT_MS));
+  if (vectors.length !== texts.length) {
+    throw new Error(`${provider.name} returned ${vectors.length} embeddings for ${texts.length} texts`);
+  }
+  const wrong = vectors.find(v => v.length !== EMBEDDING_DIMENSIONS);
+  if (wrong) throw new Error(`${provider.name} returned ${wrong.length}-dimensional embeddings; the columns are vector(${EMBEDDING_DIMENSIONS})`);
+  return { provider: provider.name, model: provider.model, vectors };
+}
+
+/** pgvector text form: '[0.1,0.2,...]' */
+export function toPgVector(vector: number[] | null | undefined) {
+  return vector ? `[${vector.join(',')}]` : null;
+}
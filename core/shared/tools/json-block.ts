@@ -0,0 +1,16 @@
+import type { z } from 'zod';
+
+/**
+ * The last ```json block in a model answer that matches the schema (null when none does).
+ * Agents are asked to end their answer with one; earlier blocks are usually examples.
+ */
+export function parseJsonBlock<T extends z.ZodTypeAny>(text: string, schema: T): z.infer<T> | null {
+  const blocks = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+  for (const block of blocks.reverse()) {
+    try {
+      const parsed = schema.safeParse(JSON.parse(block[1]));
+      if (parsed.success) return parsed.data;
+    } catch { /* not JSON, try the previous block */ }
+  }
+  return null;
+}
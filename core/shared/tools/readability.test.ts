@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText, estimateTokens } from './readability.js';
+
+// maxTokens 5 → at most 20 characters per chunk
+const MAX_TOKENS = 5;
+
+test('chunkText returns short text, or any text with maxTokens <= 0, as one chunk', () => {
+  assert.deepEqual(chunkText('short text', MAX_TOKENS), ['short text']);
+  assert.deepEqual(chunkText('', MAX_TOKENS), ['']);
+  const long = 'word '.repeat(100);
+  assert.deepEqual(chunkText(long, 0), [long]);
+});
+
+test('chunkText packs whole blocks together up to the limit', () => {
+  assert.deepEqual(chunkText('one two\n\nthree four\n\nfive six seven', MAX_TOKENS), [
+    'one two\n\nthree four',
+    'five six seven',
+  ]);
+});
+
+test('chunkText splits an oversized block on lines, keeping table rows joined by single newlines', () => {
+  assert.deepEqual(chunkText('| a | b |\n| - | - |\n| 1 | 2 |\n| 3 | 4 |', MAX_TOKENS), [
+    '| a | b |\n| - | - |',
+    '| 1 | 2 |\n| 3 | 4 |',
+  ]);
+  assert.deepEqual(chunkText(`intro\n\n${'y'.repeat(25)}\nshort`, MAX_TOKENS), [
+    'intro',
+    'y'.repeat(20),
+    'yyyyy\nshort',
+  ]);
+});
+
+test('chunkText hard-cuts a line longer than the limit', () => {
+  assert.deepEqual(chunkText('x'.repeat(45), MAX_TOKENS), ['x'.repeat(20), 'x'.repeat(20), 'x'.repeat(5)]);
+});
+
+test('chunkText keeps every chunk within the limit, loses no text and is deterministic', () => {
+  const text = Array.from({ length: 30 }, (_, i) =>
+    i % 7 === 0 ? `| row ${i} | ${'cell '.repeat(i % 5)}|\n| next | row |` : `Paragraph ${i} ${'lorem ipsum '.repeat(i % 11)}`,
+  ).join('\n\n');
+  const chunks = chunkText(text, 20);
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) assert.ok(estimateTokens(chunk) <= 20, `chunk over the limit: ${chunk.length} chars`);
+  assert.equal(chunks.join('').replace(/\s+/g, ''), text.replace(/\s+/g, ''));
+  assert.deepEqual(chunkText(text, 20), chunks);
+});
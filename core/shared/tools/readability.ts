@@ -0,0 +1,346 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Main-content extraction and markdown conversion for web.scrape
+ *
+ * A Readability-style pass over the parsed HTML: page furniture (scripts,
+ * navigation, footers, cookie banners, share bars...) is removed, then each
+ * paragraph scores its parent and grandparent by text length and commas, and
+ * the best-scoring container (discounted by link density) is the article,
+ * together with siblings that score close to it. The result is converted to
+ * markdown that keeps headings, lists, tables, links and code.
+ */
+
+export interface ArticleMetadata {
+  title: string;
+  byline: string | null;
+  publishedAt: string | null;
+  canonicalUrl: string | null;
+  lang: string | null;
+  siteName: string | null;
+  excerpt: string | null;
+}
+
+export interface ExtractedArticle extends ArticleMetadata {
+  markdown: string;
+  wordCount: number;
+}
+
+type $ = cheerio.CheerioAPI;
+
+const REMOVE = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'object', 'embed',
+  'form', 'button', 'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[role="alert"]', '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const UNLIKELY = /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skip|skyscraper|social|sponsor|subscribe|supplemental|toolbar|yom-remote/i;
+const MAYBE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE = /hidden|^hid$|banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+const text = (value: string | undefined | null) => (value ?? '').replace(/\s+/g, ' ').trim();
+
+function absolute(href: string, baseUrl: string) {
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+/** JSON-LD objects on the page (Article, NewsArticle, ...), flattened */
+function jsonLd($: $) {
+  const items: any[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const data = JSON.parse($(el).text());
+      for (const item of [data, ...(data?.['@graph'] ?? [])].flat()) if (item && typeof item === 'object') items.push(item);
+    } catch {
+      /* malformed JSON-LD is common; ignore it */
+    }
+  });
+  return items;
+}
+
+function ldAuthor(author: any): string | null {
+  if (!author) return null;
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) return author.map(ldAuthor).filter(Boolean).join(', ') || null;
+  return typeof author.name === 'string' ? author.name : null;
+}
+
+function metadata($: $, baseUrl: string): ArticleMetadata {
+  const meta = (...selectors: string[]) => {
+    for (const sel of selectors) {
+      const value = text($(sel).first().attr('content'));
+      if (value) return value;
+    }
+    return null;
+  };
+  const ld = jsonLd($).find(i => typeof i.headline === 'string' || i.datePublished) ?? {};
+
+  const title = meta('meta[property="og:title"]', 'meta[name="twitter:title"]')
+    || text(typeof ld.headline === 'string' ? ld.headline : '')
+    || text($('h1').first().text())
+    || text($('title').first().text());
+  const byline = meta('meta[name="author"]', 'meta[property="article:author"]', 'meta[name="byl"]')
+    || ldAuthor(ld.author)
+    || text($('[rel="author"], [itemprop="author"], .byline, .author').first().text())
+    || null;
+  const rawDate = meta('meta[property="article:published_time"]', 'meta[name="date"]', 'meta[name="pubdate"]',
+    'meta[name="publishdate"]', 'meta[name="dc.date"]', 'meta[name="DC.date.issued"]', 'meta[itemprop="datePublished"]')
+    || (typeof ld.datePublished === 'string' ? ld.datePublished : null)
+    || $('time[datetime]').first().attr('datetime')
+    || null;
+  const date = rawDate ? new Date(rawDate) : null;
+  const canonical = $('link[rel="canonical"]').attr('href') || meta('meta[property="og:url"]');
+  const lang = $('html').attr('lang') || meta('meta[http-equiv="content-language"]', 'meta[property="og:locale"]');
+
+  return {
+    title,
+    byline: byline ? byline.replace(/^by\s+/i, '') : null,
+    publishedAt: date && !Number.isNaN(+date) ? date.toISOString() : null,
+    canonicalUrl: canonical ? absolute(canonical, baseUrl) : null,
+    lang: lang ? lang.trim().replace('_', '-') : null,
+    siteName: meta('meta[property="og:site_name"]', 'meta[name="application-name"]'),
+    excerpt: meta('meta[name="description"]', 'meta[property="og:description"]'),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main content
+
+function removeBoilerplate($: $) {
+  $(REMOVE).remove();
+  // Page-level headers only; a header inside the article usually holds its title
+  $('header').filter((_, el) => $(el).closest('article, main').length === 0).remove();
+  $('body *').each((_, el) => {
+    const node = $(el);
+    const tag = (el as any).tagName;
+    if (tag === 'article' || tag === 'main' || tag === 'body') return;
+    const marker = `${node.attr('class') ?? ''} ${node.attr('id') ?? ''}`;
+    if (UNLIKELY.test(marker) && !MAYBE.test(marker)) node.remove();
+  });
+}
+
+function linkDensity($: $, node: cheerio.Cheerio<any>) {
+  const length = text(node.text()).length;
+  if (!length) return 0;
+  const linked = node.find('a').toArray().reduce((n, a) => n + text($(a).text()).length, 0);
+  return linked / length;
+}
+
+function classWeight(node: cheerio.Cheerio<any>) {
+  let weight = 0;
+  for (const marker of [node.attr('class'), node.attr('id')]) {
+    if (!marker) continue;
+    if (NEGATIVE.test(marker)) weight -= 25;
+    if (POSITIVE.test(marker)) weight += 25;
+  }
+  return weight;
+}
+
+function tagWeight(tag: string) {
+  if (tag === 'div' || tag === 'article' || tag === 'main' || tag === 'section') return 5;
+  if (tag === 'pre' || tag === 'td' || tag === 'blockquote') return 3;
+  if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li'].includes(tag)) return -3;
+  if (/^h[1-6]$/.test(tag) || tag === 'th') return -5;
+  return 0;
+}
+
+/** The article container(s): best-scoring node plus siblings that score close to it */
+function mainContent($: $) {
+  const scores = new Map<any, number>();
+  const init = (el: any) => {
+    if (!scores.has(el)) scores.set(el, tagWeight(el.tagName) + classWeight($(el)));
+  };
+
+  $('body').find('p, pre, td, blockquote, section > div, article > div').each((_, el) => {
+    const inner = text($(el).text());
+    if (inner.length < 25) return;
+    const commas = inner.split(/[,，、]/).length - 1;
+    const score = 1 + commas + Math.min(Math.floor(inner.length / 100), 3);
+    const parent = (el as any).parent;
+    const grandparent = parent?.parent;
+    if (parent?.type === 'tag') { init(parent); scores.set(parent, scores.get(parent)! + score); }
+    if (grandparent?.type === 'tag') { init(grandparent); scores.set(grandparent, scores.get(grandparent)! + score / 2); }
+  });
+
+  let top: any = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    const final = score * (1 - linkDensity($, $(el)));
+    scores.set(el, final);
+    if (final > topScore) { top = el; topScore = final; }
+  }
+  if (!top) return $('body').length ? $('body') : $.root();
+
+  const threshold = Math.max(10, topScore * 0.2);
+  const parent = top.parent;
+  if (!parent || parent.type !== 'tag') return $(top);
+  const picked = $(parent).children().filter((_, el) => {
+    if (el === top) return true;
+    if ((scores.get(el) ?? 0) >= threshold) return true;
+    if ((el as any).tagName !== 'p') return false;
+    const inner = text($(el).text());
+    const density = linkDensity($, $(el));
+    return (inner.length > 80 && density < 0.25) || (inner.length > 0 && density === 0 && /\.( |$)/.test(inner));
+  });
+  return picked;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+const BLOCK = new Set(['p', 'div', 'section', 'article', 'main', 'header', 'figure', 'figcaption', 'dl', 'dd', 'dt', 'address', 'details', 'summary']);
+
+function escapeCell(value: string) {
+  return value.replace(/\|/g, '\\|').replace(/\n+/g, ' ').trim();
+}
+
+/** Markdown for a node list; `depth` is the list nesting level */
+function toMarkdown($: $, nodes: any[], baseUrl: string, depth = 0): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.data.replace(/\s+/g, ' ');
+      continue;
+    }
+    if (node.type !== 'tag') continue;
+    const tag: string = node.tagName;
+    const inner = () => toMarkdown($, node.children ?? [], baseUrl, depth);
+
+    if (/^h[1-6]$/.test(tag)) {
+      const title = text(inner());
+      if (title) out += `\n\n${'#'.repeat(Number(tag[1]))} ${title}\n\n`;
+    } else if (BLOCK.has(tag)) {
+      out += `\n\n${inner()}\n\n`;
+    } else if (tag === 'br') {
+      out += '\n';
+    } else if (tag === 'hr') {
+      out += '\n\n---\n\n';
+    } else if (tag === 'a') {
+      const label = text(inner());
+      const href = $(node).attr('href');
+      if (!label) continue;
+      out += href && !href.startsWith('#') && !/^javascript:/i.test(href) ? `[${label}](${absolute(href, baseUrl)})` : label;
+    } else if (tag === 'strong' || tag === 'b') {
+      const value = text(inner());
+      if (value) out += `**${value}**`;
+    } else if (tag === 'em' || tag === 'i') {
+      const value = text(inner());
+      if (value) out += `_${value}_`;
+    } else if (tag === 'code') {
+      out += `\`${$(node).text()}\``;
+    } else if (tag === 'pre') {
+      out += `\n\n\`\`\`\n${$(node).text().replace(/\n+$/, '')}\n\`\`\`\n\n`;
+    } else if (tag === 'blockquote') {
+      const quoted = inner().trim().replace(/\n{3,}/g, '\n\n').split('\n').map(l => `> ${l}`.trimEnd()).join('\n');
+      out += `\n\n${quoted}\n\n`;
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = $(node).children('li').toArray();
+      const lines = items.map((li, i) => {
+        const marker = tag === 'ol' ? `${i + 1}.` : '-';
+        const body = toMarkdown($, (li as any).children ?? [], baseUrl, depth + 1).trim().replace(/\n{2,}/g, '\n');
+        const [first, ...rest] = body.split('\n');
+        const pad = ' '.repeat(marker.length + 1);
+        return [`${marker} ${first}`, ...rest.map(l => (l ? `${pad}${l}` : l))].join('\n');
+      });
+      out += depth > 0 ? `\n${lines.join('\n')}\n` : `\n\n${lines.join('\n')}\n\n`;
+    } else if (tag === 'table') {
+      const rows = $(node).find('tr').toArray().map(tr =>
+        $(tr).children('th, td').toArray().map(cell => escapeCell(text(toMarkdown($, (cell as any).children ?? [], baseUrl, depth)))));
+      const width = Math.max(0, ...rows.map(r => r.length));
+      if (!width) continue;
+      const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+      const [head, ...body] = rows;
+      out += `\n\n${[line(head), line(Array(width).fill('---')), ...body.map(line)].join('\n')}\n\n`;
+    } else if (tag === 'img') {
+      const alt = text($(node).attr('alt'));
+      const src = $(node).attr('src');
+      if (alt && src) out += `![${alt}](${absolute(src, baseUrl)})`;
+    } else {
+      out += inner();
+    }
+  }
+  return out;
+}
+
+/** Collapse whitespace and blank lines; code fences and list indentation are kept */
+function tidy(markdown: string) {
+  let fenced = false;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (line.trim().startsWith('```')) {
+        fenced = !fenced;
+        return line.trim();
+      }
+      if (fenced) return line.trimEnd();
+      const indent = /^ */.exec(line)![0];
+      const rest = line.replace(/[ \t]+/g, ' ').trim();
+      return /^([-*]|\d+\.) /.test(rest) ? indent + rest : rest;
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** HTML → markdown of the given element(s), or the whole body */
+export function htmlToMarkdown(html: string, baseUrl: string, selector?: string) {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template').remove();
+  const nodes = selector ? $(selector).toArray() : $('body').toArray();
+  return tidy(toMarkdown($, nodes.length ? nodes : $.root().toArray(), baseUrl));
+}
+
+/** Readability-style article extraction with metadata */
+export function extractArticle(html: string, baseUrl: string): ExtractedArticle {
+  const $ = cheerio.load(html);
+  const meta = metadata($, baseUrl);
+  removeBoilerplate($);
+  const markdown = tidy(toMarkdown($, mainContent($).toArray(), baseUrl));
+  return { ...meta, markdown, wordCount: markdown.split(/\s+/).filter(Boolean).length };
+}
+
+// ---------------------------------------------------------------------------
+// Chunking
+
+/** Rough token count (about 4 characters per token for English) */
+export const estimateTokens = (value: string) => Math.ceil(value.length / 4);
+
+/**
+ * Split markdown into chunks of at most maxTokens, on block boundaries
+ * (blank lines) where possible, then on lines, then hard-cut. Lines of one
+ * block stay joined by single newlines, so tables and lists survive a split.
+ * Deterministic, so a chunk index works as a cursor across calls.
+ */
+export function chunkText(value: string, maxTokens: number) {
+  if (maxTokens <= 0 || estimateTokens(value) <= maxTokens) return [value];
+  const maxChars = maxTokens * 4;
+  // Each piece carries the separator that joins it to the piece before
+  const pieces: Array<{ text: string; sep: string }> = [];
+  for (const block of value.split(/\n{2,}/)) {
+    if (block.length <= maxChars) { pieces.push({ text: block, sep: '\n\n' }); continue; }
+    block.split('\n').forEach((line, l) => {
+      for (let i = 0; i < line.length || i === 0; i += maxChars) {
+        pieces.push({ text: line.slice(i, i + maxChars), sep: i > 0 ? '' : l > 0 ? '\n' : '\n\n' });
+      }
+    });
+  }
+  const chunks: string[] = [];
+  let current = '';
+  for (const { text, sep } of pieces) {
+    const next = current ? `${current}${sep}${text}` : text;
+    if (next.length > maxChars && current) {
+      chunks.push(current);
+      current = text;
+    } else {
+      current = next;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,18 @@
+import { RuntimeContext } from '@mastra/core/runtime-context';
+
+/**
+ * Call a tool directly, outside an agent (deterministic workflows).
+ * Tools keep their optional-first contract: check `ok` on the result.
+ */
+export async function runTool<T extends { id: string; execute?: (ctx: any, ...rest: any[]) => Promise<any> }>(
+  tool: T,
+  context: Parameters<NonNullable<T['execute']>>[0]['context'],
+): Promise<Awaited<ReturnType<NonNullable<T['execute']>>>> {
+  if (!tool.execute) throw new Error(`Tool ${tool.id} has no execute()`);
+  return tool.execute({ context, runtimeContext: new RuntimeContext() });
+}
+
+/** Tools return { ok: false, reason | error } instead of throwing */
+export function toolError(result: any) {
+  return result?.reason || result?.error || 'unknown error';
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { canonicalUrl, fuseResults, runProvider } from './search-providers.js';
+
+const options = { maxResults: 5, searchDepth: 'basic' as const };
+
+test('canonicalUrl ignores scheme, www., fragment, tracking params and a trailing slash', () => {
+  assert.equal(canonicalUrl('https://www.Example.com/a/?utm_source=x&b=2&a=1#top'), 'example.com/a?a=1&b=2');
+  assert.equal(canonicalUrl('http://example.com/a'), canonicalUrl('https://www.example.com/a/'));
+  assert.equal(canonicalUrl('https://example.com:8080/'), 'example.com:8080');
+  assert.notEqual(canonicalUrl('https://example.com/a?id=1'), canonicalUrl('https://example.com/a?id=2'));
+  assert.equal(canonicalUrl('  not a url '), 'not a url');
+});
+
+test('fuseResults merges providers by canonical URL and ranks agreement first', () => {
+  const fused = fuseResults([
+    { provider: 'tavily', results: [
+      { url: 'https://a.org/x', title: 'A', snippet: 'short', score: 0.9 },
+      { url: 'http://www.b.org/', title: 'B', snippet: '', score: 0.8 },
+    ] },
+    { provider: 'brave', results: [
+      { url: 'https://b.org', title: 'B', snippet: 'a longer snippet', score: null },
+      { url: 'https://c.org', title: 'C', snippet: '', score: null },
+    ] },
+  ], 10);
+
+  assert.deepEqual(fused.map(r => r.url), ['https://b.org', 'https://a.org/x', 'https://c.org']);
+  const [b] = fused;
+  assert.deepEqual(b.providers.map(p => [p.name, p.rank]), [['tavily', 2], ['brave', 1]]);
+  assert.equal(b.provider, 'brave');
+  assert.equal(b.snippet, 'a longer snippet');
+  assert.equal(b.score, Math.round((1 / 62 + 1 / 61) * 1e6) / 1e6);
+});
+
+test('fuseResults counts a provider once per URL, skips results without one and caps the list', () => {
+  const fused = fuseResults([
+    { provider: 'bing', results: [
+      { url: 'https://a.org', title: 'A', snippet: '', score: null },
+      { url: 'https://a.org/#again', title: 'A', snippet: '', score: null },
+      { url: '', title: 'no url', snippet: '', score: null },
+      { url: 'https://b.org', title: 'B', snippet: '', score: null },
+    ] },
+  ], 1);
+
+  assert.equal(fused.length, 1);
+  assert.equal(fused[0].providers.length, 1);
+  assert.equal(fused[0].score, Math.round((1 / 61) * 1e6) / 1e6);
+});
+
+test('fixture provider answers from SEARCH_FIXTURES_PATH, falling back to "*"', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'search-fixtures-'));
+  const previous = process.env.SEARCH_FIXTURES_PATH;
+  try {
+    process.env.SEARCH_FIXTURES_PATH = join(dir, 'fixtures.json');
+    await writeFile(process.env.SEARCH_FIXTURES_PATH, JSON.stringify({
+      'NP practice authority': [{ url: 'https://aanp.org/fpa', title: 'FPA', content: 'Full practice authority' }],
+      '*': [{ url: 'https://example.org', title: 'Anything' }],
+    }));
+
+    const hit = await runProvider('fixture', '  np practice AUTHORITY ', options);
+    assert.equal(hit.report.ok, true);
+    assert.deepEqual(hit.response?.results, [
+      { url: 'https://aanp.org/fpa', title: 'FPA', snippet: 'Full practice authority', score: null },
+    ]);
+
+    const fallback = await runProvider('fixture', 'something else', options);
+    assert.deepEqual(fallback.response?.results.map(r => r.url), ['https://example.org']);
+  } finally {
+    if (previous === undefined) delete process.env.SEARCH_FIXTURES_PATH;
+    else process.env.SEARCH_FIXTURES_PATH = previous;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('runProvider reports unknown and unconfigured providers instead of throwing', async () => {
+  for (const name of ['nope', 'constructor', 'toString']) {
+    const { report, response } = await runProvider(name, 'q', options);
+    assert.equal(response, undefined);
+    assert.equal(report.skipped, true);
+    assert.equal(report.error, `Unknown provider "${name}"`);
+  }
+  const previous = process.env.SEARCH_FIXTURES_PATH;
+  delete process.env.SEARCH_FIXTURES_PATH;
+  const { report } = await runProvider('fixture', 'q', options);
+  if (previous !== undefined) process.env.SEARCH_FIXTURES_PATH = previous;
+  assert.deepEqual([report.ok, report.skipped, report.error], [false, true, 'SEARCH_FIXTURES_PATH not set']);
+});
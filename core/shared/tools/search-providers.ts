@@ -0,0 +1,235 @@
+import { readFile } from 'fs/promises';
+
+/**
+ * Search providers behind web.search
+ *
+ * Each provider turns a query into ranked results, or reports that it isn't
+ * configured. Results from several providers are deduplicated by canonical
+ * URL and merged with reciprocal rank fusion: score = Σ 1 / (k + rank) over
+ * the providers that returned the URL, so agreement between providers counts
+ * for more than any one provider's own relevance score.
+ *
+ *   tavily   TAVILY_API_KEY
+ *   brave    BRAVE_SEARCH_API_KEY
+ *   bing     BING_SEARCH_API_KEY (BING_SEARCH_ENDPOINT to override the URL)
+ *   searxng  SEARXNG_URL (self-hosted, JSON output enabled)
+ *   fixture  SEARCH_FIXTURES_PATH: JSON file { "<query>": [results], "*": [results] }, for offline runs
+ */
+
+export interface ProviderResult {
+  url: string;
+  title: string;
+  snippet: string;
+  /** The provider's own relevance score, when it has one */
+  score: number | null;
+}
+
+export interface ProviderResponse {
+  results: ProviderResult[];
+  answer?: string | null;
+}
+
+export interface SearchOptions {
+  maxResults: number;
+  searchDepth: 'basic' | 'advanced';
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  name: string;
+  /** Why the provider can't run (missing env), or null when it can */
+  unconfigured(): string | null;
+  search(query: string, options: SearchOptions): Promise<ProviderResponse>;
+}
+
+const TIMEOUT_MS = Number(process.env.SEARCH_TIMEOUT_MS || 15_000);
+const RRF_K = Number(process.env.SEARCH_RRF_K || 60);
+
+async function getJson(provider: string, url: string, init: RequestInit) {
+  const res = await fetch(url, init);
+  if (!res.ok) throw new Error(`${provider} error: ${res.status} ${(await res.text().catch(() => '')).slice(0, 300)}`);
+  return res.json() as Promise<any>;
+}
+
+const tavily: SearchProvider = {
+  name: 'tavily',
+  unconfigured: () => (process.env.TAVILY_API_KEY ? null : 'TAVILY_API_KEY not set'),
+  async search(query, { maxResults, searchDepth, signal }) {
+    const data = await getJson('Tavily', 'https://api.tavily.com/search', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        api_key: process.env.TAVILY_API_KEY,
+        query,
+        search_depth: searchDepth,
+        max_results: Math.max(1, Math.min(maxResults, 10)),
+        include_answer: true,
+        include_images: false,
+        include_raw_content: true,
+      }),
+      signal,
+    });
+    return {
+      answer: data?.answer ?? null,
+      results: (data?.results ?? []).map((r: any) => ({ url: r.url, title: r.title, snippet: r.content, score: r.score ?? null })),
+    };
+  },
+};
+
+const brave: SearchProvider = {
+  name: 'brave',
+  unconfigured: () => (process.env.BRAVE_SEARCH_API_KEY ? null : 'BRAVE_SEARCH_API_KEY not set'),
+  async search(query, { maxResults, signal }) {
+    const params = new URLSearchParams({ q: query, count: String(Math.max(1, Math.min(maxResults, 20))) });
+    const data = await getJson('Brave', `https://api.search.brave.com/res/v1/web/search?${params}`, {
+      headers: { Accept: 'application/json', 'X-Subscription-Token': process.env.BRAVE_SEARCH_API_KEY! },
+      signal,
+    });
+    return {
+      results: (data?.web?.results ?? []).map((r: any) => ({ url: r.url, title: r.title, snippet: r.description ?? '', score: null })),
+    };
+  },
+};
+
+const bing: SearchProvider = {
+  name: 'bing',
+  unconfigured: () => (process.env.BING_SEARCH_API_KEY ? null : 'BING_SEARCH_API_KEY not set'),
+  async search(query, { maxResults, signal }) {
+    const endpoint = process.env.BING_SEARCH_ENDPOINT || 'https://api.bing.microsoft.com/v7.0/search';
+    const params = new URLSearchParams({ q: query, count: String(Math.max(1, Math.min(maxResults, 50))), responseFilter: 'Webpages' });
+    const data = await getJson('Bing', `${endpoint}?${params}`, {
+      headers: { 'Ocp-Apim-Subscription-Key': process.env.BING_SEARCH_API_KEY! },
+      signal,
+    });
+    return {
+      results: (data?.webPages?.value ?? []).map((r: any) => ({ url: r.url, title: r.name, snippet: r.snippet ?? '', score: null })),
+    };
+  },
+};
+
+const searxng: SearchProvider = {
+  name: 'searxng',
+  unconfigured: () => (process.env.SEARXNG_URL ? null : 'SEARXNG_URL not set'),
+  async search(query, { maxResults, signal }) {
+    const base = process.env.SEARXNG_URL!.replace(/\/+$/, '');
+    const params = new URLSearchParams({ q: query, format: 'json' });
+    const data = await getJson('SearxNG', `${base}/search?${params}`, { headers: { Accept: 'application/json' }, signal });
+    return {
+      answer: Array.isArray(data?.answers) && typeof data.answers[0] === 'string' ? data.answers[0] : null,
+      results: (data?.results ?? []).slice(0, maxResults)
+        .map((r: any) => ({ url: r.url, title: r.title, snippet: r.content ?? '', score: r.score ?? null })),
+    };
+  },
+};
+
+const fixture: SearchProvider = {
+  name: 'fixture',
+  unconfigured: () => (process.env.SEARCH_FIXTURES_PATH ? null : 'SEARCH_FIXTURES_PATH not set'),
+  async search(query, { maxResults }) {
+    const fixtures = JSON.parse(await readFile(process.env.SEARCH_FIXTURES_PATH!, 'utf8'));
+    const key = Object.keys(fixtures).find(k => k.trim().toLowerCase() === query.trim().toLowerCase()) ?? '*';
+    const entries: any[] = fixtures[key] ?? [];
+    return {
+      results: entries.slice(0, maxResults)
+        .map((r: any) => ({ url: r.url, title: r.title ?? '', snippet: r.snippet ?? r.content ?? '', score: r.score ?? null })),
+    };
+  },
+};
+
+export const SEARCH_PROVIDERS: Record<string, SearchProvider> = { tavily, brave, bing, searxng, fixture };
+
+/** Providers named in SEARCH_PROVIDERS (comma-separated), default tavily */
+export function defaultProviders() {
+  return (process.env.SEARCH_PROVIDERS || 'tavily').split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+}
+
+const TRACKING_PARAM = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/**
+ * Dedup key for a URL: scheme, "www.", fragment, tracking parameters and a
+ * trailing slash don't make a different page; the remaining query is sorted
+ */
+export function canonicalUrl(raw: string) {
+  try {
+    const u = new URL(raw);
+    const params = [...u.searchParams.entries()]
+      .filter(([k]) => !TRACKING_PARAM.test(k))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? `?${new URLSearchParams(params)}` : '';
+    const path = u.pathname.replace(/\/+$/, '') || '';
+    return `${u.hostname.toLowerCase().replace(/^www\./, '')}${u.port ? `:${u.port}` : ''}${path}${query}`;
+  } catch {
+    return raw.trim();
+  }
+}
+
+export interface MergedResult {
+  url: string;
+  title: string;
+  snippet: string;
+  /** Reciprocal rank fusion score */
+  score: number;
+  /** Provider that ranked it highest */
+  provider: string;
+  providers: Array<{ name: string; rank: number; score: number | null }>;
+}
+
+/** Merge ranked lists from several providers: dedup by canonical URL, order by fused score */
+export function fuseResults(lists: Array<{ provider: string; results: ProviderResult[] }>, maxResults: number) {
+  const merged = new Map<string, MergedResult & { bestRank: number }>();
+  for (const { provider, results } of lists) {
+    results.forEach((r, i) => {
+      if (!r?.url) return;
+      const rank = i + 1;
+      const key = canonicalUrl(r.url);
+      const hit = merged.get(key);
+      if (!hit) {
+        merged.set(key, {
+          url: r.url, title: r.title ?? '', snippet: r.snippet ?? '', score: 1 / (RRF_K + rank),
+          provider, providers: [{ name: provider, rank, score: r.score }], bestRank: rank,
+        });
+        return;
+      }
+      if (hit.providers.some(p => p.name === provider)) return;
+      hit.score += 1 / (RRF_K + rank);
+      hit.providers.push({ name: provider, rank, score: r.score });
+      if (rank < hit.bestRank) Object.assign(hit, { provider, bestRank: rank });
+      // Keep the fuller title/snippet and prefer an https URL
+      if ((r.snippet ?? '').length > hit.snippet.length) hit.snippet = r.snippet;
+      if (!hit.title && r.title) hit.title = r.title;
+      if (hit.url.startsWith('http:') && r.url.startsWith('https:')) hit.url = r.url;
+    });
+  }
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score || a.bestRank - b.bestRank)
+    .slice(0, maxResults)
+    .map(({ bestRank: _, ...r }) => ({ ...r, score: Math.round(r.score * 1e6) / 1e6 }));
+}
+
+export interface ProviderReport {
+  name: string;
+  ok: boolean;
+  count: number;
+  durationMs: number;
+  skipped?: boolean;
+  error?: string;
+}
+
+/** Run one provider with the shared timeout; never throws */
+export async function runProvider(name: string, query: string, options: SearchOptions) {
+  // Own keys only: a name like "constructor" must not resolve to an Object.prototype member
+  const provider = Object.hasOwn(SEARCH_PROVIDERS, name) ? SEARCH_PROVIDERS[name] : undefined;
+  const t0 = Date.now();
+  const report = (r: Omit<ProviderReport, 'name' | 'durationMs'>): ProviderReport => ({ name, durationMs: Date.now() - t0, ...r });
+  if (!provider) return { report: report({ ok: false, count: 0, skipped: true, error: `Unknown provider "${name}"` }) };
+  const reason = provider.unconfigured();
+  if (reason) return { report: report({ ok: false, count: 0, skipped: true, error: reason }) };
+  try {
+    const signal = options.signal ? AbortSignal.any([options.signal, AbortSignal.timeout(TIMEOUT_MS)]) : AbortSignal.timeout(TIMEOUT_MS);
+    const response = await provider.search(query, { ...options, signal });
+    return { response, report: report({ ok: true, count: response.results.length }) };
+  } catch (err: any) {
+    console.error(`[search] ${name} failed:`, err?.message ?? err);
+    return { report: report({ ok: false, count: 0, error: err?.message ?? String(err) }) };
+  }
+}
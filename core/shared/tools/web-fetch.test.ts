@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRobots, robotsAllows } from './web-fetch.js';
+
+test('parseRobots picks the agentbox group over *, with its Crawl-delay', () => {
+  const robots = parseRobots([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    '# ours',
+    'User-agent: Googlebot',
+    'User-Agent: AgentBox',
+    'Disallow: /private   # trailing comment',
+    'Allow: /private/public',
+    'Crawl-delay: 2.5',
+  ].join('\r\n'));
+
+  assert.deepEqual(robots.rules, [
+    { allow: false, path: '/private' },
+    { allow: true, path: '/private/public' },
+  ]);
+  assert.equal(robots.crawlDelayMs, 2500);
+});
+
+test('parseRobots falls back to the * group and ignores rules outside any group', () => {
+  const robots = parseRobots('Disallow: /orphan\nUser-agent: otherbot\nDisallow: /x\n\nUser-agent: *\nDisallow:\nDisallow: /tmp/\nCrawl-delay: nope\n');
+  assert.deepEqual(robots.rules, [{ allow: false, path: '/tmp/' }]);
+  assert.equal(robots.crawlDelayMs, 0);
+  assert.deepEqual(parseRobots('User-agent: otherbot\nDisallow: /'), { rules: [], crawlDelayMs: 0 });
+});
+
+test('robotsAllows: longest match wins, Allow wins a tie, no match is allowed', () => {
+  const robots = parseRobots('User-agent: *\nDisallow: /docs\nAllow: /docs/open\nDisallow: /a\nAllow: /a\n');
+  assert.equal(robotsAllows(robots, '/docs/secret'), false);
+  assert.equal(robotsAllows(robots, '/docs/open/page'), true);
+  assert.equal(robotsAllows(robots, '/a/b'), true);
+  assert.equal(robotsAllows(robots, '/elsewhere'), true);
+  assert.equal(robotsAllows({ rules: [], crawlDelayMs: 0 }, '/anything'), true);
+});
+
+test('robotsAllows supports * wildcards and $ anchors, and matches the query string', () => {
+  const robots = parseRobots('User-agent: *\nDisallow: /*.pdf$\nDisallow: /search?*q=\nDisallow: /a.b\n');
+  assert.equal(robotsAllows(robots, '/files/report.pdf'), false);
+  assert.equal(robotsAllows(robots, '/files/report.pdf?download=1'), true);
+  assert.equal(robotsAllows(robots, '/search?lang=en&q=nurses'), false);
+  assert.equal(robotsAllows(robots, '/search'), true);
+  // "." is literal, not a regex wildcard
+  assert.equal(robotsAllows(robots, '/axb'), true);
+  assert.equal(robotsAllows(robots, '/a.b/c'), false);
+});
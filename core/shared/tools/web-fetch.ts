@@ -0,0 +1,386 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { cacheGet, cacheSet } from '../db/cache.js';
+
+/**
+ * Polite fetcher shared by the web tools
+ *
+ * - one User-Agent (WEB_USER_AGENT); robots.txt is checked per origin and
+ *   cached (WEB_RESPECT_ROBOTS=false to skip), Crawl-delay included
+ * - per-host concurrency (WEB_FETCH_HOST_CONCURRENCY) and a minimum delay
+ *   between request starts (WEB_FETCH_HOST_DELAY_MS)
+ * - redirects are followed by hand (at most MAX_REDIRECTS), each hop with its
+ *   own robots.txt check and host slot
+ * - timeout (WEB_FETCH_TIMEOUT_MS) and size limit (WEB_FETCH_MAX_BYTES);
+ *   HTML/text past the limit is truncated, a PDF past it is an error
+ * - content type from the header, or sniffed when it's missing or generic;
+ *   PDFs are reduced to their text (unpdf)
+ * - responses cached by URL: in WEB_CACHE_DIR when set, otherwise in Redis /
+ *   process memory (core/shared/db/cache.ts), where bodies over
+ *   WEB_CACHE_MAX_BODY_BYTES aren't cached. Entries older than
+ *   WEB_CACHE_FRESH_SEC are revalidated with If-None-Match / If-Modified-Since.
+ *
+ * Failures throw with flags: `robotsDisallowed`, `status` (HTTP status),
+ * `tooLarge`.
+ */
+
+export const USER_AGENT = process.env.WEB_USER_AGENT || 'AgentBox/1.0 (+https://github.com/Awhitter/whastra)';
+const ROBOTS_TOKEN = 'agentbox';
+const RESPECT_ROBOTS = process.env.WEB_RESPECT_ROBOTS !== 'false';
+const TIMEOUT_MS = Number(process.env.WEB_FETCH_TIMEOUT_MS || 20_000);
+const MAX_BYTES = Number(process.env.WEB_FETCH_MAX_BYTES || 10 * 1024 * 1024);
+const HOST_CONCURRENCY = Number(process.env.WEB_FETCH_HOST_CONCURRENCY || 2);
+const HOST_DELAY_MS = Number(process.env.WEB_FETCH_HOST_DELAY_MS || 1000);
+const CACHE_TTL_SEC = Number(process.env.WEB_CACHE_TTL_SEC ?? 86_400);
+const CACHE_FRESH_MS = Number(process.env.WEB_CACHE_FRESH_SEC ?? 600) * 1000;
+const ROBOTS_TTL_SEC = Number(process.env.WEB_ROBOTS_TTL_SEC || 3600);
+const CACHE_DIR = process.env.WEB_CACHE_DIR || null;
+/** Largest body kept in Redis / process memory; the disk cache takes any size */
+const CACHE_MAX_BODY_BYTES = Number(process.env.WEB_CACHE_MAX_BODY_BYTES || 512 * 1024);
+const MAX_REDIRECTS = 10;
+/** Crawl-delay above this is capped rather than stalling a tool call */
+const MAX_CRAWL_DELAY_MS = 10_000;
+
+export type PageKind = 'html' | 'pdf' | 'text' | 'json' | 'other';
+
+/** hit: served from cache · revalidated: 304, cached copy used · refreshed: changed, refetched · stale: revalidation failed, cached copy used · miss: fetched */
+export type FetchCacheStatus = 'hit' | 'revalidated' | 'refreshed' | 'stale' | 'miss';
+
+export interface FetchedPage {
+  url: string;
+  /** After redirects */
+  finalUrl: string;
+  status: number;
+  contentType: string;
+  kind: PageKind;
+  /** HTML source, text, or the extracted text of a PDF */
+  body: string;
+  truncated: boolean;
+  bytes: number;
+  /** PDF document info (Title, Author, CreationDate, ...) */
+  pdf?: { pages: number; info: Record<string, unknown> };
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ---------------------------------------------------------------------------
+// Per-host pacing
+
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  nextStart: number;
+  crawlDelayMs: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+function hostState(host: string) {
+  let state = hosts.get(host);
+  if (!state) hosts.set(host, (state = { active: 0, waiting: [], nextStart: 0, crawlDelayMs: 0 }));
+  return state;
+}
+
+async function withHostSlot<T>(host: string, fn: () => Promise<T>): Promise<T> {
+  const state = hostState(host);
+  if (state.active >= HOST_CONCURRENCY) await new Promise<void>(resolve => state.waiting.push(resolve));
+  state.active++;
+  try {
+    const now = Date.now();
+    const start = Math.max(now, state.nextStart);
+    state.nextStart = start + Math.max(HOST_DELAY_MS, state.crawlDelayMs);
+    if (start > now) await sleep(start - now);
+    return await fn();
+  } finally {
+    state.active--;
+    state.waiting.shift()?.();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Cache (disk when WEB_CACHE_DIR is set, otherwise the shared cache)
+
+interface CachedPage {
+  page: FetchedPage;
+  cachedAt: string;
+}
+
+const diskPath = (key: string) => join(CACHE_DIR!, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+async function readCache<T>(key: string): Promise<T | null> {
+  try {
+    if (!CACHE_DIR) return await cacheGet<T>(key);
+    const entry = JSON.parse(await readFile(diskPath(key), 'utf8'));
+    return entry.expiresAt > Date.now() ? (entry.value as T) : null;
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') console.error('[web] cache read failed:', err?.message || err);
+    return null;
+  }
+}
+
+async function writeCache(key: string, value: unknown, ttlSec: number) {
+  if (ttlSec <= 0) return;
+  try {
+    if (!CACHE_DIR) return await cacheSet(key, value, ttlSec);
+    await mkdir(CACHE_DIR, { recursive: true });
+    await writeFile(diskPath(key), JSON.stringify({ expiresAt: Date.now() + ttlSec * 1000, value }));
+  } catch (err: any) {
+    console.error('[web] cache write failed:', err?.message || err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// robots.txt
+
+interface RobotsRules {
+  rules: Array<{ allow: boolean; path: string }>;
+  crawlDelayMs: number;
+}
+
+/** The group for our token if there is one, else the `*` group */
+export function parseRobots(text: string): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: RobotsRules['rules']; crawlDelayMs: number }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*/, '').trim();
+    const m = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!m) continue;
+    const field = m[1].toLowerCase();
+    const value = m[2].trim();
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) groups.push((current = { agents: [], rules: [], crawlDelayMs: 0 }));
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) current.rules.push({ allow: field === 'allow', path: value });
+    if (field === 'crawl-delay' && Number(value) > 0) current.crawlDelayMs = Number(value) * 1000;
+  }
+  const group = groups.find(g => g.agents.includes(ROBOTS_TOKEN))
+    ?? groups.find(g => g.agents.includes('*'));
+  return { rules: group?.rules ?? [], crawlDelayMs: group?.crawlDelayMs ?? 0 };
+}
+
+function ruleMatches(pattern: string, path: string) {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/** Longest matching rule wins; Allow wins a tie; no match is allowed */
+export function robotsAllows(robots: RobotsRules, path: string) {
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of robots.rules) {
+    if (!ruleMatches(rule.path, path)) continue;
+    if (!best || rule.path.length > best.length || (rule.path.length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length: rule.path.length };
+    }
+  }
+  return best?.allow ?? true;
+}
+
+/** Rules for an origin; an unreachable or missing robots.txt allows everything */
+async function robotsFor(origin: string, host: string): Promise<RobotsRules> {
+  const key = `web:robots:${origin}`;
+  const cached = await readCache<RobotsRules>(key);
+  if (cached) return cached;
+  let robots: RobotsRules = { rules: [], crawlDelayMs: 0 };
+  try {
+    const res = await withHostSlot(host, () => fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    }));
+    if (res.ok) robots = parseRobots((await res.text()).slice(0, 500_000));
+    else await res.body?.cancel().catch(() => {});
+  } catch (err: any) {
+    console.error(`[web] robots.txt for ${origin} unavailable:`, err?.message || err);
+  }
+  await writeCache(key, robots, ROBOTS_TTL_SEC);
+  return robots;
+}
+
+/** Throws `robotsDisallowed` when robots.txt forbids the URL; applies its Crawl-delay to the host */
+async function checkRobots(target: URL) {
+  if (!RESPECT_ROBOTS) return;
+  const robots = await robotsFor(target.origin, target.host);
+  hostState(target.host).crawlDelayMs = Math.min(robots.crawlDelayMs, MAX_CRAWL_DELAY_MS);
+  if (!robotsAllows(robots, `${target.pathname}${target.search}`)) {
+    throw Object.assign(new Error(`Disallowed by robots.txt: ${target.href}`), { robotsDisallowed: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Content
+
+function detectKind(contentType: string, bytes: Uint8Array, url: string): PageKind {
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  const head = new TextDecoder().decode(bytes.subarray(0, 512)).trimStart().toLowerCase();
+  if (mime === 'application/pdf' || head.startsWith('%pdf-')) return 'pdf';
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') return 'html';
+  if (mime === 'application/json' || mime.endsWith('+json')) return 'json';
+  if (mime.startsWith('text/') || mime.endsWith('+xml') || mime === 'application/xml') return 'text';
+  // Missing or generic (application/octet-stream) type: sniff
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return 'html';
+  if (/\.pdf($|\?)/i.test(url)) return 'pdf';
+  return 'other';
+}
+
+function decode(bytes: Uint8Array, contentType: string) {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/** Body up to MAX_BYTES; `truncated` when there was more */
+async function readBody(res: Response) {
+  const declared = Number(res.headers.get('content-length'));
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = declared > MAX_BYTES;
+  const reader = res.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > MAX_BYTES) {
+      chunks.push(value.subarray(0, MAX_BYTES - size));
+      size = MAX_BYTES;
+      truncated = true;
+      await reader.cancel().catch(() => {});
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const c of chunks) { bytes.set(c, offset); offset += c.byteLength; }
+  return { bytes, truncated };
+}
+
+async function pdfText(bytes: Uint8Array) {
+  const { getDocumentProxy, extractText, getMeta } = await import('unpdf');
+  const doc = await getDocumentProxy(bytes);
+  const [{ totalPages, text }, meta] = await Promise.all([
+    extractText(doc, { mergePages: true }),
+    getMeta(doc).catch(() => ({ info: {} as Record<string, unknown> })),
+  ]);
+  return { text, pages: totalPages, info: meta.info ?? {} };
+}
+
+async function toPage(url: string, finalUrl: string, res: Response): Promise<FetchedPage> {
+  const contentType = res.headers.get('content-type') ?? '';
+  const { bytes, truncated } = await readBody(res);
+  const kind = detectKind(contentType, bytes, finalUrl);
+  let body = '';
+  let pdf: FetchedPage['pdf'];
+  if (kind === 'pdf') {
+    if (truncated) {
+      throw Object.assign(new Error(`PDF larger than WEB_FETCH_MAX_BYTES (${MAX_BYTES} bytes)`), { tooLarge: true });
+    }
+    const extracted = await pdfText(bytes);
+    body = extracted.text;
+    pdf = { pages: extracted.pages, info: extracted.info };
+  } else if (kind !== 'other') {
+    body = decode(bytes, contentType);
+  }
+  return {
+    url,
+    finalUrl,
+    status: res.status,
+    contentType,
+    kind,
+    body,
+    truncated,
+    bytes: bytes.byteLength,
+    pdf,
+    etag: res.headers.get('etag'),
+    lastModified: res.headers.get('last-modified'),
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fetch a page politely (robots.txt, per-host pacing, limits), from cache
+ * when possible. Returns the page and how the cache was used.
+ */
+export async function politeFetch(url: string, options: { signal?: AbortSignal } = {}) {
+  const target = new URL(url);
+  const key = `web:page:${target.href}`;
+  const cached = CACHE_TTL_SEC > 0 ? await readCache<CachedPage>(key) : null;
+  if (cached && Date.now() - Date.parse(cached.cachedAt) < CACHE_FRESH_MS) {
+    return { page: cached.page, cache: 'hit' as FetchCacheStatus };
+  }
+
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Accept: 'text/html,application/xhtml+xml,application/pdf,application/xml;q=0.9,*/*;q=0.8',
+  };
+  if (cached?.page.etag) headers['If-None-Match'] = cached.page.etag;
+  if (cached?.page.lastModified) headers['If-Modified-Since'] = cached.page.lastModified;
+
+  try {
+    let current = target;
+    let page: FetchedPage | null = null;
+    // Redirects by hand: every hop gets the robots.txt check and pacing of its own host
+    for (let hop = 0; ; hop++) {
+      await checkRobots(current);
+      const step = await withHostSlot<{ next: URL } | { page: FetchedPage | null }>(current.host, async () => {
+        const timeout = AbortSignal.timeout(TIMEOUT_MS);
+        const res = await fetch(current.href, {
+          headers,
+          redirect: 'manual',
+          signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+        });
+        const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+        if (location) {
+          await res.body?.cancel().catch(() => {});
+          return { next: new URL(location, current) };
+        }
+        if (res.status === 304 && cached) {
+          await res.body?.cancel().catch(() => {});
+          return { page: null };
+        }
+        if (!res.ok) {
+          const text = await res.text().catch(() => '');
+          throw Object.assign(new Error(`Fetch failed: ${res.status} ${text.slice(0, 200)}`), { status: res.status });
+        }
+        return { page: await toPage(url, current.href, res) };
+      });
+      if (!('next' in step)) {
+        page = step.page;
+        break;
+      }
+      if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects (more than ${MAX_REDIRECTS}): ${target.href}`);
+      if (step.next.protocol !== 'http:' && step.next.protocol !== 'https:') {
+        throw new Error(`Redirect to unsupported URL: ${step.next.href}`);
+      }
+      current = step.next;
+    }
+
+    if (page === null) {
+      await writeCache(key, { page: cached!.page, cachedAt: new Date().toISOString() }, CACHE_TTL_SEC);
+      return { page: cached!.page, cache: 'revalidated' as FetchCacheStatus };
+    }
+    const cacheable = !page.truncated && (CACHE_DIR || Buffer.byteLength(page.body) <= CACHE_MAX_BODY_BYTES);
+    if (cacheable) await writeCache(key, { page, cachedAt: page.fetchedAt }, CACHE_TTL_SEC);
+    return { page, cache: (cached ? 'refreshed' : 'miss') as FetchCacheStatus };
+  } catch (err: any) {
+    // Revalidation failed (network, 5xx): the cached copy is better than nothing
+    if (cached && !err?.robotsDisallowed && !(err?.status >= 400 && err?.status < 500) && !options.signal?.aborted) {
+      console.error(`[web] revalidating ${target.href} failed, using cached copy:`, err?.message || err);
+      return { page: cached.page, cache: 'stale' as FetchCacheStatus };
+    }
+    throw err;
+  }
+}
@@ -1,142 +1,168 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import {
+  CITATION_STYLES,
+  citationWarnings,
+  crossrefCandidates,
+  formatBibliography as formatBibliographyText,
+  formatCitation,
+  fromCsl,
+  givenFamily,
+  htmlCandidates,
+  pdfCandidates,
+  resolveCitation,
+  toCsl,
+  urlCandidates,
+  type Candidate,
+  type DateParts,
+} from './citations.js';
+import { chunkText, estimateTokens, extractArticle, htmlToMarkdown } from './readability.js';
+import { defaultProviders, fuseResults, runProvider } from './search-providers.js';
+import { politeFetch, type FetchedPage } from './web-fetch.js';
+
+const DEFAULT_CHUNK_TOKENS = 4000;
 
 /**
- * Web Search Tool - Tavily-backed
+ * Web Search Tool - pluggable providers
  *
- * WHY: Research agents need access to current, authoritative sources
- * HOW: Tavily API for web search with source citations and relevance scoring
+ * WHY: Research agents need access to current, authoritative sources without
+ *      depending on a single search API
+ * HOW: Queries one or more providers (search-providers.ts), dedups by
+ *      canonical URL and merges by reciprocal rank fusion. "merge" queries all
+ *      of them; "fallback" stops at the first one that returns results.
  * EXAMPLE: Search for "RN job market trends Q4 2024" with citations
  */
 export const webSearch = createTool({
   id: 'web.search',
-  description: 'Search the web for current information, research, and authoritative sources. Returns results with citations and relevance scores.',
+  description: 'Search the web for current information, research, and authoritative sources. Returns results with citations, a merged relevance score and the providers each result came from.',
   inputSchema: z.object({
     query: z.string().describe('Search query'),
     maxResults: z.number().optional().default(5).describe('Maximum number of results to return (default: 5)'),
     searchDepth: z.enum(['basic', 'advanced']).optional().default('advanced').describe('Tavily search_depth: basic or advanced'),
+    providers: z.array(z.string()).optional().describe('Providers to query: tavily, brave, bing, searxng, fixture (default: SEARCH_PROVIDERS)'),
+    strategy: z.enum(['merge', 'fallback']).optional().describe('merge: query all providers; fallback: in order until one returns results (default: SEARCH_STRATEGY or merge)'),
   }),
 
   execute: async ({ context }) => {
     const { query, maxResults = 5, searchDepth = 'advanced' } = context;
+    const names = context.providers?.length ? context.providers.map(p => p.toLowerCase()) : defaultProviders();
+    const strategy = context.strategy ?? (process.env.SEARCH_STRATEGY === 'fallback' ? 'fallback' : 'merge');
+    const options = { maxResults, searchDepth };
 
-    const tavilyKey = process.env.TAVILY_API_KEY;
-    if (!tavilyKey) {
-      return {
-        results: [],
-        query,
-        note: 'Set TAVILY_API_KEY in .env to enable web search (Tavily REST API).',
-      };
+    const runs: Awaited<ReturnType<typeof runProvider>>[] = [];
+    if (strategy === 'fallback') {
+      for (const name of names) {
+        const run = await runProvider(name, query, options);
+        runs.push(run);
+        if (run.response?.results.length) break;
+      }
+    } else {
+      runs.push(...await Promise.all(names.map(name => runProvider(name, query, options))));
     }
 
-    try {
-      const resp = await fetch('https://api.tavily.com/search', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          api_key: tavilyKey,
+    const reports = runs.map(r => r.report);
+    const answered = runs.filter(r => r.response);
+    if (answered.length === 0) {
+      if (reports.every(r => r.skipped)) {
+        return {
+          results: [],
           query,
-          search_depth: searchDepth,
-          max_results: Math.max(1, Math.min(maxResults, 10)),
-          include_answer: true,
-          include_images: false,
-          include_raw_content: true,
-        }),
-      });
-
-      if (!resp.ok) {
-        const errText = await resp.text();
-        throw new Error(`Tavily error: ${resp.status} ${errText}`);
+          providers: reports,
+          note: `No search provider configured (${reports.map(r => `${r.name}: ${r.error}`).join('; ')}). Set SEARCH_PROVIDERS and the provider's key in .env.`,
+        };
       }
-
-      const data: any = await resp.json();
-      const results = (data?.results ?? []).map((r: any) => ({
-        url: r.url,
-        title: r.title,
-        snippet: r.content,
-        score: r.score ?? null,
-      })) ?? [];
-
-      return {
-        query,
-        answer: data?.answer ?? null,
-        results,
-        citations: results.map((r: any) => r.url),
-        source: 'tavily',
-      };
-    } catch (error: any) {
-      console.error('Web search error:', error);
-      throw new Error(`Web search failed: ${error?.message ?? String(error)}`);
+      throw new Error(`Web search failed: ${reports.filter(r => !r.skipped).map(r => `${r.name}: ${r.error}`).join('; ')}`);
     }
+
+    const results = fuseResults(answered.map(r => ({ provider: r.report.name, results: r.response!.results })), maxResults);
+    return {
+      query,
+      answer: answered.map(r => r.response!.answer).find(Boolean) ?? null,
+      results,
+      citations: results.map(r => r.url),
+      source: answered.map(r => r.report.name).join(','),
+      providers: reports,
+    };
   },
 });
 
 /**
- * Web Scrape Tool - Static HTML fetch with Cheerio
+ * Web Scrape Tool - polite fetch, main-content extraction to markdown
  *
- * WHY: Extract specific content from known URLs
- * HOW: Static HTML fetch (no JS rendering), optional CSS selector
+ * WHY: Extract the content of known URLs without nav, footers and banners,
+ *      in pieces small enough for the model's context
+ * HOW: politeFetch (robots.txt, pacing, cache); HTML goes through a
+ *      Readability-style extractor (readability.ts) or an explicit CSS
+ *      selector and comes back as markdown with byline/date/canonical/lang.
+ *      PDFs and plain text are returned as text. Long content is split into
+ *      chunks of maxTokens; pass nextCursor back as cursor for the next one.
  * NOTE: For JS-heavy sites, consider adding Browserbase/Playwright later
  */
 export const webScrape = createTool({
   id: 'web.scrape',
-  description: 'Scrape content from a specific URL (static HTML). Provide selector to narrow extraction.',
+  description: 'Scrape the main content of a URL (static HTML, PDF or text) as markdown, with byline, published date, canonical URL and language. Long pages come back in chunks: call again with cursor = nextCursor for the rest.',
   inputSchema: z.object({
     url: z.string().url().describe('URL to scrape'),
-    selector: z.string().optional().describe('CSS selector for specific content (optional)'),
+    selector: z.string().optional().describe('CSS selector for specific content (optional, HTML only; skips main-content detection)'),
+    maxTokens: z.number().int().min(0).optional().describe(`Approximate tokens per chunk (default: WEB_SCRAPE_MAX_TOKENS or ${DEFAULT_CHUNK_TOKENS}; 0 = whole page)`),
+    cursor: z.string().optional().describe('nextCursor from a previous call, to read the next chunk'),
   }),
 
   execute: async ({ context }) => {
-    const { url, selector } = context;
+    const { url, selector, cursor } = context;
+    const maxTokens = context.maxTokens ?? Number(process.env.WEB_SCRAPE_MAX_TOKENS || DEFAULT_CHUNK_TOKENS);
 
     try {
-      // Dynamic import for cheerio
-      const cheerio = await import('cheerio');
-
-      const res = await fetch(url, {
-        headers: {
-          'User-Agent': 'AgentBox/1.0 (+https://github.com/Awhitter/whastra) Mozilla/5.0',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        },
-      });
-
-      if (!res.ok) {
-        const body = await res.text().catch(() => '');
-        throw new Error(`Fetch failed: ${res.status} ${body.slice(0, 200)}`);
+      const { page, cache } = await politeFetch(url);
+      const meta = { contentType: page.contentType, kind: page.kind, truncated: page.truncated, cache };
+
+      const chunked = (content: string) => {
+        const chunks = chunkText(content, maxTokens);
+        const index = cursor === undefined ? 0 : Number(cursor);
+        if (!Number.isInteger(index) || index < 0 || index >= chunks.length) {
+          throw new Error(`Invalid cursor "${cursor}" (content has ${chunks.length} chunk${chunks.length === 1 ? '' : 's'})`);
+        }
+        return {
+          content: chunks[index],
+          chunk: {
+            index,
+            total: chunks.length,
+            tokens: estimateTokens(chunks[index]),
+            nextCursor: index + 1 < chunks.length ? String(index + 1) : null,
+          },
+        };
+      };
+
+      if (page.kind === 'pdf') {
+        return {
+          url,
+          title: pdfInfo(page, 'Title') || fileName(page.finalUrl),
+          byline: pdfInfo(page, 'Author') || null,
+          publishedAt: pdfInfo(page, 'CreationDate') ? pdfDate(pdfInfo(page, 'CreationDate')) : null,
+          ...chunked(page.body.trim()),
+          pages: page.pdf?.pages ?? null,
+          ...meta,
+          note: 'Text extracted from PDF.' + (selector ? ' Selector ignored.' : ''),
+        };
+      }
+      if (page.kind !== 'html') {
+        return { url, title: fileName(page.finalUrl), ...chunked(page.body), ...meta, note: `Returned as ${page.kind}; not HTML.` };
       }
 
-      const html = await res.text();
-      const $ = cheerio.load(html);
-
-      const pick = (sel: string) => $(sel).text().trim();
-      const title = $('meta[property="og:title"]').attr('content') ||
-                    $('title').first().text().trim() ||
-                    '';
-
-      // If selector provided, use it; otherwise try common content containers
-      const chosen = selector && pick(selector)
-        ? pick(selector)
-        : [
-            'article',
-            'main',
-            '#content',
-            '.post',
-            '.article',
-            '.article-body',
-            '.post-content',
-            '.content',
-          ]
-            .map(pick)
-            .filter(Boolean)
-            .join('\n\n') || $('body').text().trim();
+      const article = extractArticle(page.body, page.finalUrl);
+      const markdown = selector ? htmlToMarkdown(page.body, page.finalUrl, selector) : article.markdown;
+      const { markdown: _, wordCount: __, ...metadata } = article;
 
       return {
         url,
-        title,
-        content: chosen,
+        ...metadata,
+        wordCount: markdown.split(/\s+/).filter(Boolean).length,
+        ...chunked(markdown),
+        format: 'markdown',
+        ...meta,
         note: (selector
           ? 'Used CSS selector.'
-          : 'Static scrape; JS not executed.') +
+          : 'Main content extracted; static scrape, JS not executed.') +
           ' Add Browserbase/Playwright later if needed.',
       };
     } catch (error: any) {
@@ -146,73 +172,125 @@ export const webScrape = createTool({
   },
 });
 
+/** String field from PDF document info, if present */
+function pdfInfo(page: FetchedPage, field: string) {
+  const value = page.pdf?.info?.[field];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/** Last path segment, for documents without a title */
+function fileName(url: string) {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '');
+  } catch {
+    return '';
+  }
+}
+
+/** PDF dates look like D:20240131120000+01'00' */
+function pdfDate(value: string) {
+  const m = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/.exec(value);
+  if (!m) return value;
+  const [, y, mo = '01', d = '01', h = '00', mi = '00', sec = '00'] = m;
+  return `${y}-${mo}-${d}T${h}:${mi}:${sec}Z`;
+}
+
+const CROSSREF = process.env.CITATION_CROSSREF !== 'false';
+
 /**
- * Extract Citations Tool - Parse real metadata from URLs
+ * Citation metadata for a URL: candidates from the page (or PDF info), then
+ * from Crossref when a DOI turns up. Never throws; a page that can't be
+ * fetched leaves URL-only metadata and a warning.
+ */
+async function lookupCitation(url: string, accessed: Date) {
+  const all: Candidate[] = [];
+  let fetchError: string | null = null;
+  try {
+    const { page } = await politeFetch(url);
+    if (page.kind === 'pdf') {
+      all.push(...pdfCandidates(page.pdf?.info ?? {}, page.finalUrl));
+      all.push({ field: 'title', value: fileName(page.finalUrl), source: 'url', confidence: 0.2 });
+    } else if (page.kind === 'html') {
+      all.push(...htmlCandidates(page.body, page.finalUrl));
+    } else {
+      all.push(...urlCandidates(page.finalUrl));
+    }
+  } catch (err: any) {
+    fetchError = err?.message ?? String(err);
+    all.push(...urlCandidates(url));
+  }
+
+  const doi = resolveCitation(url, all).metadata.doi;
+  if (doi && CROSSREF) {
+    try {
+      const { page } = await politeFetch(`https://api.crossref.org/works/${encodeURIComponent(doi)}`);
+      all.push(...crossrefCandidates(JSON.parse(page.body)?.message));
+    } catch (err: any) {
+      console.error(`[citations] Crossref lookup for ${doi} failed:`, err?.message ?? err);
+    }
+  }
+
+  const resolved = resolveCitation(url, all, accessed);
+  if (fetchError) resolved.warnings.unshift(`Could not fetch the page (${fetchError}); metadata comes from the URL only`);
+  return resolved;
+}
+
+/** "2024-03-05", "2024-03" or "2024" */
+function isoDate(d: DateParts | null) {
+  return d ? [d.year, d.month, d.day].filter(Boolean).map((n, i) => String(n).padStart(i ? 2 : 4, '0')).join('-') : null;
+}
+
+/**
+ * Extract Citations Tool - structured metadata, several citation styles
  *
- * WHY: Research agents need properly formatted citations
- * HOW: Fetch page and parse og:title, author, published date
+ * WHY: Research and clinical content need references that are actually right
+ * HOW: politeFetch (usually a cache hit after web.scrape); Highwire
+ *      citation_*, JSON-LD, Dublin Core, OpenGraph and page heuristics are
+ *      ranked per field (citations.ts), then Crossref fills in when there is
+ *      a DOI. Each field carries a confidence; a missing date stays null.
  */
 export const extractCitation = createTool({
   id: 'web.extractCitation',
-  description: 'Extract citation information from a URL (title, author, date, source)',
+  description: 'Extract citation metadata from a URL (title, authors, date, journal, DOI) with per-field confidence, formatted as APA, Chicago, Harvard, MLA, BibTeX and CSL-JSON. Check warnings before publishing.',
   inputSchema: z.object({
     url: z.string().url().describe('URL to extract citation from'),
   }),
 
   execute: async ({ context }) => {
     try {
-      const u = new URL(context.url);
-      const domain = u.hostname.replace(/^www\./, '');
-
-      let title = 'Untitled';
-      let author = 'Unknown';
-      let dateISO = '';
-
-      try {
-        const res = await fetch(context.url, {
-          headers: {
-            'User-Agent': 'AgentBox/1.0 Mozilla/5.0',
-          },
-        });
-
-        if (res.ok) {
-          const html = await res.text();
-          const cheerio = await import('cheerio');
-          const $ = cheerio.load(html);
-
-          title = $('meta[property="og:title"]').attr('content') ||
-                  $('title').first().text().trim() ||
-                  title;
-
-          author = $('meta[name="author"]').attr('content') ||
-                   $('meta[property="article:author"]').attr('content') ||
-                   author;
-
-          const rawDate = $('meta[property="article:published_time"]').attr('content') ||
-                          $('meta[name="date"]').attr('content') ||
-                          $('time[datetime]').attr('datetime') ||
-                          '';
-
-          if (rawDate) {
-            const d = new Date(rawDate);
-            if (!Number.isNaN(+d)) dateISO = d.toISOString();
-          }
-        }
-      } catch {
-        /* non-fatal - use defaults */
-      }
-
+      const domain = new URL(context.url).hostname.replace(/^www\./, '');
       const accessed = new Date();
-      const citationMLA = `${author !== 'Unknown' ? author + '. ' : ''}"${title}." ${domain}. Accessed ${accessed.toLocaleDateString()}. Web.`;
+      const { metadata, confidence, sources, warnings } = await lookupCitation(context.url, accessed);
+      const citations = {
+        apa: formatCitation(metadata, 'apa'),
+        chicago: formatCitation(metadata, 'chicago'),
+        harvard: formatCitation(metadata, 'harvard'),
+        mla: formatCitation(metadata, 'mla'),
+        bibtex: formatCitation(metadata, 'bibtex'),
+      };
 
       return {
         url: context.url,
         source: domain,
-        title,
-        author,
-        date: dateISO || accessed.toISOString(),
+        type: metadata.type,
+        title: metadata.title,
+        author: metadata.authors.map(givenFamily).join(', ') || null,
+        authors: metadata.authors,
+        date: isoDate(metadata.issued),
         accessDate: accessed.toISOString(),
-        citationMLA,
+        containerTitle: metadata.containerTitle,
+        publisher: metadata.publisher,
+        volume: metadata.volume,
+        issue: metadata.issue,
+        pages: metadata.pages,
+        doi: metadata.doi,
+        lang: metadata.lang,
+        confidence,
+        sources,
+        warnings,
+        citations,
+        csl: toCsl(metadata),
+        citationMLA: citations.mla,
       };
     } catch (error: any) {
       console.error('Citation extraction error:', error);
@@ -220,3 +298,52 @@ export const extractCitation = createTool({
     }
   },
 });
+
+/**
+ * Format Bibliography Tool - batch citations in one style
+ *
+ * WHY: A finished piece needs its whole reference list, consistent and sorted
+ * HOW: Looks up each URL like web.extractCitation (pages on the same host are
+ *      paced by politeFetch), accepts CSL-JSON items for references already
+ *      in hand, dedups by DOI/URL and sorts by author or title
+ */
+export const formatBibliography = createTool({
+  id: 'web.formatBibliography',
+  description: 'Format a whole bibliography in one style (apa, chicago, harvard, mla, bibtex, csl) from URLs and/or CSL-JSON items. Sorted, deduplicated, with warnings per entry.',
+  inputSchema: z.object({
+    urls: z.array(z.string().url()).max(50).optional().describe('URLs to cite'),
+    items: z.array(z.record(z.any())).max(200).optional().describe('CSL-JSON items (e.g. the csl field from web.extractCitation, corrected by hand)'),
+    style: z.enum(CITATION_STYLES).optional().default('apa').describe('Citation style (default: apa)'),
+  }),
+
+  execute: async ({ context }) => {
+    const { urls = [], items = [], style = 'apa' } = context;
+    if (!urls.length && !items.length) throw new Error('Provide urls and/or items');
+
+    const accessed = new Date();
+    const looked = await Promise.all(urls.map(url => lookupCitation(url, accessed)));
+    const refs = [
+      ...looked.map(r => ({ metadata: r.metadata, warnings: r.warnings, confidence: r.confidence as Record<string, number> | null })),
+      ...items.map(item => {
+        const metadata = fromCsl(item, accessed);
+        return { metadata, warnings: citationWarnings(metadata), confidence: null };
+      }),
+    ];
+    const byMetadata = new Map(refs.map(r => [r.metadata, r]));
+    const bibliography = formatBibliographyText(refs.map(r => r.metadata), style);
+
+    return {
+      style,
+      count: bibliography.entries.length,
+      duplicates: bibliography.duplicates,
+      bibliography: bibliography.text,
+      entries: bibliography.entries.map(e => ({
+        key: e.key,
+        url: e.metadata.url,
+        citation: e.citation,
+        warnings: byMetadata.get(e.metadata)!.warnings,
+        confidence: byMetadata.get(e.metadata)!.confidence,
+      })),
+    };
+  },
+});
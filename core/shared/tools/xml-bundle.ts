@@ -0,0 +1,349 @@
+/**
+ * Content bundle builder
+ *
+ * Assembles the <bundle> XML for a Content Initiator from its fields and the
+ * XML fragments stored on linked Personas, Domains, Entities and References.
+ * Initiator fields are escaped; every fragment is parsed first and left out
+ * (with a warning) when it isn't well-formed, so one broken Airtable field
+ * can't corrupt the whole bundle.
+ *
+ * Alongside the XML it returns a structured summary (goal, voice rules,
+ * constraints, linked record names) for callers that don't want to parse XML.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export type XmlParseResult =
+  | { ok: true; nodes: XmlNode[] }
+  | { ok: false; error: string; line: number; column: number };
+
+const NAME_RE = /[A-Za-z_:][\w.:-]*/y;
+const ENTITY_RE = /&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z][\w.-]*);/y;
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function escapeXml(value: unknown) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Parse an XML fragment: any number of root elements and text, no DOCTYPE.
+ * A leading <?xml ...?> declaration is allowed. Strict about well-formedness
+ * (matching tags, quoted attributes, escaped & and <, known entities).
+ */
+export function parseXmlFragment(src: string): XmlParseResult {
+  const root: XmlElement = { name: '#fragment', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const fail = (message: string, at = i): never => { throw Object.assign(new Error(message), { xmlIndex: at }); };
+  const current = () => stack[stack.length - 1];
+  const skipSpace = () => { while (i < src.length && /\s/.test(src[i])) i++; };
+  const readName = () => {
+    NAME_RE.lastIndex = i;
+    const m = NAME_RE.exec(src);
+    if (!m) fail(`Expected a name, found '${src[i] ?? 'end of input'}'`);
+    i += m![0].length;
+    return m![0];
+  };
+  const decode = (text: string, offset: number) => {
+    let out = '';
+    for (let j = 0; j < text.length; j++) {
+      const ch = text[j];
+      if (ch === '<') fail(`Unescaped '<'`, offset + j);
+      if (ch !== '&') { out += ch; continue; }
+      ENTITY_RE.lastIndex = j;
+      const m = ENTITY_RE.exec(text);
+      if (!m) fail(`Unescaped '&' (use &amp;)`, offset + j);
+      const ref = m![1];
+      if (ref[0] === '#') {
+        const code = ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+        if (!(code > 0 && code <= 0x10ffff)) fail(`Invalid character reference &${ref};`, offset + j);
+        out += String.fromCodePoint(code);
+      } else if (ref in NAMED_ENTITIES) {
+        out += NAMED_ENTITIES[ref];
+      } else {
+        fail(`Unknown entity &${ref};`, offset + j);
+      }
+      j += m![0].length - 1;
+    }
+    return out;
+  };
+  const pushText = (text: string) => {
+    const siblings = current().children;
+    const last = siblings[siblings.length - 1];
+    if (typeof last === 'string') siblings[siblings.length - 1] = last + text;
+    else siblings.push(text);
+  };
+
+  try {
+    if (src.charCodeAt(0) === 0xfeff) i = 1;
+    const start = i;
+    while (i < src.length) {
+      if (src.startsWith('<!--', i)) {
+        const end = src.indexOf('-->', i + 4);
+        if (end === -1) fail('Unterminated comment');
+        i = end + 3;
+      } else if (src.startsWith('<![CDATA[', i)) {
+        const end = src.indexOf(']]>', i + 9);
+        if (end === -1) fail('Unterminated CDATA section');
+        pushText(src.slice(i + 9, end));
+        i = end + 3;
+      } else if (src.startsWith('<?', i)) {
+        // The XML declaration may only open a document; embedded mid-fragment it makes the bundle ill-formed
+        if (/^<\?xml(?=[\s?])/i.test(src.slice(i, i + 6)) && i > start) fail('XML declaration is only allowed at the start');
+        const end = src.indexOf('?>', i + 2);
+        if (end === -1) fail('Unterminated processing instruction');
+        i = end + 2;
+      } else if (src.startsWith('<!', i)) {
+        fail('DOCTYPE and other declarations are not allowed');
+      } else if (src.startsWith('</', i)) {
+        const at = i;
+        i += 2;
+        const name = readName();
+        skipSpace();
+        if (src[i] !== '>') fail(`Expected '>' to close </${name}`);
+        i++;
+        const open = current();
+        if (open === root) fail(`Unexpected closing tag </${name}>`, at);
+        if (open.name !== name) fail(`Mismatched closing tag </${name}> (expected </${open.name}>)`, at);
+        stack.pop();
+      } else if (src[i] === '<') {
+        i++;
+        const el: XmlElement = { name: readName(), attributes: {}, children: [] };
+        for (;;) {
+          const before = i;
+          skipSpace();
+          if (src.startsWith('/>', i)) { i += 2; current().children.push(el); break; }
+          if (src[i] === '>') { i++; current().children.push(el); stack.push(el); break; }
+          if (i >= src.length) fail(`Unterminated start tag <${el.name}`);
+          if (i === before) fail(`Expected whitespace before attribute in <${el.name}>`);
+          const attr = readName();
+          skipSpace();
+          if (src[i] !== '=') fail(`Attribute '${attr}' in <${el.name}> has no value`);
+          i++;
+          skipSpace();
+          const quote = src[i];
+          if (quote !== '"' && quote !== "'") fail(`Attribute '${attr}' in <${el.name}> must be quoted`);
+          const end = src.indexOf(quote, i + 1);
+          if (end === -1) fail(`Unterminated value for attribute '${attr}'`);
+          if (attr in el.attributes) fail(`Duplicate attribute '${attr}' in <${el.name}>`);
+          el.attributes[attr] = decode(src.slice(i + 1, end), i + 1);
+          i = end + 1;
+        }
+      } else {
+        const end = src.indexOf('<', i);
+        const stop = end === -1 ? src.length : end;
+        pushText(decode(src.slice(i, stop), i));
+        i = stop;
+      }
+    }
+    if (stack.length > 1) fail(`Unclosed <${current().name}>`, src.length);
+    return { ok: true, nodes: root.children };
+  } catch (err: any) {
+    if (typeof err?.xmlIndex !== 'number') throw err;
+    const before = src.slice(0, err.xmlIndex);
+    const line = before.split('\n').length;
+    return { ok: false, error: err.message, line, column: err.xmlIndex - before.lastIndexOf('\n') };
+  }
+}
+
+export function elements(nodes: XmlNode[]) {
+  return nodes.filter((n): n is XmlElement => typeof n !== 'string');
+}
+
+/** Every element named `name` at any depth, in document order */
+export function descendants(nodes: XmlNode[], name: string): XmlElement[] {
+  return elements(nodes).flatMap(el => [...(el.name === name ? [el] : []), ...descendants(el.children, name)]);
+}
+
+/** Text content with whitespace collapsed */
+export function textOf(node: XmlNode | XmlNode[]): string {
+  const nodes = Array.isArray(node) ? node : [node];
+  return nodes
+    .map(n => (typeof n === 'string' ? n : textOf(n.children)))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function firstText(nodes: XmlNode[], ...names: string[]) {
+  for (const name of names) {
+    const text = descendants(nodes, name).map(textOf).find(Boolean);
+    if (text) return text;
+  }
+  return null;
+}
+
+export type FragmentKind = 'persona' | 'domain' | 'entity' | 'reference';
+
+export interface BundleFragment {
+  recordId: string;
+  xml: string;
+}
+
+export interface BundleWarning {
+  kind: FragmentKind | 'bundle';
+  recordId: string | null;
+  error: string;
+  line?: number;
+  column?: number;
+}
+
+export interface LinkedSummary {
+  recordId: string | null;
+  name: string | null;
+}
+
+export interface ContentBundle {
+  initiatorId: string;
+  goal: string | null;
+  contentType: string | null;
+  outputType: string | null;
+  personas: LinkedSummary[];
+  domains: LinkedSummary[];
+  entities: LinkedSummary[];
+  references: Array<LinkedSummary & { url: string | null }>;
+  /** Persona <voice> and <guidelines><do>, entity <voiceGuidelines> */
+  voiceRules: string[];
+  /** Persona <guidelines><avoid>, domain and entity <constraints> */
+  constraints: string[];
+}
+
+export interface BundleInput {
+  initiatorId: string;
+  goal?: string | null;
+  contentType?: string | null;
+  outputType?: string | null;
+  personas?: BundleFragment[];
+  domains?: BundleFragment[];
+  entities?: BundleFragment[];
+  references?: BundleFragment[];
+}
+
+const SECTIONS = [
+  { key: 'personas', tag: 'personas', kind: 'persona' },
+  { key: 'domains', tag: 'domains', kind: 'domain' },
+  { key: 'entities', tag: 'entities', kind: 'entity' },
+  { key: 'references', tag: 'references', kind: 'reference' },
+] as const;
+
+function emptyBundle(initiatorId: string, fields: Pick<BundleInput, 'goal' | 'contentType' | 'outputType'>): ContentBundle {
+  return {
+    initiatorId,
+    goal: fields.goal || null,
+    contentType: fields.contentType || null,
+    outputType: fields.outputType || null,
+    personas: [],
+    domains: [],
+    entities: [],
+    references: [],
+    voiceRules: [],
+    constraints: [],
+  };
+}
+
+/** Add one parsed fragment's names, voice rules and constraints to the summary */
+function summarize(bundle: ContentBundle, kind: FragmentKind, recordId: string | null, nodes: XmlNode[]) {
+  const name = firstText(nodes, 'name', 'title', 'claim');
+  const rules = new Set(bundle.voiceRules);
+  const constraints = new Set(bundle.constraints);
+  const add = (set: Set<string>, text: string, prefix = '') => { if (text) set.add(prefix + text); };
+
+  if (kind === 'persona') {
+    bundle.personas.push({ recordId, name });
+    for (const voice of descendants(nodes, 'voice')) {
+      const parts = elements(voice.children);
+      if (parts.length === 0) add(rules, textOf(voice));
+      for (const part of parts) add(rules, textOf(part), `${part.name}: `);
+    }
+    for (const guidelines of descendants(nodes, 'guidelines')) {
+      for (const rule of descendants(guidelines.children, 'do')) add(rules, textOf(rule));
+      for (const rule of descendants(guidelines.children, 'avoid')) add(constraints, textOf(rule), 'Avoid: ');
+    }
+  } else if (kind === 'domain') {
+    bundle.domains.push({ recordId, name });
+    for (const c of descendants(nodes, 'constraints')) add(constraints, textOf(c));
+  } else if (kind === 'entity') {
+    bundle.entities.push({ recordId, name });
+    for (const v of descendants(nodes, 'voiceGuidelines')) add(rules, textOf(v));
+    for (const c of descendants(nodes, 'constraints')) add(constraints, textOf(c));
+  } else {
+    bundle.references.push({ recordId, name, url: firstText(nodes, 'url', 'source') });
+  }
+
+  bundle.voiceRules = [...rules];
+  bundle.constraints = [...constraints];
+}
+
+function stripDeclaration(xml: string) {
+  return xml.replace(/^\uFEFF?\s*<\?xml[^>]*\?>/, '').trim();
+}
+
+/** The <initiator> element with escaped fields */
+export function initiatorXml(initiatorId: string, fields: Pick<BundleInput, 'goal' | 'contentType' | 'outputType'>) {
+  return [
+    `  <initiator id="${escapeXml(initiatorId)}">`,
+    fields.goal ? `    <goal>${escapeXml(fields.goal)}</goal>` : '',
+    fields.contentType ? `    <contentType>${escapeXml(fields.contentType)}</contentType>` : '',
+    fields.outputType ? `    <outputType>${escapeXml(fields.outputType)}</outputType>` : '',
+    `  </initiator>`,
+  ].filter(Boolean);
+}
+
+export function buildContentBundle(input: BundleInput) {
+  const bundle = emptyBundle(input.initiatorId, input);
+  const warnings: BundleWarning[] = [];
+  const xmlParts = [`<bundle>`, ...initiatorXml(input.initiatorId, input)];
+
+  for (const { key, tag, kind } of SECTIONS) {
+    const embedded: string[] = [];
+    for (const fragment of input[key] ?? []) {
+      const xml = stripDeclaration(fragment.xml);
+      if (!xml) continue;
+      const parsed = parseXmlFragment(xml);
+      if (!parsed.ok) {
+        warnings.push({ kind, recordId: fragment.recordId, error: parsed.error, line: parsed.line, column: parsed.column });
+        continue;
+      }
+      embedded.push(`    ${xml}`);
+      summarize(bundle, kind, fragment.recordId, parsed.nodes);
+    }
+    if (embedded.length > 0) xmlParts.push(`  <${tag}>`, ...embedded, `  </${tag}>`);
+  }
+
+  xmlParts.push(`</bundle>`);
+  return { xml: xmlParts.join('\n'), bundle, warnings };
+}
+
+/**
+ * Check a prebuilt bundle (e.g. the initiator's lookup field) and summarize
+ * the persona/domain/entity/reference elements it contains.
+ */
+export function describePrebuiltBundle(initiatorId: string, xml: string) {
+  const warnings: BundleWarning[] = [];
+  const parsed = parseXmlFragment(stripDeclaration(xml));
+  if (!parsed.ok) {
+    warnings.push({ kind: 'bundle', recordId: initiatorId, error: parsed.error, line: parsed.line, column: parsed.column });
+    return { bundle: null, warnings };
+  }
+  const bundle = emptyBundle(initiatorId, {
+    goal: firstText(parsed.nodes, 'goal'),
+    contentType: firstText(parsed.nodes, 'contentType'),
+    outputType: firstText(parsed.nodes, 'outputType'),
+  });
+  for (const { kind } of SECTIONS) {
+    for (const el of descendants(parsed.nodes, kind)) summarize(bundle, kind, null, [el]);
+  }
+  return { bundle, warnings };
+}
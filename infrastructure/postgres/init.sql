@@ -124,6 +124,49 @@ CREATE TABLE IF NOT EXISTS rag_knowledge.chunks (
 
 CREATE INDEX IF NOT EXISTS idx_documents_source ON rag_knowledge.documents(source);
 CREATE INDEX IF NOT EXISTS idx_chunks_document_id ON rag_knowledge.chunks(document_id);
+-- Evidence-pack findings are deduplicated by source + claim + evidence
+CREATE INDEX IF NOT EXISTS idx_chunks_dedup_key ON rag_knowledge.chunks((metadata->>'dedupKey'));
+
+-- Schema: content (for generated content revisions)
+CREATE SCHEMA IF NOT EXISTS content;
+
+CREATE TABLE IF NOT EXISTS content.revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    initiator_id VARCHAR(64) NOT NULL,
+    revision INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    title TEXT,
+    summary TEXT,
+    model VARCHAR(255),
+    prompt_version VARCHAR(50),
+    bundle_hash VARCHAR(64),
+    format VARCHAR(50),
+    structured JSONB,
+    author VARCHAR(255),
+    usage JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    output_at TIMESTAMP WITH TIME ZONE,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    UNIQUE (initiator_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_output_at ON content.revisions(initiator_id, output_at DESC NULLS LAST);
+
+-- Review audit trail: one row per approve / reject / regenerate / repurpose
+CREATE TABLE IF NOT EXISTS content.reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    initiator_id VARCHAR(64) NOT NULL,
+    revision INTEGER,
+    action VARCHAR(20) NOT NULL,
+    reviewer VARCHAR(255) NOT NULL,
+    comment TEXT,
+    from_status VARCHAR(100),
+    to_status VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_initiator ON content.reviews(initiator_id, created_at DESC);
 
 -- Schema: analytics (for performance tracking and monitoring)
 CREATE SCHEMA IF NOT EXISTS analytics;
@@ -163,6 +206,8 @@ GRANT ALL PRIVILEGES ON SCHEMA user_data TO agentbox;
 GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA user_data TO agentbox;
 GRANT ALL PRIVILEGES ON SCHEMA rag_knowledge TO agentbox;
 GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA rag_knowledge TO agentbox;
+GRANT ALL PRIVILEGES ON SCHEMA content TO agentbox;
+GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA content TO agentbox;
 GRANT ALL PRIVILEGES ON SCHEMA analytics TO agentbox;
 GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA analytics TO agentbox;
 